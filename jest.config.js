@@ -0,0 +1,17 @@
+const nextJest = require('next/jest');
+
+const createJestConfig = nextJest({
+  // Load next.config.js and .env files from the project root
+  dir: './',
+});
+
+/** @type {import('jest').Config} */
+const customJestConfig = {
+  testEnvironment: 'node',
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+  testMatch: ['<rootDir>/src/**/__tests__/**/*.test.ts'],
+};
+
+module.exports = createJestConfig(customJestConfig);
@@ -130,14 +130,35 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Hostname of a URL without any www. prefix (used to group skips by site)
+CREATE OR REPLACE FUNCTION url_domain(url TEXT)
+RETURNS TEXT AS $$
+  SELECT regexp_replace(lower(substring(url from '^[A-Za-z][A-Za-z0-9+.-]*://([^/:?#]+)')), '^www\.', '');
+$$ LANGUAGE sql IMMUTABLE;
+
 -- Get personalized recommendations for a user
 CREATE OR REPLACE FUNCTION get_personalized_recommendations(
   target_user_id UUID,
   limit_count INTEGER DEFAULT 10,
-  exclude_viewed BOOLEAN DEFAULT TRUE
+  exclude_viewed BOOLEAN DEFAULT TRUE,
+  exclude_session_id TEXT DEFAULT NULL -- Leave out what this stumble session has been shown
 )
 RETURNS TABLE(resource_id UUID, relevance_score DECIMAL) AS $$
+DECLARE
+  quick_skip_seconds DECIMAL;
+  skip_half_life_days DECIMAL;
+  skip_penalty_min_weight DECIMAL;
 BEGIN
+  -- Get skip thresholds from system config
+  SELECT COALESCE((SELECT (value::TEXT)::DECIMAL FROM system_config WHERE key = 'quick_skip_seconds'), 10)
+  INTO quick_skip_seconds;
+
+  SELECT COALESCE((SELECT (value::TEXT)::DECIMAL FROM system_config WHERE key = 'skip_half_life_days'), 14)
+  INTO skip_half_life_days;
+
+  SELECT COALESCE((SELECT (value::TEXT)::DECIMAL FROM system_config WHERE key = 'skip_penalty_min_weight'), 2)
+  INTO skip_penalty_min_weight;
+
   RETURN QUERY
   WITH user_profile AS (
     -- Analyze user's interaction history
@@ -167,6 +188,69 @@ BEGIN
       discovery_algorithm
     FROM user_preferences
     WHERE user_id = target_user_id
+  ),
+  user_likes AS (
+    SELECT v.resource_id as liked_id FROM votes v WHERE v.user_id = target_user_id AND v.vote_type = 'up'
+    UNION
+    SELECT f.resource_id FROM favorites f WHERE f.user_id = target_user_id
+  ),
+  collaborative AS (
+    -- Summed similarity to everything the user liked; empty for cold-start users
+    SELECT rs.similar_resource_id as cf_resource_id, SUM(rs.score) as cf_score
+    FROM resource_similarities rs
+    JOIN user_likes ul ON ul.liked_id = rs.resource_id
+    GROUP BY rs.similar_resource_id
+  ),
+  quick_skips AS (
+    -- Resources stumbled past within seconds and never upvoted or favorited.
+    -- Each skip's weight halves every skip_half_life_days.
+    SELECT
+      r.id as skipped_id,
+      r.category,
+      r.tags,
+      url_domain(r.url) as domain,
+      POWER(0.5, (EXTRACT(EPOCH FROM NOW() - ui.created_at) / 86400)::DECIMAL / skip_half_life_days) as weight
+    FROM user_interactions ui
+    JOIN resources r ON ui.resource_id = r.id
+    WHERE ui.user_id = target_user_id
+      AND ui.interaction_type = 'skip'
+      AND (ui.metadata->>'duration_seconds')::DECIMAL < quick_skip_seconds
+      AND ui.created_at > NOW() - INTERVAL '90 days'
+      AND NOT EXISTS (
+        SELECT 1 FROM votes v
+        WHERE v.user_id = target_user_id AND v.resource_id = r.id AND v.vote_type = 'up'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM favorites f
+        WHERE f.user_id = target_user_id AND f.resource_id = r.id
+      )
+  ),
+  -- A skipped resource itself is pushed down, fading as its skips age
+  skipped_resources AS (
+    SELECT qs.skipped_id, SUM(qs.weight) as weight
+    FROM quick_skips qs
+    GROUP BY qs.skipped_id
+  ),
+  -- Only repeated skips count against a category, tag or domain
+  skipped_categories AS (
+    SELECT qs.category, SUM(qs.weight) as weight
+    FROM quick_skips qs
+    WHERE qs.category IS NOT NULL
+    GROUP BY qs.category
+    HAVING SUM(qs.weight) >= skip_penalty_min_weight
+  ),
+  skipped_tags AS (
+    SELECT tag, SUM(qs.weight) as weight
+    FROM quick_skips qs, unnest(qs.tags) tag
+    GROUP BY tag
+    HAVING SUM(qs.weight) >= skip_penalty_min_weight
+  ),
+  skipped_domains AS (
+    SELECT qs.domain, SUM(qs.weight) as weight
+    FROM quick_skips qs
+    WHERE qs.domain IS NOT NULL
+    GROUP BY qs.domain
+    HAVING SUM(qs.weight) >= skip_penalty_min_weight
   )
   SELECT
     r.id as resource_id,
@@ -209,10 +293,31 @@ BEGIN
           END
         ) = ROUND(profile.avg_difficulty_preference) THEN 1.0
         ELSE 0.0
-      END * 0.05
+      END * 0.05 +
+
+      -- Collaborative filtering: people who liked what this user liked also liked this
+      -- (capped; resources nobody has co-liked yet score 0 and rely on the signals above)
+      LEAST(COALESCE((
+        SELECT c.cf_score FROM collaborative c WHERE c.cf_resource_id = r.id
+      ), 0), 5.0) * 0.30 -
+
+      -- Skip penalty for the resource itself and for categories, tags and domains
+      -- the user keeps skipping (capped)
+      LEAST(COALESCE((
+        SELECT sr.weight FROM skipped_resources sr WHERE sr.skipped_id = r.id
+      ), 0), 5.0) * 0.50 -
+      LEAST(COALESCE((
+        SELECT sc.weight FROM skipped_categories sc WHERE sc.category = r.category
+      ), 0), 5.0) * 0.25 -
+      LEAST(COALESCE((
+        SELECT SUM(st.weight) FROM skipped_tags st WHERE st.tag = ANY(r.tags)
+      ), 0), 5.0) * 0.10 -
+      LEAST(COALESCE((
+        SELECT sd.weight FROM skipped_domains sd WHERE sd.domain = url_domain(r.url)
+      ), 0), 5.0) * 0.25
 
     ) as relevance_score
-  FROM resources r
+  FROM unserved_resources(exclude_session_id) r
   CROSS JOIN user_profile profile
   CROSS JOIN user_prefs up
   WHERE r.status = 'approved'
@@ -232,7 +337,8 @@ $$ LANGUAGE plpgsql;
 -- Get random stumble content (fallback when no user context)
 CREATE OR REPLACE FUNCTION get_random_stumble_content(
   limit_count INTEGER DEFAULT 1,
-  exclude_ids UUID[] DEFAULT ARRAY[]::UUID[]
+  exclude_ids UUID[] DEFAULT ARRAY[]::UUID[],
+  exclude_session_id TEXT DEFAULT NULL -- Leave out what this stumble session has been shown
 )
 RETURNS TABLE(resource_id UUID, random_score DECIMAL) AS $$
 BEGIN
@@ -247,7 +353,7 @@ BEGIN
       -- Random factor (10%)
       RANDOM() * 2.0 * 0.1
     ) as random_score
-  FROM resources r
+  FROM unserved_resources(exclude_session_id) r
   WHERE r.status = 'approved'
     AND (exclude_ids = ARRAY[]::UUID[] OR r.id != ALL(exclude_ids))
   ORDER BY random_score DESC
@@ -255,6 +361,259 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Resources a stumble session hasn't been shown yet (all of them for a NULL,
+-- unknown or expired session). Discovery queries start from here so the
+-- exclusion is a join on stumble_sessions rather than an id list in the URL.
+-- SECURITY DEFINER because stumble_sessions is service-role only; resources
+-- are publicly readable anyway.
+CREATE OR REPLACE FUNCTION unserved_resources(target_session_id TEXT)
+RETURNS SETOF resources AS $$
+  SELECT r.*
+  FROM resources r
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM stumble_sessions ss
+    WHERE ss.session_id = target_session_id
+      AND ss.expires_at > NOW()
+      AND r.id = ANY(ss.served_ids)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Append resources shown in a stumble session, keeping only the most recent max_served.
+-- A single upsert so concurrent requests can't overwrite each other.
+CREATE OR REPLACE FUNCTION record_stumble_served(
+  target_session_id TEXT,
+  target_user_id UUID,
+  resource_ids UUID[],
+  ttl_hours INTEGER DEFAULT 24,
+  max_served INTEGER DEFAULT 500
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO stumble_sessions (session_id, user_id, served_ids, expires_at)
+  VALUES (
+    target_session_id,
+    target_user_id,
+    resource_ids[GREATEST(1, cardinality(resource_ids) - max_served + 1):],
+    NOW() + make_interval(hours => ttl_hours)
+  )
+  ON CONFLICT (session_id) DO UPDATE SET
+    served_ids = (stumble_sessions.served_ids || EXCLUDED.served_ids)[
+      GREATEST(1, cardinality(stumble_sessions.served_ids) + cardinality(EXCLUDED.served_ids) - max_served + 1):
+    ],
+    user_id = COALESCE(EXCLUDED.user_id, stumble_sessions.user_id),
+    expires_at = EXCLUDED.expires_at,
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- Per-arm rewards for the discovery bandit. An impression is a signed-in view
+-- whose metadata.algorithm_used names an arm, either directly ('personalized')
+-- or as a source ('balanced:trending', 'bandit:fresh'). Its reward is the
+-- weighted sum of what the user did with that resource afterwards, clamped
+-- to 0..1 so arms can be scored as Beta-Bernoulli.
+CREATE OR REPLACE FUNCTION get_discovery_arm_rewards(
+  arm_names TEXT[],
+  reward_weights JSONB,
+  window_days INTEGER DEFAULT 30,
+  quick_skip_seconds INTEGER DEFAULT 10,
+  long_dwell_seconds INTEGER DEFAULT 60
+)
+RETURNS TABLE(arm TEXT, impressions BIGINT, reward_sum DECIMAL) AS $$
+BEGIN
+  RETURN QUERY
+  WITH shown AS (
+    SELECT
+      ui.user_id,
+      ui.resource_id,
+      CASE
+        WHEN ui.metadata->>'algorithm_used' LIKE '%:%' THEN split_part(ui.metadata->>'algorithm_used', ':', 2)
+        ELSE ui.metadata->>'algorithm_used'
+      END as shown_arm,
+      MIN(ui.created_at) as shown_at
+    FROM user_interactions ui
+    WHERE ui.interaction_type = 'view'
+      AND ui.user_id IS NOT NULL
+      AND ui.created_at > NOW() - make_interval(days => window_days)
+    GROUP BY 1, 2, 3
+  ),
+  outcomes AS (
+    SELECT
+      s.shown_arm,
+      GREATEST(0, LEAST(1,
+        CASE WHEN EXISTS (
+          SELECT 1 FROM votes v
+          WHERE v.user_id = s.user_id AND v.resource_id = s.resource_id
+            AND v.vote_type = 'up' AND v.created_at >= s.shown_at
+        ) THEN COALESCE((reward_weights->>'upvote')::DECIMAL, 0) ELSE 0 END +
+        CASE WHEN EXISTS (
+          SELECT 1 FROM favorites f
+          WHERE f.user_id = s.user_id AND f.resource_id = s.resource_id AND f.created_at >= s.shown_at
+        ) THEN COALESCE((reward_weights->>'favorite')::DECIMAL, 0) ELSE 0 END +
+        CASE WHEN EXISTS (
+          SELECT 1 FROM user_interactions c
+          WHERE c.user_id = s.user_id AND c.resource_id = s.resource_id
+            AND c.interaction_type = 'click_through' AND c.created_at >= s.shown_at
+        ) THEN COALESCE((reward_weights->>'click_through')::DECIMAL, 0) ELSE 0 END +
+        CASE WHEN EXISTS (
+          SELECT 1 FROM user_interactions d
+          WHERE d.user_id = s.user_id AND d.resource_id = s.resource_id
+            AND d.interaction_type = 'skip' AND d.created_at >= s.shown_at
+            AND (d.metadata->>'duration_seconds')::DECIMAL >= long_dwell_seconds
+        ) THEN COALESCE((reward_weights->>'long_dwell')::DECIMAL, 0) ELSE 0 END +
+        CASE WHEN EXISTS (
+          SELECT 1 FROM user_interactions q
+          WHERE q.user_id = s.user_id AND q.resource_id = s.resource_id
+            AND q.interaction_type = 'skip' AND q.created_at >= s.shown_at
+            AND (q.metadata->>'duration_seconds')::DECIMAL < quick_skip_seconds
+        ) THEN COALESCE((reward_weights->>'quick_skip')::DECIMAL, 0) ELSE 0 END
+      )) as reward
+    FROM shown s
+    WHERE s.shown_arm = ANY(arm_names)
+  )
+  SELECT o.shown_arm, COUNT(*), COALESCE(SUM(o.reward), 0)::DECIMAL
+  FROM outcomes o
+  GROUP BY o.shown_arm;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Full-text search document: title (A), author and tags (B), description (C)
+CREATE OR REPLACE FUNCTION resources_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(NEW.author, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(NEW.tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(NEW.description, '')), 'C');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Ranked full-text search over approved resources with highlighted title and snippet.
+-- Matches are wrapped in chr(2)/chr(3) so clients can render highlights without HTML.
+CREATE OR REPLACE FUNCTION search_resources(
+  search_query TEXT,
+  filter_category TEXT DEFAULT NULL,
+  filter_difficulty TEXT DEFAULT NULL,
+  max_time INTEGER DEFAULT NULL,
+  filter_tags TEXT[] DEFAULT NULL,
+  limit_count INTEGER DEFAULT 20,
+  offset_count INTEGER DEFAULT 0
+)
+RETURNS TABLE(
+  resource_id UUID,
+  search_rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+) AS $$
+DECLARE
+  ts_query TSQUERY := websearch_to_tsquery('english', search_query);
+  highlight_options TEXT := 'StartSel=' || chr(2) || ', StopSel=' || chr(3);
+BEGIN
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      r.id,
+      r.title,
+      r.description,
+      r.quality_score,
+      ts_rank_cd(r.search_vector, ts_query, 1) as score
+    FROM resources r
+    WHERE r.status = 'approved'
+      AND r.search_vector @@ ts_query
+      AND (filter_category IS NULL OR r.category = filter_category)
+      AND (filter_difficulty IS NULL OR r.difficulty_level = filter_difficulty)
+      AND (max_time IS NULL OR r.estimated_time_minutes <= max_time)
+      AND (filter_tags IS NULL OR r.tags && filter_tags)
+  ),
+  page AS (
+    -- Headlines are expensive, so only build them for the requested page
+    SELECT m.*, COUNT(*) OVER () as match_count
+    FROM matches m
+    ORDER BY m.score DESC, m.quality_score DESC NULLS LAST, m.id
+    LIMIT limit_count
+    OFFSET offset_count
+  )
+  SELECT
+    p.id,
+    p.score,
+    ts_headline('english', p.title, ts_query, highlight_options || ', HighlightAll=true'),
+    CASE
+      WHEN p.description IS NULL THEN NULL
+      ELSE ts_headline('english', p.description, ts_query, highlight_options || ', MaxFragments=2, MinWords=8, MaxWords=30')
+    END,
+    p.match_count
+  FROM page p
+  ORDER BY p.score DESC, p.quality_score DESC NULLS LAST, p.id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Facet counts for a search: category, difficulty, time (cumulative "up to N minutes") and top tags
+CREATE OR REPLACE FUNCTION search_resource_facets(
+  search_query TEXT,
+  filter_category TEXT DEFAULT NULL,
+  filter_difficulty TEXT DEFAULT NULL,
+  max_time INTEGER DEFAULT NULL,
+  filter_tags TEXT[] DEFAULT NULL
+)
+RETURNS TABLE(facet TEXT, facet_value TEXT, match_count BIGINT) AS $$
+DECLARE
+  ts_query TSQUERY := websearch_to_tsquery('english', search_query);
+BEGIN
+  -- Each facet is counted with every active filter except its own, so the
+  -- alternatives to a selected value stay visible
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      r.category,
+      r.difficulty_level,
+      r.estimated_time_minutes,
+      r.tags,
+      (filter_category IS NULL OR r.category = filter_category) as category_ok,
+      (filter_difficulty IS NULL OR r.difficulty_level = filter_difficulty) as difficulty_ok,
+      (max_time IS NULL OR r.estimated_time_minutes <= max_time) as time_ok,
+      (filter_tags IS NULL OR r.tags && filter_tags) as tags_ok
+    FROM resources r
+    WHERE r.status = 'approved'
+      AND r.search_vector @@ ts_query
+  )
+  SELECT 'category', m.category, COUNT(*)
+  FROM matches m
+  WHERE m.difficulty_ok AND m.time_ok AND m.tags_ok
+  GROUP BY m.category
+
+  UNION ALL
+
+  SELECT 'difficulty', m.difficulty_level, COUNT(*)
+  FROM matches m
+  WHERE m.difficulty_level IS NOT NULL
+    AND m.category_ok AND m.time_ok AND m.tags_ok
+  GROUP BY m.difficulty_level
+
+  UNION ALL
+
+  SELECT 'time', t.minutes::TEXT, (
+    SELECT COUNT(*) FROM matches m
+    WHERE m.estimated_time_minutes <= t.minutes
+      AND m.category_ok AND m.difficulty_ok AND m.tags_ok
+  )
+  FROM unnest(ARRAY[5, 15, 30, 60]) as t(minutes)
+
+  UNION ALL
+
+  (
+    SELECT 'tag', tag, COUNT(*)
+    FROM matches m, unnest(m.tags) as tag
+    WHERE m.category_ok AND m.difficulty_ok AND m.time_ok
+    GROUP BY tag
+    ORDER BY COUNT(*) DESC, tag
+    LIMIT 20
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
 -- Update user reputation based on content performance
 CREATE OR REPLACE FUNCTION update_user_reputation(target_user_id UUID)
 RETURNS VOID AS $$
@@ -385,6 +744,74 @@ CREATE TRIGGER update_scores_on_vote_change
   AFTER INSERT OR UPDATE OR DELETE ON votes
   FOR EACH ROW EXECUTE FUNCTION trigger_update_resource_scores();
 
+CREATE TRIGGER update_resources_search_vector
+  BEFORE INSERT OR UPDATE OF title, author, description, tags ON resources
+  FOR EACH ROW EXECUTE FUNCTION resources_search_vector_update();
+
+-- Index rows created before the trigger existed
+UPDATE resources SET title = title WHERE search_vector IS NULL;
+
+-- Rebuild resource_similarities: cosine similarity between the sets of users
+-- who upvoted or favorited each pair of approved resources, keeping the top
+-- max_neighbors per resource. Pairs with fewer than min_co_count shared
+-- likers are too noisy to keep.
+CREATE OR REPLACE FUNCTION refresh_resource_similarities(
+  min_co_count INTEGER DEFAULT 2,
+  max_neighbors INTEGER DEFAULT 50
+)
+RETURNS INTEGER AS $$
+DECLARE
+  pair_count INTEGER;
+BEGIN
+  DELETE FROM resource_similarities;
+
+  INSERT INTO resource_similarities (resource_id, similar_resource_id, score, co_count, updated_at)
+  WITH likes AS (
+    SELECT v.user_id, v.resource_id FROM votes v WHERE v.vote_type = 'up' AND v.user_id IS NOT NULL
+    UNION
+    SELECT f.user_id, f.resource_id FROM favorites f WHERE f.user_id IS NOT NULL
+  ),
+  approved_likes AS (
+    SELECT l.user_id, l.resource_id
+    FROM likes l
+    JOIN resources r ON r.id = l.resource_id
+    WHERE r.status = 'approved'
+  ),
+  like_counts AS (
+    SELECT al.resource_id, COUNT(*) as like_count
+    FROM approved_likes al
+    GROUP BY al.resource_id
+  ),
+  pairs AS (
+    SELECT a.resource_id, b.resource_id as similar_resource_id, COUNT(*) as co_count
+    FROM approved_likes a
+    JOIN approved_likes b ON a.user_id = b.user_id AND a.resource_id != b.resource_id
+    GROUP BY a.resource_id, b.resource_id
+    HAVING COUNT(*) >= min_co_count
+  ),
+  scored AS (
+    SELECT
+      p.resource_id,
+      p.similar_resource_id,
+      p.co_count,
+      (p.co_count / SQRT(ca.like_count * cb.like_count))::DECIMAL as score
+    FROM pairs p
+    JOIN like_counts ca ON ca.resource_id = p.resource_id
+    JOIN like_counts cb ON cb.resource_id = p.similar_resource_id
+  ),
+  ranked AS (
+    SELECT s.*, ROW_NUMBER() OVER (PARTITION BY s.resource_id ORDER BY s.score DESC, s.co_count DESC) as neighbor_rank
+    FROM scored s
+  )
+  SELECT rk.resource_id, rk.similar_resource_id, rk.score, rk.co_count, NOW()
+  FROM ranked rk
+  WHERE rk.neighbor_rank <= max_neighbors;
+
+  GET DIAGNOSTICS pair_count = ROW_COUNT;
+  RETURN pair_count;
+END;
+$$ LANGUAGE plpgsql;
+
 -- Create a scheduled function to update trending scores (run via cron)
 CREATE OR REPLACE FUNCTION scheduled_update_trending_scores()
 RETURNS VOID AS $$
@@ -396,3 +823,17 @@ BEGIN
   VALUES ('trending_scores_updated', '{"timestamp": "' || NOW() || '"}');
 END;
 $$ LANGUAGE plpgsql;
+
+-- Create a scheduled function to refresh collaborative filtering similarities (run via cron, e.g. nightly)
+CREATE OR REPLACE FUNCTION scheduled_refresh_resource_similarities()
+RETURNS VOID AS $$
+DECLARE
+  pair_count INTEGER;
+BEGIN
+  pair_count := refresh_resource_similarities();
+
+  -- Log the update
+  INSERT INTO analytics_events (event_type, properties)
+  VALUES ('resource_similarities_refreshed', jsonb_build_object('timestamp', NOW(), 'pair_count', pair_count));
+END;
+$$ LANGUAGE plpgsql;
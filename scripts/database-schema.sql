@@ -34,6 +34,7 @@ CREATE TABLE resources (
   title TEXT NOT NULL,
   author TEXT,
   url TEXT NOT NULL,
+  canonical_url TEXT, -- Normalized url used for duplicate detection
   description TEXT,
   category TEXT NOT NULL, -- books, articles, videos, tools, research, philosophy
   tags TEXT[], -- inspiring, educational, practical, creative, deep
@@ -54,7 +55,9 @@ CREATE TABLE resources (
   featured_at TIMESTAMP WITH TIME ZONE,
   admin_notes TEXT,
   rejection_reason TEXT,
+  possible_duplicate_of UUID REFERENCES resources(id) ON DELETE SET NULL, -- Near-duplicate flagged for review
   is_genesis BOOLEAN DEFAULT FALSE, -- Mark content from original JSON
+  search_vector TSVECTOR, -- Maintained by trigger, see database-functions.sql
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -76,7 +79,7 @@ CREATE TABLE user_interactions (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id UUID REFERENCES users(id),
   resource_id UUID REFERENCES resources(id),
-  interaction_type TEXT NOT NULL, -- view, favorite, share, complete, click_through
+  interaction_type TEXT NOT NULL, -- view, favorite, share, complete, click_through, skip
   session_id TEXT,
   metadata JSONB DEFAULT '{}', -- {duration, completion_percentage, source, etc}
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -88,8 +91,8 @@ CREATE TABLE user_preferences (
   user_id UUID REFERENCES users(id) UNIQUE,
   preferred_categories TEXT[] DEFAULT '{}',
   excluded_categories TEXT[] DEFAULT '{}',
-  preferred_difficulty TEXT DEFAULT 'intermediate',
-  max_time_minutes INTEGER DEFAULT 60,
+  preferred_difficulty TEXT, -- NULL: any difficulty
+  max_time_minutes INTEGER, -- NULL: no time budget
   hide_videos BOOLEAN DEFAULT FALSE,
   hide_long_content BOOLEAN DEFAULT FALSE,
   notification_settings JSONB DEFAULT '{"email": true, "push": false}',
@@ -162,7 +165,7 @@ CREATE TABLE analytics_events (
 -- Admin actions table
 CREATE TABLE admin_actions (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  admin_id UUID REFERENCES users(id),
+  admin_id UUID REFERENCES users(id), -- NULL for automated actions
   action TEXT NOT NULL,
   target_type TEXT, -- user, resource, etc.
   target_id UUID,
@@ -179,6 +182,35 @@ CREATE TABLE system_config (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Single-use sign-in nonces (issued and consumed by the /api/auth routes)
+CREATE TABLE auth_nonces (
+  nonce TEXT PRIMARY KEY,
+  purpose TEXT NOT NULL CHECK (purpose IN ('farcaster', 'siwe')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  consumed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Resources served to each stumble session, so clients don't resend their history
+CREATE TABLE stumble_sessions (
+  session_id TEXT PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  served_ids UUID[] NOT NULL DEFAULT '{}', -- Oldest first, capped by record_stumble_served()
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Item-to-item similarity from co-occurring upvotes and favorites, rebuilt by refresh_resource_similarities()
+CREATE TABLE resource_similarities (
+  resource_id UUID REFERENCES resources(id) ON DELETE CASCADE,
+  similar_resource_id UUID REFERENCES resources(id) ON DELETE CASCADE,
+  score DECIMAL NOT NULL, -- Cosine similarity of the two resources' likers, 0 to 1
+  co_count INTEGER NOT NULL, -- Users who liked both
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (resource_id, similar_resource_id)
+);
+
 -- Create indexes for better performance
 CREATE INDEX idx_users_farcaster_id ON users(farcaster_id);
 CREATE INDEX idx_users_eth_address ON users(eth_address);
@@ -193,6 +225,10 @@ CREATE INDEX idx_resources_quality_score ON resources(quality_score);
 CREATE INDEX idx_resources_trending_score ON resources(trending_score);
 CREATE INDEX idx_resources_created_at ON resources(created_at);
 CREATE INDEX idx_resources_tags ON resources USING GIN(tags);
+CREATE INDEX idx_resources_search_vector ON resources USING GIN(search_vector);
+CREATE UNIQUE INDEX idx_resources_canonical_url ON resources(canonical_url) WHERE canonical_url IS NOT NULL;
+CREATE INDEX idx_resources_possible_duplicate_of ON resources(possible_duplicate_of) WHERE possible_duplicate_of IS NOT NULL;
+CREATE UNIQUE INDEX idx_resources_submission_tx_hash ON resources(LOWER(submission_tx_hash)) WHERE submission_tx_hash IS NOT NULL;
 
 CREATE INDEX idx_votes_resource_id ON votes(resource_id);
 CREATE INDEX idx_votes_user_id ON votes(user_id);
@@ -206,10 +242,22 @@ CREATE INDEX idx_user_interactions_created_at ON user_interactions(created_at);
 CREATE INDEX idx_favorites_user_id ON favorites(user_id);
 CREATE INDEX idx_favorites_resource_id ON favorites(resource_id);
 
+CREATE INDEX idx_reports_resource_id ON reports(resource_id);
+CREATE INDEX idx_reports_reported_by ON reports(reported_by);
+CREATE INDEX idx_reports_status ON reports(status);
+-- One open report per user per resource
+CREATE UNIQUE INDEX idx_reports_open_per_user ON reports(resource_id, reported_by) WHERE status IN ('pending', 'reviewed');
+
 CREATE INDEX idx_analytics_events_type ON analytics_events(event_type);
 CREATE INDEX idx_analytics_events_user_id ON analytics_events(user_id);
 CREATE INDEX idx_analytics_events_created_at ON analytics_events(created_at);
 
+CREATE INDEX idx_auth_nonces_expires_at ON auth_nonces(expires_at);
+
+CREATE INDEX idx_stumble_sessions_expires_at ON stumble_sessions(expires_at);
+
+CREATE INDEX idx_resource_similarities_score ON resource_similarities(resource_id, score DESC);
+
 -- Enable Row Level Security (RLS)
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE resources ENABLE ROW LEVEL SECURITY;
@@ -219,6 +267,9 @@ ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
 ALTER TABLE favorites ENABLE ROW LEVEL SECURITY;
 ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
 ALTER TABLE analytics_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE auth_nonces ENABLE ROW LEVEL SECURITY; -- Service role only, no policies
+ALTER TABLE stumble_sessions ENABLE ROW LEVEL SECURITY; -- Service role only, no policies
+ALTER TABLE resource_similarities ENABLE ROW LEVEL SECURITY;
 
 -- Create RLS policies
 -- Users can view all users but only update their own data
@@ -256,6 +307,9 @@ CREATE POLICY "Users can view own reports" ON reports FOR SELECT USING (auth.uid
 -- Analytics events are insert-only
 CREATE POLICY "Users can track own events" ON analytics_events FOR INSERT WITH CHECK (auth.uid()::text = user_id::text OR user_id IS NULL);
 
+-- Resource similarities are aggregate and publicly readable
+CREATE POLICY "Resource similarities are publicly viewable" ON resource_similarities FOR SELECT USING (true);
+
 -- Insert default system configuration
 INSERT INTO system_config (key, value) VALUES
 ('submission_cost', '1000'),
@@ -266,7 +320,14 @@ INSERT INTO system_config (key, value) VALUES
 ('auto_hide_threshold', '-5'),
 ('min_votes_for_auto_action', '3'),
 ('max_reputation_weight', '5.0'),
-('weekly_distribution_percentage', '80');
+('report_auto_hide_threshold', '3'),
+('weekly_distribution_percentage', '80'),
+('quick_skip_seconds', '10'),
+('skip_half_life_days', '14'),
+('skip_penalty_min_weight', '2'),
+('balanced_discovery_ratios', '{"personalized": 0.4, "trending": 0.25, "fresh": 0.2, "exploration": 0.15}'),
+('discovery_bandit', '{"enabled": false, "algorithms": ["personalized", "balanced"], "arms": {"personalized": {"alpha": 2, "beta": 1}, "trending": {"alpha": 1, "beta": 1}, "fresh": {"alpha": 1, "beta": 1}, "exploration": {"alpha": 1, "beta": 2}}, "reward_weights": {"upvote": 1, "favorite": 1, "click_through": 0.5, "long_dwell": 0.5, "quick_skip": -1}, "long_dwell_seconds": 60, "window_days": 30}'),
+('discovery_diversity', '{"window": 10, "lambda": {"default": 0.7, "personalized": 0.7, "popular": 0.6, "recent": 0.8, "random": 0.85, "balanced": 0.8, "bandit": 0.8}}');
 
 -- Create function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -0,0 +1,1009 @@
+#!/usr/bin/env node
+
+const fs = require('fs');
+const path = require('path');
+
+// Offline evaluation of the discovery strategies.
+//
+// Loads exported user_interactions, votes and favorites (plus resources and,
+// optionally, system_config) from JSON or CSV files, replays them in time
+// order and, at regular checkpoints, asks each strategy for every active
+// user's next recommendations. Those are scored against what the user went on
+// to upvote or favorite within the following horizon.
+//
+// Usage:
+//   node scripts/evaluate-recommenders.js --data ./exports [options]
+//
+// Options:
+//   --data <dir>           Directory with resources, user_interactions, votes,
+//                          favorites and system_config exports (.json or .csv)
+//   --k <n>                List length to evaluate (default 10)
+//   --step-days <n>        Days between checkpoints (default 7)
+//   --horizon-days <n>     Days after a checkpoint whose likes count as hits (default 7)
+//   --warmup-days <n>      Days replayed before the first checkpoint (default 14)
+//   --min-history <n>      Prior interactions a user needs to be evaluated (default 1)
+//   --relevant <list>      Signals that count as hits (default upvote,favorite;
+//                          also click_through, share)
+//   --strategies <list>    Built-in strategies to run (default all)
+//   --plugin <file>        Extra strategy module; may be repeated
+//   --seed <n>             Seed for the random strategies (default 42)
+//   --json                 Print the report as JSON
+//
+// A strategy is { name, recommend(context, request) } where request is
+// { userId, now, limit, excludeIds } and recommend returns resource ids (or
+// resources) best first. context exposes the replayed state as of the
+// checkpoint; see createContext. Plugins export a strategy or an array of them.
+
+const DEFAULT_OPTIONS = {
+  data: './exports',
+  k: 10,
+  stepDays: 7,
+  horizonDays: 7,
+  warmupDays: 14,
+  minHistory: 1,
+  relevant: ['upvote', 'favorite'],
+  strategies: null,
+  plugins: [],
+  seed: 42,
+  json: false,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fallbacks for the system_config keys the strategies read
+const DEFAULT_CONFIG = {
+  quick_skip_seconds: 10,
+  skip_half_life_days: 14,
+  skip_penalty_min_weight: 2,
+  balanced_discovery_ratios: { personalized: 0.4, trending: 0.25, fresh: 0.2, exploration: 0.15 },
+};
+
+// Matches BALANCED_OVERFETCH in /api/discover
+const BALANCED_OVERFETCH = 3;
+
+// Matches the user_preferences column default used by personalized scoring
+const DEFAULT_MAX_TIME_MINUTES = 60;
+
+const DIFFICULTY_RANKS = { beginner: 1, intermediate: 2, advanced: 3 };
+
+// ---------------------------------------------------------------------------
+// Loading exports
+
+function parseArgs(argv) {
+  const options = { ...DEFAULT_OPTIONS, plugins: [] };
+  const numbers = {
+    '--k': 'k',
+    '--step-days': 'stepDays',
+    '--horizon-days': 'horizonDays',
+    '--warmup-days': 'warmupDays',
+    '--min-history': 'minHistory',
+    '--seed': 'seed',
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+
+    if (numbers[arg]) {
+      const number = Number(value);
+      if (!Number.isFinite(number) || number < 0) throw new Error(`${arg} expects a non-negative number`);
+      options[numbers[arg]] = number;
+      i++;
+    } else if (arg === '--data') {
+      options.data = value;
+      i++;
+    } else if (arg === '--relevant') {
+      options.relevant = splitList(value);
+      i++;
+    } else if (arg === '--strategies') {
+      options.strategies = splitList(value);
+      i++;
+    } else if (arg === '--plugin') {
+      options.plugins.push(value);
+      i++;
+    } else if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--help' || arg === '-h') {
+      options.help = true;
+    } else {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  if (options.k < 1) throw new Error('--k must be at least 1');
+  if (options.stepDays <= 0 || options.horizonDays <= 0) throw new Error('--step-days and --horizon-days must be positive');
+
+  return options;
+}
+
+// Rows from <name>.json or <name>.csv in the data directory
+function loadTable(dir, name, required) {
+  const jsonPath = path.join(dir, `${name}.json`);
+  const csvPath = path.join(dir, `${name}.csv`);
+
+  if (fs.existsSync(jsonPath)) {
+    const parsed = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
+    // Accept a bare array or an API-style { data: [...] } wrapper
+    const rows = Array.isArray(parsed) ? parsed : parsed.data;
+    if (!Array.isArray(rows)) throw new Error(`${jsonPath} must contain an array of rows`);
+    return rows;
+  }
+
+  if (fs.existsSync(csvPath)) {
+    return parseCsv(fs.readFileSync(csvPath, 'utf8'));
+  }
+
+  if (required) throw new Error(`Missing ${name}.json or ${name}.csv in ${dir}`);
+  return [];
+}
+
+// RFC 4180 CSV (quoted fields, doubled quotes, embedded newlines) to objects keyed by header
+function parseCsv(text) {
+  const records = [];
+  let record = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...rows] = records.filter(row => row.length > 1 || row[0] !== '');
+  if (!header) return [];
+
+  return rows.map(row => {
+    const object = {};
+    header.forEach((column, index) => {
+      const value = row[index];
+      object[column.trim()] = value === undefined || value === '' ? null : value;
+    });
+    return object;
+  });
+}
+
+// Tags arrive as JSON arrays, Postgres array literals ({a,b}) or comma-separated text
+function parseArray(value) {
+  if (Array.isArray(value)) return value.map(String);
+  if (value === null || value === undefined || value === '') return [];
+
+  const text = String(value).trim();
+  if (text.startsWith('[')) {
+    try {
+      return JSON.parse(text).map(String);
+    } catch (error) {
+      // Fall through to plain splitting
+    }
+  }
+
+  return text
+    .replace(/^\{|\}$/g, '')
+    .split(',')
+    .map(item => item.trim().replace(/^"|"$/g, ''))
+    .filter(Boolean);
+}
+
+function parseObject(value) {
+  if (value && typeof value === 'object') return value;
+  if (typeof value !== 'string' || value === '') return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    return {};
+  }
+}
+
+function parseTime(value) {
+  const time = Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
+
+function splitList(value) {
+  return String(value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// Hostname without www., like the url_domain SQL function
+function urlDomain(url) {
+  const match = /^[A-Za-z][A-Za-z0-9+.-]*:\/\/([^/:?#]+)/.exec(url || '');
+  return match ? match[1].toLowerCase().replace(/^www\./, '') : null;
+}
+
+function normalizeResource(row) {
+  return {
+    id: String(row.id),
+    category: row.category || null,
+    tags: parseArray(row.tags),
+    difficulty_level: row.difficulty_level || null,
+    estimated_time_minutes: row.estimated_time_minutes === null || row.estimated_time_minutes === undefined
+      ? null
+      : Number(row.estimated_time_minutes),
+    domain: urlDomain(row.url),
+    status: row.status || 'approved',
+    created_at: parseTime(row.created_at) || 0,
+  };
+}
+
+// system_config rows (values stored as JSON) merged over the defaults
+function loadConfig(rows) {
+  const config = { ...DEFAULT_CONFIG };
+  rows.forEach(row => {
+    if (!(row.key in DEFAULT_CONFIG)) return;
+    let value = row.value;
+    if (typeof value === 'string') {
+      try {
+        value = JSON.parse(value);
+      } catch (error) {
+        return;
+      }
+    }
+    config[row.key] = typeof DEFAULT_CONFIG[row.key] === 'object'
+      ? { ...DEFAULT_CONFIG[row.key], ...value }
+      : Number(value) || DEFAULT_CONFIG[row.key];
+  });
+  return config;
+}
+
+// One chronological stream of everything the replay needs
+function buildEvents(interactions, votes, favorites) {
+  const events = [];
+
+  interactions.forEach(row => {
+    const time = parseTime(row.created_at);
+    if (time === null || !row.resource_id) return;
+    const metadata = parseObject(row.metadata);
+    events.push({
+      time,
+      type: row.interaction_type,
+      userId: row.user_id || null,
+      resourceId: String(row.resource_id),
+      duration: metadata.duration_seconds === undefined || metadata.duration_seconds === null
+        ? null
+        : Number(metadata.duration_seconds),
+    });
+  });
+
+  votes.forEach(row => {
+    const time = parseTime(row.created_at);
+    if (time === null || !row.resource_id || !row.user_id) return;
+    events.push({
+      time,
+      type: row.vote_type === 'down' ? 'downvote' : 'upvote',
+      userId: row.user_id,
+      resourceId: String(row.resource_id),
+    });
+  });
+
+  favorites.forEach(row => {
+    const time = parseTime(row.created_at);
+    if (time === null || !row.resource_id || !row.user_id) return;
+    events.push({ time, type: 'favorite', userId: row.user_id, resourceId: String(row.resource_id) });
+  });
+
+  return events.sort((a, b) => a.time - b.time);
+}
+
+// ---------------------------------------------------------------------------
+// Replay state
+
+function createState(resources) {
+  const byId = {};
+  resources.forEach(resource => {
+    byId[resource.id] = resource;
+  });
+
+  return {
+    resources: byId,
+    items: {}, // resourceId -> engagement so far
+    users: {}, // userId -> history so far
+  };
+}
+
+function itemState(state, resourceId) {
+  if (!state.items[resourceId]) {
+    state.items[resourceId] = { upvotes: 0, downvotes: 0, viewTimes: [], voteTimes: [], likers: {}, users: {} };
+  }
+  return state.items[resourceId];
+}
+
+function userState(state, userId) {
+  if (!state.users[userId]) {
+    state.users[userId] = { interacted: {}, upvoted: {}, favorited: {}, views: [], skips: [], count: 0 };
+  }
+  return state.users[userId];
+}
+
+function applyEvent(state, event) {
+  const item = itemState(state, event.resourceId);
+
+  if (event.type === 'view') item.viewTimes.push(event.time);
+  if (event.type === 'upvote') item.upvotes += 1;
+  if (event.type === 'downvote') item.downvotes += 1;
+  if (event.type === 'upvote' || event.type === 'downvote') item.voteTimes.push(event.time);
+
+  if (!event.userId) return;
+
+  const user = userState(state, event.userId);
+  user.interacted[event.resourceId] = true;
+  user.count += 1;
+  item.users[event.userId] = true;
+
+  if (event.type === 'view') user.views.push({ resourceId: event.resourceId, time: event.time });
+  if (event.type === 'skip') user.skips.push({ resourceId: event.resourceId, time: event.time, duration: event.duration });
+  if (event.type === 'upvote') {
+    user.upvoted[event.resourceId] = true;
+    item.likers[event.userId] = true;
+  }
+  if (event.type === 'favorite') {
+    user.favorited[event.resourceId] = true;
+    item.likers[event.userId] = true;
+  }
+}
+
+// Read-only view of the replay at one checkpoint, with the derived scores the
+// SQL functions would have computed at that moment
+function createContext(state, now, config, random) {
+  const cache = { quality: {}, trending: {}, neighbours: {} };
+  const activeUsers = Object.keys(state.users).length;
+
+  const context = {
+    now,
+    config,
+    random,
+    resources: state.resources,
+
+    // Approved resources that existed at this point
+    candidates() {
+      if (!cache.candidates) {
+        cache.candidates = Object.keys(state.resources)
+          .map(id => state.resources[id])
+          .filter(resource => resource.status === 'approved' && resource.created_at <= now);
+      }
+      return cache.candidates;
+    },
+
+    // Net votes so far (the live score also weights voters by reputation, which the exports don't carry)
+    qualityScore(resourceId) {
+      if (cache.quality[resourceId] === undefined) {
+        const item = state.items[resourceId];
+        cache.quality[resourceId] = item ? item.upvotes - item.downvotes : 0;
+      }
+      return cache.quality[resourceId];
+    },
+
+    // Same weights as update_trending_scores, evaluated at this checkpoint
+    trendingScore(resourceId) {
+      if (cache.trending[resourceId] === undefined) {
+        const item = state.items[resourceId];
+        const resource = state.resources[resourceId];
+        const weekAgo = now - 7 * DAY_MS;
+        const recentViews = item ? item.viewTimes.filter(time => time > weekAgo).length : 0;
+        const recentVotes = item ? item.voteTimes.filter(time => time > weekAgo).length : 0;
+        const age = resource ? now - resource.created_at : Infinity;
+        const recency = age < 3 * DAY_MS ? 5 : age < 7 * DAY_MS ? 2 : age < 30 * DAY_MS ? 1 : 0;
+
+        cache.trending[resourceId] =
+          context.qualityScore(resourceId) * 0.4 + recentViews * 0.3 + recentVotes * 0.2 + recency * 0.1;
+      }
+      return cache.trending[resourceId];
+    },
+
+    // Distinct signed-in users who had interacted with the resource
+    popularity(resourceId) {
+      const item = state.items[resourceId];
+      return item ? Object.keys(item.users).length : 0;
+    },
+
+    activeUsers() {
+      return activeUsers;
+    },
+
+    user(userId) {
+      return state.users[userId] || null;
+    },
+
+    // Upvoted or favorited resources
+    userLikes(userId) {
+      const user = state.users[userId];
+      if (!user) return [];
+      const liked = { ...user.upvoted, ...user.favorited };
+      return Object.keys(liked);
+    },
+
+    // Cosine neighbours over likers, like refresh_resource_similarities
+    neighbours(resourceId) {
+      if (!cache.neighbours[resourceId]) {
+        cache.neighbours[resourceId] = computeNeighbours(state, resourceId);
+      }
+      return cache.neighbours[resourceId];
+    },
+  };
+
+  return context;
+}
+
+function computeNeighbours(state, resourceId, minCoCount = 2, maxNeighbours = 50) {
+  const item = state.items[resourceId];
+  if (!item) return {};
+
+  const likers = Object.keys(item.likers);
+  const coCounts = {};
+  likers.forEach(userId => {
+    const user = state.users[userId];
+    const liked = { ...user.upvoted, ...user.favorited };
+    Object.keys(liked).forEach(otherId => {
+      if (otherId !== resourceId) coCounts[otherId] = (coCounts[otherId] || 0) + 1;
+    });
+  });
+
+  const scored = Object.keys(coCounts)
+    .filter(otherId => coCounts[otherId] >= minCoCount)
+    .map(otherId => {
+      const otherLikers = Object.keys(state.items[otherId].likers).length;
+      return { id: otherId, score: coCounts[otherId] / Math.sqrt(likers.length * otherLikers) };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxNeighbours);
+
+  const neighbours = {};
+  scored.forEach(neighbour => {
+    neighbours[neighbour.id] = neighbour.score;
+  });
+  return neighbours;
+}
+
+// ---------------------------------------------------------------------------
+// Strategies, mirroring the helpers in /api/discover
+
+function available(context, excludeIds) {
+  const excluded = {};
+  excludeIds.forEach(id => {
+    excluded[id] = true;
+  });
+  return context.candidates().filter(resource => !excluded[resource.id]);
+}
+
+function topBy(resources, score, limit) {
+  return resources
+    .map(resource => ({ id: resource.id, score: score(resource) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(entry => entry.id);
+}
+
+// getPopularContent: highest quality first
+const popularStrategy = {
+  name: 'popular',
+  recommend(context, { limit, excludeIds }) {
+    return topBy(available(context, excludeIds), resource => context.qualityScore(resource.id), limit);
+  },
+};
+
+// getRecentContent: newest with non-negative quality
+const recentStrategy = {
+  name: 'recent',
+  recommend(context, { limit, excludeIds }) {
+    const resources = available(context, excludeIds).filter(resource => context.qualityScore(resource.id) >= 0);
+    return topBy(resources, resource => resource.created_at, limit);
+  },
+};
+
+// getTrendingContent: positive trending score, highest first
+const trendingStrategy = {
+  name: 'trending',
+  recommend(context, { limit, excludeIds }) {
+    const resources = available(context, excludeIds).filter(resource => context.trendingScore(resource.id) > 0);
+    return topBy(resources, resource => context.trendingScore(resource.id), limit);
+  },
+};
+
+// getRandomContent: get_random_stumble_content's weighted draw, then shuffled
+const randomStrategy = {
+  name: 'random',
+  recommend(context, { limit, excludeIds }) {
+    const picked = topBy(
+      available(context, excludeIds),
+      resource => context.qualityScore(resource.id) * 0.7 + context.trendingScore(resource.id) * 0.2 + context.random() * 2 * 0.1,
+      limit * 3
+    );
+    return shuffle(picked, context.random).slice(0, limit);
+  },
+};
+
+// getPersonalizedRecommendations: get_personalized_recommendations scoring, falling back to popular
+const personalizedStrategy = {
+  name: 'personalized',
+  recommend(context, request) {
+    const results = personalizedScores(context, request);
+    return results.length > 0 ? results : popularStrategy.recommend(context, request);
+  },
+};
+
+function personalizedScores(context, { userId, now, limit, excludeIds }) {
+  const user = context.user(userId);
+  if (!user) return [];
+
+  const config = context.config;
+
+  // Profile: upvoted resources the user viewed or favorited in the last 90 days
+  const recent = {};
+  user.views.forEach(view => {
+    if (view.time > now - 90 * DAY_MS) recent[view.resourceId] = true;
+  });
+  Object.keys(user.favorited).forEach(id => {
+    recent[id] = true;
+  });
+
+  const likedCategories = {};
+  const likedTags = {};
+  let difficultyTotal = 0;
+  let difficultyCount = 0;
+  Object.keys(user.upvoted).filter(id => recent[id] && context.resources[id]).forEach(id => {
+    const resource = context.resources[id];
+    if (resource.category) likedCategories[resource.category] = true;
+    resource.tags.forEach(tag => {
+      likedTags[tag] = true;
+    });
+    difficultyTotal += DIFFICULTY_RANKS[resource.difficulty_level] || 2;
+    difficultyCount += 1;
+  });
+  const preferredDifficulty = Math.round(difficultyCount > 0 ? difficultyTotal / difficultyCount : 2);
+
+  // Collaborative: summed similarity to everything the user liked
+  const collaborative = {};
+  context.userLikes(userId).forEach(likedId => {
+    const neighbours = context.neighbours(likedId);
+    Object.keys(neighbours).forEach(id => {
+      collaborative[id] = (collaborative[id] || 0) + neighbours[id];
+    });
+  });
+
+  // Repeated quick skips penalize categories, tags and domains
+  const quickSkipped = {};
+  const skipWeights = { category: {}, tag: {}, domain: {} };
+  user.skips.forEach(skip => {
+    const resource = context.resources[skip.resourceId];
+    if (!resource || skip.duration === null || skip.duration >= config.quick_skip_seconds) return;
+    if (skip.time <= now - 90 * DAY_MS) return;
+    if (user.upvoted[skip.resourceId] || user.favorited[skip.resourceId]) return;
+
+    const weight = Math.pow(0.5, (now - skip.time) / DAY_MS / config.skip_half_life_days);
+    quickSkipped[skip.resourceId] = true;
+    if (resource.category) addWeight(skipWeights.category, resource.category, weight);
+    resource.tags.forEach(tag => addWeight(skipWeights.tag, tag, weight));
+    if (resource.domain) addWeight(skipWeights.domain, resource.domain, weight);
+  });
+
+  const penalty = (weights, key) =>
+    weights[key] !== undefined && weights[key] >= config.skip_penalty_min_weight ? weights[key] : 0;
+
+  const resources = available(context, excludeIds).filter(resource => !quickSkipped[resource.id]);
+
+  return topBy(resources, resource => {
+    const categoryMatch = resource.category && likedCategories[resource.category] ? 3 : 0;
+    const tagMatches = resource.tags.filter(tag => likedTags[tag]).length * 0.5;
+    const time = resource.estimated_time_minutes;
+    const timeMatch = time === null ? 0.5 : time <= DEFAULT_MAX_TIME_MINUTES ? 2 : 0;
+    const difficultyMatch = !resource.difficulty_level
+      ? 0.5
+      : DIFFICULTY_RANKS[resource.difficulty_level] === preferredDifficulty ? 1 : 0;
+    const tagPenalty = resource.tags.reduce((sum, tag) => sum + penalty(skipWeights.tag, tag), 0);
+
+    return categoryMatch * 0.25 +
+      tagMatches * 0.2 +
+      context.qualityScore(resource.id) * 0.25 +
+      context.trendingScore(resource.id) * 0.15 +
+      timeMatch * 0.1 +
+      difficultyMatch * 0.05 +
+      Math.min(collaborative[resource.id] || 0, 5) * 0.3 -
+      Math.min(penalty(skipWeights.category, resource.category), 5) * 0.25 -
+      Math.min(tagPenalty, 5) * 0.1 -
+      Math.min(penalty(skipWeights.domain, resource.domain), 5) * 0.25;
+  }, limit);
+}
+
+function addWeight(weights, key, weight) {
+  weights[key] = (weights[key] || 0) + weight;
+}
+
+// getBalancedContent: sources interleaved by smooth weighted round-robin
+const balancedStrategy = {
+  name: 'balanced',
+  recommend(context, request) {
+    const ratios = context.config.balanced_discovery_ratios;
+    const sources = {
+      personalized: sourceRequest => personalizedScores(context, sourceRequest),
+      trending: sourceRequest => trendingStrategy.recommend(context, sourceRequest),
+      fresh: sourceRequest => recentStrategy.recommend(context, sourceRequest),
+      exploration: sourceRequest => randomStrategy.recommend(context, sourceRequest),
+    };
+    const names = Object.keys(sources).filter(source => Number(ratios[source]) > 0);
+    const total = names.reduce((sum, source) => sum + Number(ratios[source]), 0);
+
+    const candidates = {};
+    names.forEach(source => {
+      const limit = Math.ceil(request.limit * ratios[source] / total) + BALANCED_OVERFETCH;
+      candidates[source] = sources[source]({ ...request, limit });
+    });
+
+    return interleave(candidates, ratios, request.limit);
+  },
+};
+
+function interleave(candidates, ratios, limit) {
+  const results = [];
+  const seen = {};
+  const positions = {};
+  const credit = {};
+  let active = Object.keys(candidates).filter(source => candidates[source].length > 0);
+
+  active.forEach(source => {
+    positions[source] = 0;
+    credit[source] = 0;
+  });
+
+  while (results.length < limit && active.length > 0) {
+    const totalWeight = active.reduce((sum, source) => sum + ratios[source], 0);
+    active.forEach(source => {
+      credit[source] += ratios[source];
+    });
+
+    const source = active.reduce((best, s) => credit[s] > credit[best] ? s : best, active[0]);
+    credit[source] -= totalWeight;
+
+    const list = candidates[source];
+    while (positions[source] < list.length && seen[list[positions[source]]]) {
+      positions[source] += 1;
+    }
+
+    if (positions[source] >= list.length) {
+      active = active.filter(s => s !== source);
+      continue;
+    }
+
+    const id = list[positions[source]];
+    positions[source] += 1;
+    seen[id] = true;
+    results.push(id);
+  }
+
+  return results;
+}
+
+const BUILTIN_STRATEGIES = [
+  balancedStrategy,
+  personalizedStrategy,
+  popularStrategy,
+  recentStrategy,
+  trendingStrategy,
+  randomStrategy,
+];
+
+// Deterministic PRNG (mulberry32) so runs are repeatable
+function createRandom(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle(items, random) {
+  const shuffled = items.slice();
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const swap = shuffled[i];
+    shuffled[i] = shuffled[j];
+    shuffled[j] = swap;
+  }
+  return shuffled;
+}
+
+// ---------------------------------------------------------------------------
+// Metrics
+
+function createTotals() {
+  return {
+    lists: 0,
+    emptyLists: 0,
+    precision: 0,
+    recall: 0,
+    ndcg: 0,
+    novelty: 0,
+    noveltyItems: 0,
+    diversity: 0,
+    diversityLists: 0,
+    recommended: {},
+  };
+}
+
+function scoreList(totals, recommended, relevant, k, context) {
+  totals.lists += 1;
+  if (recommended.length === 0) totals.emptyLists += 1;
+
+  let hits = 0;
+  let dcg = 0;
+  recommended.forEach((id, index) => {
+    totals.recommended[id] = true;
+    if (relevant[id]) {
+      hits += 1;
+      dcg += 1 / Math.log2(index + 2);
+    }
+  });
+
+  const relevantCount = Object.keys(relevant).length;
+  let idcg = 0;
+  for (let index = 0; index < Math.min(relevantCount, k); index++) {
+    idcg += 1 / Math.log2(index + 2);
+  }
+
+  totals.precision += hits / k;
+  totals.recall += hits / relevantCount;
+  totals.ndcg += idcg > 0 ? dcg / idcg : 0;
+
+  // Novelty: self-information of each pick given how many users had seen it
+  const users = context.activeUsers();
+  recommended.forEach(id => {
+    totals.novelty += -Math.log2((context.popularity(id) + 1) / (users + 1));
+    totals.noveltyItems += 1;
+  });
+
+  // Category diversity: share of pairs in the list from different categories
+  if (recommended.length > 1) {
+    let pairs = 0;
+    let different = 0;
+    for (let i = 0; i < recommended.length; i++) {
+      for (let j = i + 1; j < recommended.length; j++) {
+        const a = context.resources[recommended[i]];
+        const b = context.resources[recommended[j]];
+        pairs += 1;
+        if (!a || !b || a.category !== b.category) different += 1;
+      }
+    }
+    totals.diversity += different / pairs;
+    totals.diversityLists += 1;
+  }
+}
+
+function summarize(totals, catalogSize) {
+  const mean = (sum, count) => count > 0 ? sum / count : 0;
+  return {
+    lists: totals.lists,
+    empty_lists: totals.emptyLists,
+    precision_at_k: mean(totals.precision, totals.lists),
+    recall_at_k: mean(totals.recall, totals.lists),
+    ndcg_at_k: mean(totals.ndcg, totals.lists),
+    coverage: catalogSize > 0 ? Object.keys(totals.recommended).length / catalogSize : 0,
+    novelty: mean(totals.novelty, totals.noveltyItems),
+    category_diversity: mean(totals.diversity, totals.diversityLists),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+
+function evaluate({ resources, events, config, strategies, options }) {
+  const report = {
+    options: {
+      k: options.k,
+      step_days: options.stepDays,
+      horizon_days: options.horizonDays,
+      warmup_days: options.warmupDays,
+      min_history: options.minHistory,
+      relevant: options.relevant,
+      seed: options.seed,
+    },
+    checkpoints: 0,
+    events: events.length,
+    resources: resources.length,
+    strategies: {},
+  };
+
+  if (events.length === 0) return report;
+
+  const state = createState(resources);
+  const totals = {};
+  strategies.forEach(strategy => {
+    totals[strategy.name] = createTotals();
+  });
+
+  const random = createRandom(options.seed);
+  const relevantTypes = {};
+  options.relevant.forEach(type => {
+    relevantTypes[type] = true;
+  });
+
+  const start = events[0].time + options.warmupDays * DAY_MS;
+  const end = events[events.length - 1].time - options.horizonDays * DAY_MS;
+  let cursor = 0;
+
+  for (let now = start; now <= end; now += options.stepDays * DAY_MS) {
+    while (cursor < events.length && events[cursor].time < now) {
+      applyEvent(state, events[cursor]);
+      cursor += 1;
+    }
+
+    // What each user went on to like within the horizon
+    const future = {};
+    for (let i = cursor; i < events.length && events[i].time < now + options.horizonDays * DAY_MS; i++) {
+      const event = events[i];
+      if (!event.userId || !relevantTypes[event.type] || !state.resources[event.resourceId]) continue;
+      if (!future[event.userId]) future[event.userId] = {};
+      future[event.userId][event.resourceId] = true;
+    }
+
+    const context = createContext(state, now, config, random);
+    report.checkpoints += 1;
+
+    Object.keys(future).forEach(userId => {
+      const user = state.users[userId];
+      if ((user ? user.count : 0) < options.minHistory) return;
+
+      // Like exclude_viewed: anything the user already touched is off the table, and can't be a hit
+      const excludeIds = user ? Object.keys(user.interacted) : [];
+      const relevant = {};
+      Object.keys(future[userId]).forEach(id => {
+        if (!user || !user.interacted[id]) relevant[id] = true;
+      });
+      if (Object.keys(relevant).length === 0) return;
+
+      strategies.forEach(strategy => {
+        const recommended = uniqueIds(strategy.recommend(context, { userId, now, limit: options.k, excludeIds }))
+          .slice(0, options.k);
+        scoreList(totals[strategy.name], recommended, relevant, options.k, context);
+      });
+    });
+  }
+
+  const catalogSize = resources.filter(resource => resource.status === 'approved').length;
+  strategies.forEach(strategy => {
+    report.strategies[strategy.name] = summarize(totals[strategy.name], catalogSize);
+  });
+
+  return report;
+}
+
+// Strategies may return ids or resource objects
+function uniqueIds(results) {
+  const seen = {};
+  const ids = [];
+  (results || []).forEach(result => {
+    const id = String(result && typeof result === 'object' ? result.id : result);
+    if (!seen[id]) {
+      seen[id] = true;
+      ids.push(id);
+    }
+  });
+  return ids;
+}
+
+function loadStrategies(options) {
+  let strategies = BUILTIN_STRATEGIES;
+
+  if (options.strategies) {
+    strategies = options.strategies.map(name => {
+      const strategy = BUILTIN_STRATEGIES.find(s => s.name === name);
+      if (!strategy) throw new Error(`Unknown strategy: ${name}`);
+      return strategy;
+    });
+  }
+
+  options.plugins.forEach(file => {
+    const loaded = require(path.resolve(file));
+    const exported = Array.isArray(loaded) ? loaded : loaded.strategies || [loaded.default || loaded];
+    exported.forEach(strategy => {
+      if (!strategy || typeof strategy.name !== 'string' || typeof strategy.recommend !== 'function') {
+        throw new Error(`${file} must export { name, recommend(context, request) }`);
+      }
+      strategies = strategies.concat(strategy);
+    });
+  });
+
+  return strategies;
+}
+
+function printReport(report) {
+  console.log('📊 Offline Recommender Evaluation\n');
+  console.log(`📄 ${report.events} events, ${report.resources} resources, ${report.checkpoints} checkpoints`);
+  console.log(`🎯 k=${report.options.k}, horizon ${report.options.horizon_days} days, hits: ${report.options.relevant.join(', ')}\n`);
+
+  const columns = ['precision_at_k', 'recall_at_k', 'ndcg_at_k', 'coverage', 'novelty', 'category_diversity'];
+  const header = ['strategy', 'lists', ...columns];
+  const rows = Object.keys(report.strategies).map(name => {
+    const metrics = report.strategies[name];
+    return [name, String(metrics.lists), ...columns.map(column => metrics[column].toFixed(4))];
+  });
+
+  const widths = header.map((title, index) => Math.max(title.length, ...rows.map(row => row[index].length)));
+  const format = row => row.map((cell, index) => index === 0 ? cell.padEnd(widths[index]) : cell.padStart(widths[index])).join('  ');
+
+  console.log(format(header));
+  console.log(widths.map(width => '-'.repeat(width)).join('  '));
+  rows.forEach(row => console.log(format(row)));
+
+  if (rows.length === 0 || report.checkpoints === 0) {
+    console.log('\n⚠️  Nothing to evaluate; check the exports cover more than the warm-up plus one horizon');
+  }
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (options.help) {
+    // The comment block at the top of this file doubles as the usage text
+    const lines = fs.readFileSync(__filename, 'utf8').split('\n');
+    const first = lines.findIndex(line => line.startsWith('//'));
+    const last = lines.findIndex((line, index) => index > first && !line.startsWith('//'));
+    console.log(lines.slice(first, last).map(line => line.replace(/^\/\/ ?/, '')).join('\n'));
+    return;
+  }
+
+  const dir = path.resolve(options.data);
+  const rawResources = loadTable(dir, 'resources', true);
+  const interactions = loadTable(dir, 'user_interactions', true);
+  const votes = loadTable(dir, 'votes', false);
+  const favorites = loadTable(dir, 'favorites', false);
+  const config = loadConfig(loadTable(dir, 'system_config', false));
+
+  const resources = rawResources.map(normalizeResource);
+  const events = buildEvents(interactions, votes, favorites);
+  const strategies = loadStrategies(options);
+
+  const report = evaluate({ resources, events, config, strategies, options });
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+}
+
+// Run evaluation if called directly
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error('❌ Evaluation failed:', error.message);
+    process.exit(1);
+  }
+}
+
+module.exports = {
+  evaluate,
+  buildEvents,
+  normalizeResource,
+  loadConfig,
+  parseCsv,
+  BUILTIN_STRATEGIES,
+};
@@ -1,6 +1,25 @@
 const { createClient } = require('@supabase/supabase-js');
 const fs = require('fs');
 const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+
+// Load a dependency-free TypeScript module from src/lib, transpiled to CommonJS
+// so the script canonicalizes URLs exactly like the API routes
+function requireTs(relativePath) {
+  const filename = path.resolve(__dirname, relativePath);
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 },
+    fileName: filename,
+  });
+
+  const loaded = new Module(filename, module);
+  loaded.filename = filename;
+  loaded._compile(outputText, filename);
+  return loaded.exports;
+}
+
+const { canonicalizeUrl } = requireTs('../src/lib/canonical-url.ts');
 
 // Load environment variables
 require('dotenv').config();
@@ -215,6 +234,63 @@ async function createGenesisMark() {
   return genesisUser.id;
 }
 
+// Fill in canonical_url for rows created before it existed
+async function backfillCanonicalUrls() {
+  const { data: rows, error } = await supabase
+    .from('resources')
+    .select('id, url')
+    .is('canonical_url', null);
+
+  if (error) {
+    console.error('❌ Error loading resources to backfill:', error);
+    return;
+  }
+
+  const seen = new Set();
+  let updated = 0;
+
+  for (const row of rows || []) {
+    const canonicalUrl = canonicalizeUrl(row.url);
+
+    // Leave duplicates of an earlier row unset rather than tripping the unique index
+    if (seen.has(canonicalUrl)) {
+      console.warn(`⚠️  ${row.url} duplicates another resource, leaving canonical_url empty`);
+      continue;
+    }
+    seen.add(canonicalUrl);
+
+    const { error: updateError } = await supabase
+      .from('resources')
+      .update({ canonical_url: canonicalUrl })
+      .eq('id', row.id);
+
+    if (updateError) {
+      console.warn(`⚠️  Could not set canonical_url for ${row.url}:`, updateError.message);
+    } else {
+      updated++;
+    }
+  }
+
+  if (updated > 0) {
+    console.log(`🔗 Backfilled canonical_url for ${updated} existing resources`);
+  }
+}
+
+// Canonical URLs already in the database
+async function loadExistingCanonicalUrls() {
+  const { data, error } = await supabase
+    .from('resources')
+    .select('canonical_url')
+    .not('canonical_url', 'is', null);
+
+  if (error) {
+    console.error('❌ Error loading existing URLs:', error);
+    return new Set();
+  }
+
+  return new Set(data.map(row => row.canonical_url));
+}
+
 async function migrateResources() {
   try {
     console.log('🚀 Starting resource migration...');
@@ -240,10 +316,14 @@ async function migrateResources() {
       return;
     }
 
+    await backfillCanonicalUrls();
+    const knownUrls = await loadExistingCanonicalUrls();
+
     // Process resources in batches
     const batchSize = 50;
     let successCount = 0;
     let errorCount = 0;
+    let duplicateCount = 0;
 
     for (let i = 0; i < resourcesData.length; i += batchSize) {
       const batch = resourcesData.slice(i, i + batchSize);
@@ -258,6 +338,14 @@ async function migrateResources() {
           return null;
         }
 
+        const canonicalUrl = canonicalizeUrl(url);
+        if (knownUrls.has(canonicalUrl)) {
+          console.warn(`⚠️  Skipping resource ${i + index + 1}: duplicate of ${canonicalUrl}`);
+          duplicateCount++;
+          return null;
+        }
+        knownUrls.add(canonicalUrl);
+
         const category = categorizeResource(resource);
         const tags = generateTags(resource);
         const estimatedTime = estimateReadingTime(resource);
@@ -267,6 +355,7 @@ async function migrateResources() {
           title: resource.title.trim(),
           author: resource.author?.trim() || null,
           url: url.trim(),
+          canonical_url: canonicalUrl,
           description: resource.description?.trim() || null,
           category,
           tags,
@@ -307,6 +396,7 @@ async function migrateResources() {
     console.log('\n📊 Migration Summary:');
     console.log(`✅ Successfully migrated: ${successCount} resources`);
     console.log(`❌ Failed: ${errorCount} resources`);
+    console.log(`🔁 Skipped as duplicates: ${duplicateCount} resources`);
     console.log(`📈 Total processed: ${successCount + errorCount} resources`);
 
     // Update genesis user with submission count
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '@/providers/AuthProvider';
 import { AdminStats } from '@/components/admin/AdminStats';
 import { ContentModerationQueue } from '@/components/admin/ContentModerationQueue';
+import { ReportsQueue } from '@/components/admin/ReportsQueue';
 import { UserManagement } from '@/components/admin/UserManagement';
 import { SystemConfig } from '@/components/admin/SystemConfig';
 import { Analytics } from '@/components/admin/Analytics';
@@ -11,13 +12,14 @@ import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import {
   BarChart3,
   Shield,
+  Flag,
   Users,
   Settings,
   TrendingUp,
   AlertCircle
 } from 'lucide-react';
 
-type AdminTab = 'overview' | 'moderation' | 'users' | 'config' | 'analytics';
+type AdminTab = 'overview' | 'moderation' | 'reports' | 'users' | 'config' | 'analytics';
 
 export default function AdminPage() {
   const { user, isAuthenticated, loading } = useAuth();
@@ -85,6 +87,7 @@ export default function AdminPage() {
   const tabs = [
     { id: 'overview', label: 'Overview', icon: BarChart3 },
     { id: 'moderation', label: 'Moderation', icon: Shield },
+    { id: 'reports', label: 'Reports', icon: Flag },
     { id: 'users', label: 'Users', icon: Users },
     { id: 'config', label: 'Settings', icon: Settings },
     { id: 'analytics', label: 'Analytics', icon: TrendingUp },
@@ -135,6 +138,7 @@ export default function AdminPage() {
           <div className="flex-1">
             {activeTab === 'overview' && <AdminStats />}
             {activeTab === 'moderation' && <ContentModerationQueue />}
+            {activeTab === 'reports' && <ReportsQueue />}
             {activeTab === 'users' && <UserManagement />}
             {activeTab === 'config' && <SystemConfig />}
             {activeTab === 'analytics' && <Analytics />}
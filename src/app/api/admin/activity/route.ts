@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase';
+import { requireAdmin } from '@/lib/admin';
+import { z } from 'zod';
+
+// Validation schemas
+const ActivityQuerySchema = z.object({
+  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(100)).optional(),
+});
+
+// Server-side events worth surfacing to admins (client page views etc. are too noisy)
+const ACTIVITY_EVENT_TYPES = [
+  'user_signup',
+  'resource_submitted',
+  'resource_auto_approved',
+  'resource_auto_hidden',
+  'farcaster_linked',
+  'wallet_linked',
+];
+
+interface ActivityUser {
+  username: string;
+  display_name: string | null;
+}
+
+interface ActivityItem {
+  id: string;
+  type: string;
+  description: string;
+  timestamp: string;
+  user?: ActivityUser;
+}
+
+// GET /api/admin/activity - Recent admin actions and platform events (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = ActivityQuerySchema.parse(Object.fromEntries(searchParams));
+    const limit = query.limit ?? 20;
+
+    const adminId = await requireAdmin();
+    if (adminId instanceof NextResponse) {
+      return adminId;
+    }
+
+    const supabase = createServiceClient();
+
+    // Fetch `limit` of each, then merge; the newest `limit` overall are among them
+    const [adminActions, events] = await Promise.all([
+      supabase
+        .from('admin_actions')
+        .select('id, action, target_type, target_id, metadata, created_at, admin:users(username, display_name)')
+        .order('created_at', { ascending: false })
+        .limit(limit),
+
+      supabase
+        .from('analytics_events')
+        .select('id, event_type, properties, created_at, user:users(username, display_name), resource:resources(title)')
+        .in('event_type', ACTIVITY_EVENT_TYPES)
+        .order('created_at', { ascending: false })
+        .limit(limit),
+    ]);
+
+    if (adminActions.error || events.error) {
+      console.error('Error fetching activity:', adminActions.error || events.error);
+      return NextResponse.json(
+        { error: 'Failed to fetch activity' },
+        { status: 500 }
+      );
+    }
+
+    const resourceTitles = await getResourceTitles(
+      (adminActions.data || [])
+        .filter((action: any) => action.target_type === 'resource' && action.target_id)
+        .map((action: any) => action.target_id)
+    );
+
+    const activity: ActivityItem[] = [
+      ...(adminActions.data || []).map((action: any) => ({
+        id: `admin-${action.id}`,
+        type: action.action,
+        description: describeAdminAction(action, resourceTitles),
+        timestamp: action.created_at,
+        user: action.admin || undefined,
+      })),
+      ...(events.data || []).map((event: any) => ({
+        id: `event-${event.id}`,
+        type: event.event_type,
+        description: describeEvent(event),
+        timestamp: event.created_at,
+        user: event.user || undefined,
+      })),
+    ]
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice(0, limit);
+
+    return NextResponse.json({ data: activity });
+  } catch (error) {
+    console.error('Admin activity error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// admin_actions.target_id has no foreign key, so resource titles are looked up separately
+async function getResourceTitles(resourceIds: string[]): Promise<Record<string, string>> {
+  if (resourceIds.length === 0) return {};
+
+  const { data } = await createServiceClient()
+    .from('resources')
+    .select('id, title')
+    .in('id', resourceIds);
+
+  const titles: Record<string, string> = {};
+  (data || []).forEach((resource: { id: string; title: string }) => {
+    titles[resource.id] = resource.title;
+  });
+  return titles;
+}
+
+// Human-readable summary of an admin_actions row
+function describeAdminAction(action: any, resourceTitles: Record<string, string>): string {
+  const target = action.target_type === 'resource'
+    ? `"${resourceTitles[action.target_id] || 'a deleted resource'}"`
+    : action.target_type || 'item';
+
+  switch (action.action) {
+    case 'resource_approve':
+      return `Approved ${target}`;
+    case 'resource_reject':
+      return `Rejected ${target}${action.metadata?.rejection_reason ? `: ${action.metadata.rejection_reason}` : ''}`;
+    case 'resource_hide':
+    case 'resource_deleted':
+      return `Hid ${target}`;
+    case 'resource_feature':
+      return `Featured ${target}`;
+    case 'resource_unfeature':
+      return `Unfeatured ${target}`;
+    case 'resource_updated':
+      return `Edited ${target}`;
+    case 'resource_auto_hidden':
+      return `${target} was auto-hidden after ${action.metadata?.report_count} reports (${action.metadata?.reason})`;
+    case 'report_resolved':
+      return 'Resolved a report';
+    case 'report_dismissed':
+      return 'Dismissed a report';
+    case 'report_reviewed':
+      return 'Reviewed a report';
+    default:
+      return `${action.action.replace(/_/g, ' ')} (${target})`;
+  }
+}
+
+// Human-readable summary of an analytics_events row
+function describeEvent(event: any): string {
+  const title = event.resource?.title ? `"${event.resource.title}"` : 'a resource';
+
+  switch (event.event_type) {
+    case 'user_signup':
+      return `New user signed up${event.properties?.provider ? ` with ${event.properties.provider}` : ''}`;
+    case 'resource_submitted':
+      return `Submitted ${title}`;
+    case 'resource_auto_approved':
+      return `${title} was auto-approved by community votes`;
+    case 'resource_auto_hidden':
+      return `${title} was auto-hidden by community votes`;
+    case 'farcaster_linked':
+      return 'Linked a Farcaster account';
+    case 'wallet_linked':
+      return 'Linked a wallet';
+    default:
+      return event.event_type.replace(/_/g, ' ');
+  }
+}
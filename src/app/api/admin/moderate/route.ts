@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase';
+import { requireAdmin } from '@/lib/admin';
+import { z } from 'zod';
+
+// Validation schemas
+const ModerateSchema = z.object({
+  resource_id: z.string().uuid(),
+  action: z.enum(['approve', 'reject', 'hide', 'feature', 'unfeature']),
+  rejection_reason: z.string().max(500).optional(),
+  admin_notes: z.string().max(1000).optional(),
+}).refine(
+  data => data.action !== 'reject' || !!data.rejection_reason?.trim(),
+  { message: 'A rejection reason is required', path: ['rejection_reason'] }
+);
+
+const ACTION_PAST_TENSE = {
+  approve: 'approved',
+  reject: 'rejected',
+  hide: 'hidden',
+  feature: 'featured',
+  unfeature: 'unfeatured',
+} as const;
+
+// POST /api/admin/moderate - Approve, reject, hide or feature a resource (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const moderation = ModerateSchema.parse(body);
+
+    const adminId = await requireAdmin();
+    if (adminId instanceof NextResponse) {
+      return adminId;
+    }
+
+    const supabase = createServiceClient();
+
+    const { data: resource } = await supabase
+      .from('resources')
+      .select('id, status, featured')
+      .eq('id', moderation.resource_id)
+      .single();
+
+    if (!resource) {
+      return NextResponse.json(
+        { error: 'Resource not found' },
+        { status: 404 }
+      );
+    }
+
+    if (moderation.action === 'feature' && resource.status !== 'approved') {
+      return NextResponse.json(
+        { error: 'Only approved content can be featured' },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const updates: Record<string, unknown> = { updated_at: now };
+
+    switch (moderation.action) {
+      case 'approve':
+        updates.status = 'approved';
+        updates.rejection_reason = null;
+        break;
+      case 'reject':
+        updates.status = 'rejected';
+        updates.rejection_reason = moderation.rejection_reason!.trim();
+        updates.featured = false;
+        updates.featured_at = null;
+        break;
+      case 'hide':
+        updates.status = 'hidden';
+        updates.featured = false;
+        updates.featured_at = null;
+        break;
+      case 'feature':
+        updates.featured = true;
+        updates.featured_at = now;
+        break;
+      case 'unfeature':
+        updates.featured = false;
+        updates.featured_at = null;
+        break;
+    }
+
+    if (moderation.admin_notes !== undefined) {
+      updates.admin_notes = moderation.admin_notes || null;
+    }
+
+    const { data: updatedResource, error: updateError } = await supabase
+      .from('resources')
+      .update(updates)
+      .eq('id', moderation.resource_id)
+      .select(`
+        *,
+        submitted_by:users(id, username, display_name, avatar_url)
+      `)
+      .single();
+
+    if (updateError) {
+      console.error('Error moderating resource:', updateError);
+      return NextResponse.json(
+        { error: 'Failed to moderate resource' },
+        { status: 500 }
+      );
+    }
+
+    // Log admin action
+    await supabase
+      .from('admin_actions')
+      .insert({
+        admin_id: adminId,
+        action: `resource_${moderation.action}`,
+        target_type: 'resource',
+        target_id: moderation.resource_id,
+        metadata: {
+          previous_status: resource.status,
+          previous_featured: resource.featured,
+          rejection_reason: moderation.rejection_reason || null,
+          admin_notes: moderation.admin_notes || null,
+        },
+      });
+
+    return NextResponse.json({
+      data: updatedResource,
+      message: `Resource ${ACTION_PAST_TENSE[moderation.action]}`,
+    });
+  } catch (error) {
+    console.error('Moderation error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid moderation data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
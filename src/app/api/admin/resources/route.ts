@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase';
+import { requireAdmin } from '@/lib/admin';
+import { z } from 'zod';
+
+// Validation schemas
+const AdminResourcesQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected', 'hidden']).optional(),
+  category: z.enum(['books', 'articles', 'videos', 'tools', 'research', 'philosophy']).optional(),
+  featured: z.enum(['true', 'false']).optional(),
+  submitted_by: z.string().uuid().optional(),
+  search: z.string().max(200).optional(),
+  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(100)).optional(),
+  offset: z.string().transform(Number).pipe(z.number().int().min(0)).optional(),
+  order_by: z.enum(['created_at', 'updated_at', 'quality_score', 'trending_score', 'views', 'upvotes']).optional(),
+  order_direction: z.enum(['asc', 'desc']).optional(),
+});
+
+// GET /api/admin/resources - List resources across all statuses (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    // Empty params (e.g. status=) mean "no filter"
+    const params = Object.fromEntries(
+      Array.from(searchParams.entries()).filter(([, value]) => value !== '')
+    );
+    const query = AdminResourcesQuerySchema.parse(params);
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
+
+    const adminId = await requireAdmin();
+    if (adminId instanceof NextResponse) {
+      return adminId;
+    }
+
+    const supabase = createServiceClient();
+
+    let dbQuery = supabase
+      .from('resources')
+      .select(`
+        *,
+        submitted_by:users(id, username, display_name, avatar_url, reputation_score),
+        possible_duplicate:resources!possible_duplicate_of(id, title, author, url, status)
+      `, { count: 'exact' })
+      .order(query.order_by ?? 'created_at', { ascending: query.order_direction === 'asc' })
+      .range(offset, offset + limit - 1);
+
+    if (query.status) dbQuery = dbQuery.eq('status', query.status);
+    if (query.category) dbQuery = dbQuery.eq('category', query.category);
+    if (query.featured) dbQuery = dbQuery.eq('featured', query.featured === 'true');
+    if (query.submitted_by) dbQuery = dbQuery.eq('submitted_by', query.submitted_by);
+
+    if (query.search) {
+      // Characters that would break out of the PostgREST or() filter
+      const term = query.search.replace(/[,()*%\\]/g, ' ').trim();
+      if (term) {
+        dbQuery = dbQuery.or(
+          `title.ilike.%${term}%,author.ilike.%${term}%,url.ilike.%${term}%,description.ilike.%${term}%`
+        );
+      }
+    }
+
+    const { data: resources, count, error } = await dbQuery;
+
+    if (error) {
+      console.error('Error fetching admin resources:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch resources' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      data: resources || [],
+      pagination: {
+        total: count || 0,
+        offset,
+        limit,
+        hasMore: (offset + limit) < (count || 0),
+      },
+    });
+  } catch (error) {
+    console.error('Admin resources error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -108,8 +108,6 @@ export async function POST(request: NextRequest) {
         user_id: newUser.id,
         preferred_categories: [],
         excluded_categories: [],
-        preferred_difficulty: 'intermediate',
-        max_time_minutes: 60,
         discovery_algorithm: 'balanced',
       });
 
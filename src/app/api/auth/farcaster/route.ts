@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServiceClient } from '@/lib/supabase';
-import { FarcasterAuthData } from '@/lib/auth';
+import { createServerClient, createServiceClient } from '@/lib/supabase';
+import { verifyFarcasterSignIn } from '@/lib/farcaster';
+import {
+  clearNonceCookie,
+  consumeNonce,
+  getAuthDomain,
+  getNonceCookie,
+  issueNonce,
+  setNonceCookie,
+} from '@/lib/nonces';
+import { createSession, ensureAuthUser } from '@/lib/sessions';
 import { z } from 'zod';
 
 // Validation schema for Farcaster auth data
@@ -10,12 +19,14 @@ const FarcasterAuthSchema = z.object({
   displayName: z.string(),
   pfpUrl: z.string().url(),
   bio: z.string().optional(),
-  verifications: z.array(z.string()),
+  verifications: z.array(z.string()), // Ignored - verified addresses come from the resolver
   signature: z.string(),
   message: z.string(),
   nonce: z.string(),
 });
 
+export const dynamic = 'force-dynamic';
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -23,11 +34,18 @@ export async function POST(request: NextRequest) {
     // Validate request data
     const authData = FarcasterAuthSchema.parse(body);
 
-    // Verify Farcaster signature (this would be more robust in production)
-    const isValidSignature = await verifyFarcasterSignature(authData);
-    if (!isValidSignature) {
+    // Verify Farcaster signature against the FID's addresses and consume the nonce
+    const verification = await verifyFarcasterSignIn({
+      message: authData.message,
+      signature: authData.signature,
+      fid: authData.fid,
+      domain: getAuthDomain(request),
+      consumeNonce: consumeBrowserNonce(request),
+    });
+
+    if (!verification.success) {
       return NextResponse.json(
-        { error: 'Invalid signature' },
+        { error: 'Invalid signature', details: verification.error },
         { status: 401 }
       );
     }
@@ -64,62 +82,50 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Create or update auth user
-      const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
-        email: `${authData.username}@farcaster.local`,
-        email_confirm: true,
-        user_metadata: {
-          farcaster_id: authData.fid.toString(),
-          username: authData.username,
-          display_name: authData.displayName,
-          avatar_url: authData.pfpUrl,
-        }
-      });
-
-      if (authError && authError.message !== 'User already registered') {
-        console.error('Error creating auth user:', authError);
+      // Sign in as the auth user backing this profile
+      let session;
+      try {
+        const authUser = await ensureAuthUser({
+          userId: existingUser.id,
+          email: farcasterEmail(authData.fid),
+          metadata: authMetadata(authData),
+        });
+        session = await createSession(authUser.email);
+      } catch (sessionError) {
+        return sessionErrorResponse(sessionError);
       }
 
-      return NextResponse.json({
+      const response = NextResponse.json({
         user: updatedUser,
+        session,
         isNewUser: false,
       });
+      clearNonceCookie(response, 'farcaster');
+      return response;
     } else {
-      // Create new user
-      const userId = crypto.randomUUID();
-
       // Create auth user first
-      const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
-        email: `${authData.username}@farcaster.local`,
-        email_confirm: true,
-        user_metadata: {
-          farcaster_id: authData.fid.toString(),
-          username: authData.username,
-          display_name: authData.displayName,
-          avatar_url: authData.pfpUrl,
-        }
-      });
-
-      if (authError) {
-        console.error('Error creating auth user:', authError);
-        return NextResponse.json(
-          { error: 'Failed to create authentication' },
-          { status: 500 }
-        );
+      let authUser: { id: string; email: string };
+      try {
+        authUser = await ensureAuthUser({
+          email: farcasterEmail(authData.fid),
+          metadata: authMetadata(authData),
+        });
+      } catch (authError) {
+        return sessionErrorResponse(authError);
       }
 
       // Create user profile
       const { data: newUser, error: profileError } = await supabase
         .from('users')
         .insert({
-          id: authUser.user.id,
+          id: authUser.id,
           farcaster_id: authData.fid.toString(),
           farcaster_username: authData.username,
           username: authData.username,
           display_name: authData.displayName,
           avatar_url: authData.pfpUrl,
           bio: authData.bio,
-          eth_address: authData.verifications[0] || null, // First verification is usually ETH address
+          eth_address: verification.addresses.verifications[0]?.toLowerCase() || null, // First verified ETH address
         })
         .select()
         .single();
@@ -127,7 +133,7 @@ export async function POST(request: NextRequest) {
       if (profileError) {
         console.error('Error creating user profile:', profileError);
         // Clean up auth user if profile creation fails
-        await supabase.auth.admin.deleteUser(authUser.user.id);
+        await supabase.auth.admin.deleteUser(authUser.id);
         return NextResponse.json(
           { error: 'Failed to create user profile' },
           { status: 500 }
@@ -141,8 +147,6 @@ export async function POST(request: NextRequest) {
           user_id: newUser.id,
           preferred_categories: [],
           excluded_categories: [],
-          preferred_difficulty: 'intermediate',
-          max_time_minutes: 60,
           discovery_algorithm: 'balanced',
         });
 
@@ -159,10 +163,20 @@ export async function POST(request: NextRequest) {
           },
         });
 
-      return NextResponse.json({
+      let session;
+      try {
+        session = await createSession(authUser.email);
+      } catch (sessionError) {
+        return sessionErrorResponse(sessionError);
+      }
+
+      const response = NextResponse.json({
         user: newUser,
+        session,
         isNewUser: true,
       });
+      clearNonceCookie(response, 'farcaster');
+      return response;
     }
   } catch (error) {
     console.error('Farcaster auth error:', error);
@@ -181,57 +195,155 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Verify Farcaster signature
-async function verifyFarcasterSignature(authData: FarcasterAuthData): Promise<boolean> {
+// Generate nonce for Sign In With Farcaster message
+export async function GET() {
   try {
-    // In production, this would:
-    // 1. Fetch the user's custody address from Farcaster Hub
-    // 2. Reconstruct the signed message format
-    // 3. Verify the signature against the custody address
-    // 4. Check nonce to prevent replay attacks
-
-    // For now, we'll do basic validation
-    if (!authData.signature || !authData.message || !authData.nonce) {
-      return false;
-    }
+    const { nonce, expiresAt } = await issueNonce('farcaster');
 
-    // Check message format (should contain domain, URI, nonce, etc.)
-    const requiredFields = ['domain', 'uri', 'nonce', 'issued-at'];
-    const hasRequiredFields = requiredFields.every(field =>
-      authData.message.includes(field)
+    const response = NextResponse.json({
+      nonce,
+      expiresAt,
+    });
+    setNonceCookie(response, 'farcaster', nonce, expiresAt);
+    return response;
+  } catch (error) {
+    console.error('Error generating nonce:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate nonce' },
+      { status: 500 }
     );
+  }
+}
 
-    if (!hasRequiredFields) {
-      return false;
+// Link Farcaster account to the signed-in user
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const authData = FarcasterAuthSchema.parse(body);
+
+    const { data: { user }, error: authError } = await createServerClient().auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
     }
 
-    // Verify nonce is recent (within last 10 minutes)
-    const messageLines = authData.message.split('\n');
-    const issuedAtLine = messageLines.find(line => line.startsWith('Issued At:'));
-    if (issuedAtLine) {
-      const issuedAt = new Date(issuedAtLine.split(': ')[1]);
-      const now = new Date();
-      const tenMinutesAgo = new Date(now.getTime() - 10 * 60 * 1000);
+    const verification = await verifyFarcasterSignIn({
+      message: authData.message,
+      signature: authData.signature,
+      fid: authData.fid,
+      domain: getAuthDomain(request),
+      consumeNonce: consumeBrowserNonce(request),
+    });
 
-      if (issuedAt < tenMinutesAgo) {
-        return false; // Message too old
-      }
+    if (!verification.success) {
+      return NextResponse.json(
+        { error: 'Invalid signature', details: verification.error },
+        { status: 401 }
+      );
+    }
+
+    const supabase = createServiceClient();
+
+    // Check if FID is already linked to another account
+    const { data: existingLink } = await supabase
+      .from('users')
+      .select('id')
+      .eq('farcaster_id', authData.fid.toString())
+      .neq('id', user.id)
+      .single();
+
+    if (existingLink) {
+      return NextResponse.json(
+        { error: 'Farcaster account already linked to another account' },
+        { status: 409 }
+      );
+    }
+
+    const { data: updatedUser, error: updateError } = await supabase
+      .from('users')
+      .update({
+        farcaster_id: authData.fid.toString(),
+        farcaster_username: authData.username,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', user.id)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error('Error linking Farcaster account:', updateError);
+      return NextResponse.json(
+        { error: 'Failed to link Farcaster account' },
+        { status: 500 }
+      );
     }
 
-    // TODO: Implement actual cryptographic signature verification
-    // This would involve calling Farcaster Hub API to get custody address
-    // and verifying the signature using web3 libraries
+    // Track analytics event
+    await supabase
+      .from('analytics_events')
+      .insert({
+        event_type: 'farcaster_linked',
+        user_id: user.id,
+        properties: {
+          fid: authData.fid,
+          username: authData.username,
+        },
+      });
 
-    return true; // Temporary - assume valid for development
+    const response = NextResponse.json({
+      user: updatedUser,
+      message: 'Farcaster account linked successfully',
+    });
+    clearNonceCookie(response, 'farcaster');
+    return response;
   } catch (error) {
-    console.error('Error verifying Farcaster signature:', error);
-    return false;
+    console.error('Farcaster linking error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
   }
 }
 
-export async function GET() {
-  return NextResponse.json(
-    { error: 'Method not allowed' },
-    { status: 405 }
+// Synthetic auth email, keyed by FID since usernames can change hands
+function farcasterEmail(fid: number): string {
+  return `fid-${fid}@farcaster.local`;
+}
+
+function authMetadata(authData: z.infer<typeof FarcasterAuthSchema>) {
+  return {
+    farcaster_id: authData.fid.toString(),
+    username: authData.username,
+    display_name: authData.displayName,
+    avatar_url: authData.pfpUrl,
+  };
+}
+
+// Consume a message's nonce only if it was issued to this browser, so a signed
+// message can't be redeemed by another client
+function consumeBrowserNonce(request: NextRequest) {
+  return async (nonce: string) =>
+    nonce === getNonceCookie(request, 'farcaster') && consumeNonce(nonce, 'farcaster');
+}
+
+// The signature checked out but its nonce is now spent, so tell the client to
+// sign in again rather than returning a generic error
+function sessionErrorResponse(error: unknown) {
+  console.error('Error creating Farcaster session:', error);
+  const response = NextResponse.json(
+    { error: 'Failed to start session', details: 'Your Farcaster signature was accepted but signing in failed. Please sign in again.' },
+    { status: 500 }
   );
+  clearNonceCookie(response, 'farcaster');
+  return response;
 }
@@ -1,5 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServiceClient } from '@/lib/supabase';
+import { createServerClient, createServiceClient } from '@/lib/supabase';
+import {
+  clearNonceCookie,
+  consumeNonce,
+  getAuthDomain,
+  getNonceCookie,
+  issueNonce,
+  setNonceCookie,
+} from '@/lib/nonces';
+import { createSession, ensureAuthUser } from '@/lib/sessions';
 import { SiweMessage } from 'siwe';
 import { z } from 'zod';
 
@@ -11,6 +20,11 @@ const WalletAuthSchema = z.object({
   chainId: z.number(),
 });
 
+export const dynamic = 'force-dynamic';
+
+// Chains wallets may sign in from (the payment chain and Ethereum mainnet)
+const ALLOWED_CHAIN_IDS = [Number(process.env.NEXT_PUBLIC_CHAIN_ID) || 8453, 1];
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -18,40 +32,15 @@ export async function POST(request: NextRequest) {
     // Validate request data
     const authData = WalletAuthSchema.parse(body);
 
-    // Verify SIWE message
-    const siweMessage = new SiweMessage(authData.message);
-    const verificationResult = await siweMessage.verify({
-      signature: authData.signature,
-    });
-
-    if (!verificationResult.success) {
-      return NextResponse.json(
-        { error: 'Invalid signature', details: verificationResult.error },
-        { status: 401 }
-      );
-    }
-
-    // Additional validations
-    if (siweMessage.address.toLowerCase() !== authData.address.toLowerCase()) {
+    // Verify SIWE message, domain, chain and single-use nonce
+    const verification = await verifySiweSignIn(request, authData);
+    if (!verification.success) {
       return NextResponse.json(
-        { error: 'Address mismatch' },
+        { error: verification.error, details: verification.details },
         { status: 401 }
       );
     }
 
-    // Check if message is not too old (within 10 minutes)
-    if (siweMessage.issuedAt) {
-      const issuedAt = new Date(siweMessage.issuedAt);
-      const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
-
-      if (issuedAt < tenMinutesAgo) {
-        return NextResponse.json(
-          { error: 'Message expired' },
-          { status: 401 }
-        );
-      }
-    }
-
     const supabase = createServiceClient();
     const normalizedAddress = authData.address.toLowerCase();
 
@@ -81,26 +70,26 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Create or update auth user
-      const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
+      // Sign in as the auth user backing this profile
+      const authUser = await ensureAuthUser({
+        userId: existingUser.id,
         email: `${normalizedAddress}@wallet.local`,
-        email_confirm: true,
-        user_metadata: {
+        metadata: {
           eth_address: normalizedAddress,
           username: existingUser.username,
           display_name: existingUser.display_name,
           avatar_url: existingUser.avatar_url,
-        }
+        },
       });
+      const session = await createSession(authUser.email);
 
-      if (authError && authError.message !== 'User already registered') {
-        console.error('Error creating auth user:', authError);
-      }
-
-      return NextResponse.json({
+      const response = NextResponse.json({
         user: updatedUser,
+        session,
         isNewUser: false,
       });
+      clearNonceCookie(response, 'siwe');
+      return response;
     } else {
       // Create new user
       const shortAddress = authData.address.slice(0, 8);
@@ -123,17 +112,17 @@ export async function POST(request: NextRequest) {
       }
 
       // Create auth user first
-      const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
-        email: `${normalizedAddress}@wallet.local`,
-        email_confirm: true,
-        user_metadata: {
-          eth_address: normalizedAddress,
-          username: finalUsername,
-          display_name: `User ${shortAddress}`,
-        }
-      });
-
-      if (authError) {
+      let authUser: { id: string; email: string };
+      try {
+        authUser = await ensureAuthUser({
+          email: `${normalizedAddress}@wallet.local`,
+          metadata: {
+            eth_address: normalizedAddress,
+            username: finalUsername,
+            display_name: `User ${shortAddress}`,
+          },
+        });
+      } catch (authError) {
         console.error('Error creating auth user:', authError);
         return NextResponse.json(
           { error: 'Failed to create authentication' },
@@ -145,7 +134,7 @@ export async function POST(request: NextRequest) {
       const { data: newUser, error: profileError } = await supabase
         .from('users')
         .insert({
-          id: authUser.user.id,
+          id: authUser.id,
           eth_address: normalizedAddress,
           username: finalUsername,
           display_name: `User ${shortAddress}`,
@@ -157,7 +146,7 @@ export async function POST(request: NextRequest) {
       if (profileError) {
         console.error('Error creating user profile:', profileError);
         // Clean up auth user if profile creation fails
-        await supabase.auth.admin.deleteUser(authUser.user.id);
+        await supabase.auth.admin.deleteUser(authUser.id);
         return NextResponse.json(
           { error: 'Failed to create user profile' },
           { status: 500 }
@@ -171,8 +160,6 @@ export async function POST(request: NextRequest) {
           user_id: newUser.id,
           preferred_categories: [],
           excluded_categories: [],
-          preferred_difficulty: 'intermediate',
-          max_time_minutes: 60,
           discovery_algorithm: 'balanced',
         });
 
@@ -189,10 +176,15 @@ export async function POST(request: NextRequest) {
           },
         });
 
-      return NextResponse.json({
+      const session = await createSession(authUser.email);
+
+      const response = NextResponse.json({
         user: newUser,
+        session,
         isNewUser: true,
       });
+      clearNonceCookie(response, 'siwe');
+      return response;
     }
   } catch (error) {
     console.error('Wallet auth error:', error);
@@ -214,12 +206,14 @@ export async function POST(request: NextRequest) {
 // Generate nonce for SIWE message
 export async function GET() {
   try {
-    const nonce = generateNonce();
+    const { nonce, expiresAt } = await issueNonce('siwe');
 
-    return NextResponse.json({
+    const response = NextResponse.json({
       nonce,
-      expiresAt: new Date(Date.now() + 10 * 60 * 1000).toISOString(), // 10 minutes
+      expiresAt,
     });
+    setNonceCookie(response, 'siwe', nonce, expiresAt);
+    return response;
   } catch (error) {
     console.error('Error generating nonce:', error);
     return NextResponse.json(
@@ -236,39 +230,30 @@ function generateAvatarUrl(address: string): string {
   return `https://api.dicebear.com/7.x/identicon/svg?seed=${seed}&backgroundColor=FF6D0E&size=128`;
 }
 
-// Generate cryptographically secure nonce
-function generateNonce(): string {
-  // Generate 32 random bytes and convert to hex
-  const bytes = new Uint8Array(32);
-  crypto.getRandomValues(bytes);
-  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
-}
-
-// Link wallet to existing account
+// Link wallet to the signed-in user's account
 export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json();
-    const { userId, ...authData } = body;
 
-    if (!userId) {
+    // Validate auth data
+    const validatedAuthData = WalletAuthSchema.parse(body);
+
+    // Account comes from the session, never from the request body
+    const { data: { user }, error: authError } = await createServerClient().auth.getUser();
+    if (authError || !user) {
       return NextResponse.json(
-        { error: 'User ID required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       );
     }
 
-    // Validate auth data
-    const validatedAuthData = WalletAuthSchema.parse(authData);
-
-    // Verify SIWE message
-    const siweMessage = new SiweMessage(validatedAuthData.message);
-    const verificationResult = await siweMessage.verify({
-      signature: validatedAuthData.signature,
-    });
+    const userId = user.id;
 
-    if (!verificationResult.success) {
+    // Verify SIWE message, domain, chain and single-use nonce
+    const verification = await verifySiweSignIn(request, validatedAuthData);
+    if (!verification.success) {
       return NextResponse.json(
-        { error: 'Invalid signature' },
+        { error: verification.error, details: verification.details },
         { status: 401 }
       );
     }
@@ -322,10 +307,12 @@ export async function PATCH(request: NextRequest) {
         },
       });
 
-    return NextResponse.json({
+    const response = NextResponse.json({
       user: updatedUser,
       message: 'Wallet linked successfully',
     });
+    clearNonceCookie(response, 'siwe');
+    return response;
   } catch (error) {
     console.error('Wallet linking error:', error);
 
@@ -342,3 +329,65 @@ export async function PATCH(request: NextRequest) {
     );
   }
 }
+
+// Verify a SIWE sign-in: signature, address, domain/URI, chain, freshness and
+// the nonce issued to this browser (consumed so the message can't be replayed)
+async function verifySiweSignIn(
+  request: NextRequest,
+  authData: z.infer<typeof WalletAuthSchema>
+): Promise<{ success: true; siweMessage: SiweMessage } | { success: false; error: string; details?: string }> {
+  let siweMessage: SiweMessage;
+  try {
+    siweMessage = new SiweMessage(authData.message);
+  } catch {
+    return { success: false, error: 'Invalid message' };
+  }
+
+  const cookieNonce = getNonceCookie(request, 'siwe');
+  if (!cookieNonce || siweMessage.nonce !== cookieNonce) {
+    return { success: false, error: 'Invalid nonce' };
+  }
+
+  const domain = getAuthDomain(request);
+  const verificationResult = await siweMessage.verify({
+    signature: authData.signature,
+    domain,
+    nonce: cookieNonce,
+  }, { suppressExceptions: true });
+
+  if (!verificationResult.success) {
+    return { success: false, error: 'Invalid signature', details: verificationResult.error?.type };
+  }
+
+  if (siweMessage.address.toLowerCase() !== authData.address.toLowerCase()) {
+    return { success: false, error: 'Address mismatch' };
+  }
+
+  try {
+    if (new URL(siweMessage.uri).host !== domain) {
+      return { success: false, error: 'URI mismatch' };
+    }
+  } catch {
+    return { success: false, error: 'Invalid URI' };
+  }
+
+  if (siweMessage.chainId !== authData.chainId || !ALLOWED_CHAIN_IDS.includes(siweMessage.chainId)) {
+    return { success: false, error: 'Unsupported chain' };
+  }
+
+  // Check if message is not too old (within 10 minutes)
+  if (siweMessage.issuedAt) {
+    const issuedAt = new Date(siweMessage.issuedAt);
+    const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
+
+    if (issuedAt < tenMinutesAgo) {
+      return { success: false, error: 'Message expired' };
+    }
+  }
+
+  if (!(await consumeNonce(siweMessage.nonce, 'siwe'))) {
+    return { success: false, error: 'Invalid or expired nonce' };
+  }
+
+  return { success: true, siweMessage };
+}
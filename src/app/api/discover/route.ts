@@ -1,24 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
+import { withFavoriteStatus } from '@/lib/favorites';
+import { chooseBanditSources } from '@/lib/bandit';
+import { diversify } from '@/lib/diversity';
+import { SESSION_ID_PATTERN, getServedIds, recordServed } from '@/lib/stumble-sessions';
+import { LONG_CONTENT_MINUTES, RESOURCE_CATEGORIES } from '@/lib/stumble-filters';
+import { DiscoverySource, UserPreferences } from '@/types/database';
 import { z } from 'zod';
 
 // Validation schemas
 const DiscoverQuerySchema = z.object({
-  algorithm: z.enum(['personalized', 'popular', 'recent', 'random']).optional().default('personalized'),
-  category: z.string().optional(),
+  algorithm: z.enum(['balanced', 'personalized', 'popular', 'recent', 'random']).optional().default('personalized'),
+  category: z.string().transform(splitList).pipe(z.array(z.enum(RESOURCE_CATEGORIES as [string, ...string[]]))).optional(), // Comma-separated; matches any
+  tags: z.string().transform(splitList).pipe(z.array(z.string().max(50)).max(20)).optional(), // Comma-separated; matches any
   difficulty: z.enum(['beginner', 'intermediate', 'advanced']).optional(),
   max_time: z.string().transform(Number).pipe(z.number().int().min(1).max(10080)).optional(),
+  hide_videos: z.string().transform(s => s === 'true').optional(),
+  hide_long_content: z.string().transform(s => s === 'true').optional(),
   exclude_viewed: z.string().transform(s => s === 'true').optional().default(true),
   exclude_ids: z.string().optional(), // Comma-separated UUIDs
   limit: z.string().transform(Number).pipe(z.number().int().min(1).max(50)).optional().default(10),
-  session_id: z.string().optional(),
+  session_id: z.string().regex(SESSION_ID_PATTERN).optional(), // Excludes everything already served to the session
 });
 
 // GET /api/discover - Get personalized content recommendations
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const query = DiscoverQuerySchema.parse(Object.fromEntries(searchParams));
+    const query = DiscoverQuerySchema.parse(
+      Object.fromEntries(Array.from(searchParams.entries()).filter(([, v]) => v !== ''))
+    );
 
     const supabase = createServerClient();
 
@@ -26,65 +37,100 @@ export async function GET(request: NextRequest) {
     const { data: { user } } = await supabase.auth.getUser();
     const userId = user?.id;
 
+    // Stored preferences apply to every algorithm; explicit query parameters win
+    const preferences = userId ? await getDiscoveryPreferences(userId) : null;
+    const { filters, preferencesApplied } = resolveFilters(query, preferences);
+
     let resources = [];
-    let algorithm_used = query.algorithm;
+    let algorithm_used: string = query.algorithm;
 
-    // Parse exclude IDs
+    // Parse exclude IDs; what the session has already been shown is excluded in the database
     const excludeIds = query.exclude_ids
       ? query.exclude_ids.split(',').filter(id => id.match(/^[0-9a-f-]{36}$/i))
       : [];
 
-    if (query.algorithm === 'personalized' && userId) {
+    const servedIds = query.session_id ? await getServedIds(query.session_id) : [];
+
+    // Fetch extra candidates so re-ranking for diversity has something to choose from
+    const candidateLimit = query.limit * DIVERSITY_CANDIDATES_PER_RESULT;
+
+    // Signed-in personalized and balanced requests may have their source mix chosen by the bandit
+    const bandit = userId ? await chooseBanditSources(query.algorithm, query.limit) : null;
+
+    if (bandit) {
+      algorithm_used = 'bandit';
+      resources = await getBalancedContent(
+        userId,
+        candidateLimit,
+        query.exclude_viewed,
+        excludeIds,
+        query.session_id,
+        filters,
+        bandit.allocation
+      );
+    } else if (query.algorithm === 'personalized' && userId) {
       // Get personalized recommendations
       resources = await getPersonalizedRecommendations(
         userId,
-        query.limit,
+        candidateLimit,
         query.exclude_viewed,
         excludeIds,
-        query.category,
-        query.difficulty,
-        query.max_time
+        query.session_id,
+        filters
       );
 
       // Fall back to popular if no personalized results
       if (resources.length === 0) {
         algorithm_used = 'popular';
         resources = await getPopularContent(
-          query.limit,
+          candidateLimit,
           excludeIds,
-          query.category,
-          query.difficulty,
-          query.max_time
+          query.session_id,
+          filters
         );
       }
+    } else if (query.algorithm === 'balanced') {
+      resources = await getBalancedContent(
+        userId,
+        candidateLimit,
+        query.exclude_viewed,
+        excludeIds,
+        query.session_id,
+        filters
+      );
     } else if (query.algorithm === 'popular') {
       resources = await getPopularContent(
-        query.limit,
+        candidateLimit,
         excludeIds,
-        query.category,
-        query.difficulty,
-        query.max_time
+        query.session_id,
+        filters
       );
     } else if (query.algorithm === 'recent') {
       resources = await getRecentContent(
-        query.limit,
+        candidateLimit,
         excludeIds,
-        query.category,
-        query.difficulty,
-        query.max_time
+        query.session_id,
+        filters
       );
     } else {
       // Random or fallback
       algorithm_used = 'random';
       resources = await getRandomContent(
-        query.limit,
+        candidateLimit,
         excludeIds,
-        query.category,
-        query.difficulty,
-        query.max_time
+        query.session_id,
+        filters
       );
     }
 
+    // Spread results across categories, authors, sites and tags, including what the session just saw
+    const diversified = await diversify(supabase, resources, {
+      algorithm: algorithm_used,
+      limit: query.limit,
+      servedIds,
+    });
+    resources = diversified.resources;
+
     // Track analytics event
     if (userId || query.session_id) {
       await supabase
@@ -95,15 +141,27 @@ export async function GET(request: NextRequest) {
           session_id: query.session_id,
           properties: {
             algorithm: algorithm_used,
+            requested_algorithm: query.algorithm,
+            bandit_allocation: bandit?.allocation,
+            bandit_arms: bandit?.arms,
             category: query.category,
+            tags: query.tags,
             difficulty: query.difficulty,
             max_time: query.max_time,
+            hide_videos: query.hide_videos,
+            hide_long_content: query.hide_long_content,
+            preferences_applied: preferencesApplied,
+            diversity: diversified.summary,
             results_count: resources.length,
             exclude_count: excludeIds.length,
+            session_served_count: servedIds.length,
           },
         });
     }
 
+    // Reflect the user's favorites so the heart icon is accurate
+    resources = await withFavoriteStatus(supabase, userId, resources);
+
     return NextResponse.json({
       data: resources,
       algorithm_used,
@@ -113,10 +171,17 @@ export async function GET(request: NextRequest) {
         timestamp: new Date().toISOString(),
         filters_applied: {
           category: query.category,
+          tags: query.tags,
           difficulty: query.difficulty,
           max_time: query.max_time,
+          hide_videos: query.hide_videos,
+          hide_long_content: query.hide_long_content,
           exclude_viewed: query.exclude_viewed,
         },
+        preferences_applied: preferencesApplied,
+        diversity: diversified.summary,
+        ...((algorithm_used === 'balanced' || bandit) && { sources: countSources(resources) }),
+        ...(bandit && { bandit: { allocation: bandit.allocation } }),
       },
     });
   } catch (error) {
@@ -136,7 +201,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/discover/interaction - Track user interaction with discovered content
+// POST /api/discover - Track user interaction with discovered content
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -171,6 +236,15 @@ export async function POST(request: NextRequest) {
         },
       });
 
+    // A view means the resource was actually shown, so the session shouldn't get it again
+    if (
+      interactionData.interaction_type === 'view' &&
+      interactionData.session_id &&
+      SESSION_ID_PATTERN.test(interactionData.session_id)
+    ) {
+      await recordServed(interactionData.session_id, user?.id, [interactionData.resource_id]);
+    }
+
     // Update resource view count if it's a view interaction
     if (interactionData.interaction_type === 'view') {
       await supabase
@@ -239,6 +313,46 @@ export async function POST(request: NextRequest) {
   }
 }
 
+type DiscoverQuery = z.infer<typeof DiscoverQuerySchema>;
+
+type DiscoveryPreferences = Pick<
+  UserPreferences,
+  'excluded_categories' | 'preferred_difficulty' | 'max_time_minutes' | 'hide_videos' | 'hide_long_content'
+>;
+
+interface DiscoverFilters {
+  categories: string[];
+  excludedCategories: string[];
+  tags: string[];
+  difficulty?: string; // Exact level
+  difficultyRange: string[]; // Allowed levels; unrated content is kept
+  maxTime?: number; // Content must be known to fit
+  maxKnownTime?: number; // Hides content known to run longer; unknown durations are kept
+  hideVideos: boolean;
+}
+
+const BALANCED_SOURCES: DiscoverySource[] = ['personalized', 'trending', 'fresh', 'exploration'];
+
+// Share of balanced results from each source; overridden by system_config balanced_discovery_ratios
+const DEFAULT_BALANCED_RATIOS: Record<DiscoverySource, number> = {
+  personalized: 0.4,
+  trending: 0.25,
+  fresh: 0.2,
+  exploration: 0.15,
+};
+
+// Extra candidates fetched per source so overlaps between sources don't leave gaps
+const BALANCED_OVERFETCH = 3;
+
+// Candidates fetched per requested result, for diversity re-ranking to choose among
+const DIVERSITY_CANDIDATES_PER_RESULT = 2;
+
+// A preferred difficulty hides content two levels away; intermediate hides nothing
+const PREFERRED_DIFFICULTY_RANGES: Record<string, string[]> = {
+  beginner: ['beginner', 'intermediate'],
+  advanced: ['intermediate', 'advanced'],
+};
+
 // Helper functions for different discovery algorithms
 
 async function getPersonalizedRecommendations(
@@ -246,9 +360,8 @@ async function getPersonalizedRecommendations(
   limit: number,
   excludeViewed: boolean,
   excludeIds: string[],
-  category?: string,
-  difficulty?: string,
-  maxTime?: number
+  sessionId: string | undefined,
+  filters: DiscoverFilters
 ): Promise<any[]> {
   try {
     const supabase = createServerClient();
@@ -259,6 +372,7 @@ async function getPersonalizedRecommendations(
         target_user_id: userId,
         limit_count: limit * 2, // Get more to filter
         exclude_viewed: excludeViewed,
+        exclude_session_id: sessionId ?? null,
       });
 
     if (!recommendations || recommendations.length === 0) {
@@ -267,8 +381,7 @@ async function getPersonalizedRecommendations(
 
     // Get full resource data
     const resourceIds = recommendations.map(r => r.resource_id);
-    let query = supabase
-      .from('resources')
+    let query = unservedResources(supabase, sessionId)
       .select(`
         *,
         submitted_by:users(id, username, display_name, avatar_url, reputation_score)
@@ -277,9 +390,7 @@ async function getPersonalizedRecommendations(
       .eq('status', 'approved');
 
     // Apply additional filters
-    if (category) query = query.eq('category', category);
-    if (difficulty) query = query.eq('difficulty_level', difficulty);
-    if (maxTime) query = query.lte('estimated_time_minutes', maxTime);
+    query = applyFilters(query, filters);
     if (excludeIds.length > 0) query = query.not('id', 'in', `(${excludeIds.join(',')})`);
 
     const { data: resources } = await query;
@@ -305,15 +416,13 @@ async function getPersonalizedRecommendations(
 async function getPopularContent(
   limit: number,
   excludeIds: string[],
-  category?: string,
-  difficulty?: string,
-  maxTime?: number
+  sessionId: string | undefined,
+  filters: DiscoverFilters
 ): Promise<any[]> {
   try {
     const supabase = createServerClient();
 
-    let query = supabase
-      .from('resources')
+    let query = unservedResources(supabase, sessionId)
       .select(`
         *,
         submitted_by:users(id, username, display_name, avatar_url, reputation_score)
@@ -322,9 +431,7 @@ async function getPopularContent(
       .order('quality_score', { ascending: false });
 
     // Apply filters
-    if (category) query = query.eq('category', category);
-    if (difficulty) query = query.eq('difficulty_level', difficulty);
-    if (maxTime) query = query.lte('estimated_time_minutes', maxTime);
+    query = applyFilters(query, filters);
     if (excludeIds.length > 0) query = query.not('id', 'in', `(${excludeIds.join(',')})`);
 
     query = query.limit(limit);
@@ -340,15 +447,13 @@ async function getPopularContent(
 async function getRecentContent(
   limit: number,
   excludeIds: string[],
-  category?: string,
-  difficulty?: string,
-  maxTime?: number
+  sessionId: string | undefined,
+  filters: DiscoverFilters
 ): Promise<any[]> {
   try {
     const supabase = createServerClient();
 
-    let query = supabase
-      .from('resources')
+    let query = unservedResources(supabase, sessionId)
       .select(`
         *,
         submitted_by:users(id, username, display_name, avatar_url, reputation_score)
@@ -358,9 +463,7 @@ async function getRecentContent(
       .order('created_at', { ascending: false });
 
     // Apply filters
-    if (category) query = query.eq('category', category);
-    if (difficulty) query = query.eq('difficulty_level', difficulty);
-    if (maxTime) query = query.lte('estimated_time_minutes', maxTime);
+    query = applyFilters(query, filters);
     if (excludeIds.length > 0) query = query.not('id', 'in', `(${excludeIds.join(',')})`);
 
     query = query.limit(limit);
@@ -373,12 +476,85 @@ async function getRecentContent(
   }
 }
 
+async function getTrendingContent(
+  limit: number,
+  excludeIds: string[],
+  sessionId: string | undefined,
+  filters: DiscoverFilters
+): Promise<any[]> {
+  try {
+    const supabase = createServerClient();
+
+    let query = unservedResources(supabase, sessionId)
+      .select(`
+        *,
+        submitted_by:users(id, username, display_name, avatar_url, reputation_score)
+      `)
+      .eq('status', 'approved')
+      .gt('trending_score', 0)
+      .order('trending_score', { ascending: false });
+
+    // Apply filters
+    query = applyFilters(query, filters);
+    if (excludeIds.length > 0) query = query.not('id', 'in', `(${excludeIds.join(',')})`);
+
+    query = query.limit(limit);
+
+    const { data: resources } = await query;
+    return resources || [];
+  } catch (error) {
+    console.error('Error getting trending content:', error);
+    return [];
+  }
+}
+
+// Interleave personalized, trending, fresh and exploration (random) picks in
+// configured proportions (or the bandit's allocation), tagging each with the
+// source that produced it
+async function getBalancedContent(
+  userId: string | undefined,
+  limit: number,
+  excludeViewed: boolean,
+  excludeIds: string[],
+  sessionId: string | undefined,
+  filters: DiscoverFilters,
+  allocation?: Record<DiscoverySource, number>
+): Promise<any[]> {
+  try {
+    const ratios = allocation ? { ...allocation } : await getBalancedRatios();
+
+    // Signed-out users have no personalized source; the others share its slots
+    if (!userId) ratios.personalized = 0;
+
+    const total = BALANCED_SOURCES.reduce((sum, source) => sum + ratios[source], 0);
+    const fetchCount = (source: DiscoverySource) =>
+      Math.ceil(limit * ratios[source] / total) + BALANCED_OVERFETCH;
+
+    const [personalized, trending, fresh, exploration] = await Promise.all([
+      userId && ratios.personalized > 0
+        ? getPersonalizedRecommendations(userId, fetchCount('personalized'), excludeViewed, excludeIds, sessionId, filters)
+        : Promise.resolve([]),
+      ratios.trending > 0 ? getTrendingContent(fetchCount('trending'), excludeIds, sessionId, filters) : Promise.resolve([]),
+      ratios.fresh > 0 ? getRecentContent(fetchCount('fresh'), excludeIds, sessionId, filters) : Promise.resolve([]),
+      ratios.exploration > 0 ? getRandomContent(fetchCount('exploration'), excludeIds, sessionId, filters) : Promise.resolve([]),
+    ]);
+
+    return interleaveSources(
+      { personalized, trending, fresh, exploration },
+      ratios,
+      limit
+    );
+  } catch (error) {
+    console.error('Error getting balanced content:', error);
+    return [];
+  }
+}
+
 async function getRandomContent(
   limit: number,
   excludeIds: string[],
-  category?: string,
-  difficulty?: string,
-  maxTime?: number
+  sessionId: string | undefined,
+  filters: DiscoverFilters
 ): Promise<any[]> {
   try {
     const supabase = createServerClient();
@@ -388,6 +564,7 @@ async function getRandomContent(
       .rpc('get_random_stumble_content', {
         limit_count: limit * 3, // Get more to filter
         exclude_ids: excludeIds,
+        exclude_session_id: sessionId ?? null,
       });
 
     if (!randomResults || randomResults.length === 0) {
@@ -396,8 +573,7 @@ async function getRandomContent(
 
     // Get full resource data
     const resourceIds = randomResults.map(r => r.resource_id);
-    let query = supabase
-      .from('resources')
+    let query = unservedResources(supabase, sessionId)
       .select(`
         *,
         submitted_by:users(id, username, display_name, avatar_url, reputation_score)
@@ -405,9 +581,7 @@ async function getRandomContent(
       .in('id', resourceIds);
 
     // Apply additional filters
-    if (category) query = query.eq('category', category);
-    if (difficulty) query = query.eq('difficulty_level', difficulty);
-    if (maxTime) query = query.lte('estimated_time_minutes', maxTime);
+    query = applyFilters(query, filters);
 
     const { data: resources } = await query;
 
@@ -421,3 +595,197 @@ async function getRandomContent(
     return [];
   }
 }
+
+// Resources the session hasn't been shown (all of them without a session), to
+// select() from like the resources table. The exclusion joins stumble_sessions
+// in the database, so it doesn't grow the request URL.
+function unservedResources(supabase: ReturnType<typeof createServerClient>, sessionId: string | undefined) {
+  return supabase.rpc('unserved_resources', { target_session_id: sessionId ?? null });
+}
+
+// Load the preference columns that narrow discovery results
+async function getDiscoveryPreferences(userId: string): Promise<DiscoveryPreferences | null> {
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('excluded_categories, preferred_difficulty, max_time_minutes, hide_videos, hide_long_content')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading discovery preferences:', error);
+    return null;
+  }
+
+  return data;
+}
+
+// Combine query filters with stored preferences. A preference is skipped when the
+// request sets the same filter explicitly (or asks for an excluded category by name).
+function resolveFilters(query: DiscoverQuery, preferences: DiscoveryPreferences | null) {
+  const categories = query.category || [];
+  const preferencesApplied: Record<string, unknown> = {};
+
+  const filters: DiscoverFilters = {
+    categories,
+    excludedCategories: [],
+    tags: query.tags || [],
+    difficulty: query.difficulty,
+    difficultyRange: [],
+    maxTime: query.max_time,
+    hideVideos: query.hide_videos || false,
+  };
+  let hideLongContent = query.hide_long_content || false;
+
+  if (preferences) {
+    const excluded = (preferences.excluded_categories || []).filter(category => categories.indexOf(category) === -1);
+    if (excluded.length > 0) {
+      filters.excludedCategories = excluded;
+      preferencesApplied.excluded_categories = excluded;
+    }
+
+    if (query.hide_videos === undefined && preferences.hide_videos && categories.indexOf('videos') === -1) {
+      filters.hideVideos = true;
+      preferencesApplied.hide_videos = true;
+    }
+
+    if (query.hide_long_content === undefined && preferences.hide_long_content) {
+      hideLongContent = true;
+      preferencesApplied.hide_long_content = true;
+    }
+
+    // Only a budget the user chose; the column is NULL until they do
+    if (query.max_time === undefined && preferences.max_time_minutes) {
+      filters.maxKnownTime = preferences.max_time_minutes;
+      preferencesApplied.max_time = preferences.max_time_minutes;
+    }
+
+    const difficultyRange = PREFERRED_DIFFICULTY_RANGES[preferences.preferred_difficulty || ''];
+    if (!query.difficulty && difficultyRange) {
+      filters.difficultyRange = difficultyRange;
+      preferencesApplied.difficulty = difficultyRange;
+    }
+  }
+
+  if (hideLongContent) {
+    filters.maxKnownTime = Math.min(filters.maxKnownTime ?? LONG_CONTENT_MINUTES, LONG_CONTENT_MINUTES);
+  }
+
+  return { filters, preferencesApplied };
+}
+
+// Narrow a resources query to the requested filters
+function applyFilters(query: any, filters: DiscoverFilters) {
+  if (filters.categories.length > 0) query = query.in('category', filters.categories);
+  if (filters.excludedCategories.length > 0) {
+    query = query.not('category', 'in', `(${filters.excludedCategories.join(',')})`);
+  }
+  if (filters.tags.length > 0) query = query.overlaps('tags', filters.tags);
+  if (filters.difficulty) query = query.eq('difficulty_level', filters.difficulty);
+  if (filters.maxTime) query = query.lte('estimated_time_minutes', filters.maxTime);
+  if (filters.hideVideos) query = query.neq('category', 'videos');
+
+  // Filters that keep rows where the column is unknown, combined into a single or=
+  // (PostgREST doesn't reliably combine repeated or= parameters)
+  const nullable: string[] = [];
+  if (filters.difficultyRange.length > 0) {
+    nullable.push(`or(difficulty_level.is.null,difficulty_level.in.(${filters.difficultyRange.join(',')}))`);
+  }
+  if (filters.maxKnownTime) {
+    nullable.push(`or(estimated_time_minutes.is.null,estimated_time_minutes.lte.${filters.maxKnownTime})`);
+  }
+  if (nullable.length > 0) query = query.or(`and(${nullable.join(',')})`);
+
+  return query;
+}
+
+// Split a comma-separated query parameter into trimmed, non-empty values
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// Balanced source ratios from system_config, falling back to the defaults
+async function getBalancedRatios(): Promise<Record<DiscoverySource, number>> {
+  const supabase = createServerClient();
+
+  const { data: config } = await supabase
+    .from('system_config')
+    .select('value')
+    .eq('key', 'balanced_discovery_ratios')
+    .maybeSingle();
+
+  const configured = (config?.value && typeof config.value === 'object' ? config.value : {}) as Record<string, unknown>;
+  const ratios = { ...DEFAULT_BALANCED_RATIOS };
+
+  BALANCED_SOURCES.forEach(source => {
+    const ratio = Number(configured[source]);
+    if (configured[source] !== undefined && Number.isFinite(ratio) && ratio >= 0) {
+      ratios[source] = ratio;
+    }
+  });
+
+  // An all-zero config would pick nothing
+  return BALANCED_SOURCES.some(source => ratios[source] > 0) ? ratios : { ...DEFAULT_BALANCED_RATIOS };
+}
+
+// Merge per-source candidate lists by smooth weighted round-robin, so sources
+// alternate in proportion to their ratios instead of arriving in blocks.
+// Resources found by several sources are kept once, from the first source to
+// reach them; a source that runs dry gives its turns to the rest.
+function interleaveSources(
+  candidates: Record<DiscoverySource, any[]>,
+  ratios: Record<DiscoverySource, number>,
+  limit: number
+): any[] {
+  const results: any[] = [];
+  const seen: Record<string, boolean> = {};
+  const positions: Record<string, number> = {};
+  const credit: Record<string, number> = {};
+  let active = BALANCED_SOURCES.filter(source => ratios[source] > 0 && candidates[source].length > 0);
+
+  BALANCED_SOURCES.forEach(source => {
+    positions[source] = 0;
+    credit[source] = 0;
+  });
+
+  while (results.length < limit && active.length > 0) {
+    const totalWeight = active.reduce((sum, source) => sum + ratios[source], 0);
+    active.forEach(source => {
+      credit[source] += ratios[source];
+    });
+
+    const source = active.reduce((best, s) => credit[s] > credit[best] ? s : best, active[0]);
+    credit[source] -= totalWeight;
+
+    // Next candidate from this source that no other source has already contributed
+    const list = candidates[source];
+    while (positions[source] < list.length && seen[list[positions[source]].id]) {
+      positions[source] += 1;
+    }
+
+    if (positions[source] >= list.length) {
+      active = active.filter(s => s !== source);
+      continue;
+    }
+
+    const resource = list[positions[source]];
+    positions[source] += 1;
+    seen[resource.id] = true;
+    results.push({ ...resource, discovery_source: source });
+  }
+
+  return results;
+}
+
+// How many results each balanced source contributed, for the response metadata
+function countSources(resources: any[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  BALANCED_SOURCES.forEach(source => {
+    counts[source] = 0;
+  });
+  resources.forEach(resource => {
+    if (resource.discovery_source) counts[resource.discovery_source] += 1;
+  });
+  return counts;
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { BOT_USER_AGENT, decodeBody, safeFetch, SafeFetchError, SafeFetchErrorCode } from '@/lib/safe-fetch';
+import { extractMetadata } from '@/lib/metadata';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Validation schema
+const MetadataQuerySchema = z.object({
+  url: z.string().url(),
+});
+
+const METADATA_TIMEOUT_MS = 5000;
+const METADATA_MAX_BYTES = 2 * 1024 * 1024; // 2 MB is plenty for the <head> and body text
+
+const ERROR_STATUS: Record<SafeFetchErrorCode, number> = {
+  invalid_url: 400,
+  blocked_host: 403,
+  private_network: 403,
+  timeout: 504,
+  too_large: 413,
+  too_many_redirects: 502,
+  fetch_failed: 502,
+};
+
+// GET /api/metadata - Extract title, author, description, tags and reading time from a URL
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = MetadataQuerySchema.parse(Object.fromEntries(searchParams));
+
+    // Only signed-in users can make us fetch URLs
+    const supabase = createServerClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const result = await safeFetch(query.url, {
+      timeoutMs: METADATA_TIMEOUT_MS,
+      maxBytes: METADATA_MAX_BYTES,
+      blockedHosts: [request.nextUrl.hostname],
+      headers: {
+        'User-Agent': BOT_USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+      },
+    });
+
+    if (result.status >= 400) {
+      return NextResponse.json(
+        { error: `The site responded with status ${result.status}` },
+        { status: 502 }
+      );
+    }
+
+    const contentType = result.contentType.toLowerCase();
+    if (!contentType.includes('text/html') && !contentType.includes('application/xhtml+xml')) {
+      return NextResponse.json(
+        { error: 'Metadata can only be extracted from web pages', content_type: result.contentType },
+        { status: 415 }
+      );
+    }
+
+    const metadata = extractMetadata(decodeBody(result), result.url);
+
+    return NextResponse.json(
+      { data: metadata },
+      { headers: { 'Cache-Control': 'private, max-age=300' } }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'A valid url parameter is required', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SafeFetchError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: ERROR_STATUS[error.code] }
+      );
+    }
+
+    console.error('Metadata extraction error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
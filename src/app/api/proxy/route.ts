@@ -0,0 +1,265 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BOT_USER_AGENT, decodeBody, parseHostList, safeFetch, SafeFetchError } from '@/lib/safe-fetch';
+import { getProxyUrl, PROXY_ERROR_MESSAGE, ProxyErrorCode } from '@/lib/proxy';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Validation schema
+const ProxyQuerySchema = z.object({
+  u: z.string().url(),
+  ua: z.string().max(512).optional(),
+});
+
+// Limits and host lists (comma-separated env vars)
+const PROXY_TIMEOUT_MS = Number(process.env.PROXY_TIMEOUT_MS) || 8000;
+const PROXY_MAX_BYTES = Number(process.env.PROXY_MAX_BYTES) || 10 * 1024 * 1024; // 10 MB
+const PROXY_ALLOWED_HOSTS = parseHostList(process.env.PROXY_ALLOWED_HOSTS);
+const PROXY_BLOCKED_HOSTS = parseHostList(process.env.PROXY_BLOCKED_HOSTS);
+
+// Proxied documents are served from our origin, so they are sandboxed into an
+// opaque origin: their scripts can run but can't read our cookies or storage,
+// and they can't navigate the top window (frame-busting).
+const SANDBOX_POLICY = 'sandbox allow-scripts allow-forms allow-popups allow-popups-to-escape-sandbox allow-presentation';
+
+// Non-HTML content that browsers can render inline
+const PASSTHROUGH_TYPES = ['application/pdf', 'image/', 'text/plain', 'audio/', 'video/'];
+
+const ERROR_STATUS: Record<ProxyErrorCode, number> = {
+  invalid_url: 400,
+  blocked_host: 403,
+  private_network: 403,
+  timeout: 504,
+  too_large: 413,
+  too_many_redirects: 502,
+  fetch_failed: 502,
+  upstream_error: 502,
+  unsupported_content: 415,
+};
+
+// GET /api/proxy - Fetch an external page and serve it in a frameable form
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const targetUrl = searchParams.get('u') || '';
+
+  try {
+    const query = ProxyQuerySchema.parse(Object.fromEntries(searchParams));
+
+    const result = await safeFetch(query.u, {
+      timeoutMs: PROXY_TIMEOUT_MS,
+      maxBytes: PROXY_MAX_BYTES,
+      allowedHosts: PROXY_ALLOWED_HOSTS,
+      // Never proxy ourselves
+      blockedHosts: [...PROXY_BLOCKED_HOSTS, request.nextUrl.hostname],
+      headers: {
+        'User-Agent': query.ua || BOT_USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': request.headers.get('accept-language') || 'en-US,en;q=0.9',
+      },
+    });
+
+    if (result.status >= 400) {
+      return errorPage('upstream_error', `The site responded with status ${result.status}`, targetUrl);
+    }
+
+    const contentType = result.contentType.toLowerCase();
+
+    if (contentType.includes('text/html') || contentType.includes('application/xhtml+xml')) {
+      const html = rewriteHtml(
+        decodeBody(result),
+        result.url,
+        (url) => `${request.nextUrl.origin}${getProxyUrl(url, query.ua)}`
+      );
+
+      return new NextResponse(html, {
+        headers: {
+          ...frameHeaders(),
+          'Content-Type': 'text/html; charset=utf-8',
+        },
+      });
+    }
+
+    // SVG and XML documents can carry scripts, so they stay sandboxed
+    if (contentType.includes('svg') || contentType.includes('xml')) {
+      return new NextResponse(result.body, {
+        headers: {
+          ...frameHeaders(),
+          'Content-Type': result.contentType,
+        },
+      });
+    }
+
+    // Also sandboxed: served from our origin, a PDF's scripts or a sniffed text
+    // file would otherwise run with our cookies
+    if (PASSTHROUGH_TYPES.some(type => contentType.startsWith(type))) {
+      return new NextResponse(result.body, {
+        headers: {
+          ...frameHeaders(),
+          'Content-Type': result.contentType,
+        },
+      });
+    }
+
+    return errorPage('unsupported_content', `Content of type ${contentType} cannot be displayed inline`, targetUrl);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errorPage('invalid_url', 'A valid URL is required', targetUrl);
+    }
+
+    if (error instanceof SafeFetchError) {
+      return errorPage(error.code, error.message, targetUrl);
+    }
+
+    console.error('Proxy error:', error);
+    return errorPage('fetch_failed', 'Failed to load content', targetUrl);
+  }
+}
+
+// Response headers for proxied documents. Upstream headers are never forwarded,
+// which drops X-Frame-Options and CSP frame-ancestors along with everything else.
+function frameHeaders(): Record<string, string> {
+  return {
+    'Content-Security-Policy': SANDBOX_POLICY,
+    'X-Content-Type-Options': 'nosniff',
+    'Referrer-Policy': 'no-referrer',
+    'Cache-Control': 'private, max-age=300',
+  };
+}
+
+// Structured error page: the embedding ContentViewer listens for the postMessage,
+// other consumers can check the X-Proxy-Error header or the meta tag.
+function errorPage(code: ProxyErrorCode, message: string, targetUrl: string) {
+  const payload = JSON.stringify({
+    type: PROXY_ERROR_MESSAGE,
+    code,
+    message,
+    url: targetUrl,
+  }).replace(/</g, '\\u003c');
+
+  const externalLink = /^https?:\/\//i.test(targetUrl)
+    ? `<a href="${escapeHtml(targetUrl)}" target="_blank" rel="noopener noreferrer">Open in New Tab</a>`
+    : '';
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="${PROXY_ERROR_MESSAGE}" content="${code}">
+<title>Content Unavailable</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; background: #27272a; color: #a1a1aa; font-family: Inter, system-ui, sans-serif; text-align: center; }
+  h1 { color: #fff; font-size: 1.25rem; margin: 0 0 0.5rem; }
+  a { display: inline-block; margin-top: 1rem; padding: 0.5rem 1.25rem; border-radius: 9999px; background: #FF6D0E; color: #fff; text-decoration: none; }
+</style>
+</head>
+<body>
+<main>
+<h1>Content Unavailable</h1>
+<p>${escapeHtml(message)}</p>
+${externalLink}
+</main>
+<script>window.parent.postMessage(${payload}, '*');</script>
+</body>
+</html>`;
+
+  return new NextResponse(html, {
+    status: ERROR_STATUS[code],
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Content-Security-Policy': SANDBOX_POLICY,
+      'Cache-Control': 'no-store',
+      'X-Proxy-Error': code,
+    },
+  });
+}
+
+// Rewrite a fetched page so it renders from our origin: relative assets become
+// absolute, in-page links go back through the proxy, and frame-busting meta
+// tags are removed.
+function rewriteHtml(html: string, pageUrl: string, toProxyUrl: (url: string) => string): string {
+  // Honour an existing <base href> when resolving, then replace it with ours
+  const existingBase = html.match(/<base\b[^>]*\bhref\s*=\s*["']?([^"'\s>]+)/i);
+  const baseUrl = (existingBase && resolveUrl(decodeEntities(existingBase[1]), pageUrl)) || pageUrl;
+
+  let output = html
+    .replace(/<base\b[^>]*>/gi, '')
+    .replace(/<meta\b[^>]*http-equiv\s*=\s*["']?(content-security-policy|x-frame-options)["']?[^>]*>/gi, '');
+
+  output = output.replace(/<([a-z][a-z0-9-]*)\b([^>]*)>/gi, (tag, name: string, attributes: string) => {
+    const isLink = ['a', 'area'].includes(name.toLowerCase());
+
+    const rewritten = attributes.replace(
+      /(\s)(href|src|poster|action|data|srcset)(\s*=\s*)("[^"]*"|'[^']*'|[^\s"'>]+)/gi,
+      (match, space: string, attribute: string, equals: string, rawValue: string) => {
+        const quote = rawValue[0] === '"' || rawValue[0] === "'" ? rawValue[0] : '"';
+        const value = decodeEntities(rawValue.replace(/^["']|["']$/g, ''));
+        const attr = attribute.toLowerCase();
+
+        let newValue: string | null;
+        if (attr === 'srcset') {
+          newValue = value
+            .split(',')
+            .map(candidate => {
+              const [candidateUrl, ...descriptors] = candidate.trim().split(/\s+/);
+              const absolute = resolveUrl(candidateUrl, baseUrl);
+              return [absolute || candidateUrl, ...descriptors].join(' ');
+            })
+            .join(', ');
+        } else if (attr === 'href' && isLink) {
+          const absolute = resolveUrl(value, baseUrl);
+          newValue = absolute ? toProxyUrl(absolute) : null;
+        } else {
+          newValue = resolveUrl(value, baseUrl);
+        }
+
+        if (newValue === null) return match;
+        return `${space}${attribute}${equals}${quote}${escapeAttribute(newValue, quote)}${quote}`;
+      }
+    );
+
+    return `<${name}${rewritten}>`;
+  });
+
+  const baseTag = `<base href="${escapeAttribute(baseUrl, '"')}">`;
+  if (/<head\b[^>]*>/i.test(output)) {
+    return output.replace(/<head\b[^>]*>/i, (head) => `${head}${baseTag}`);
+  }
+  return `${baseTag}${output}`;
+}
+
+// Resolve a possibly-relative URL; returns null for fragments and non-http schemes
+function resolveUrl(value: string, base: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed.startsWith('#') || /^(javascript|mailto|tel|data|blob|about):/i.test(trimmed)) {
+    return null;
+  }
+
+  try {
+    const url = new URL(trimmed, base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&amp;/gi, '&')
+    .replace(/&#38;/g, '&')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/g, "'");
+}
+
+function escapeAttribute(value: string, quote: string): string {
+  const escaped = value.replace(/&/g, '&amp;');
+  return quote === "'" ? escaped.replace(/'/g, '&#39;') : escaped.replace(/"/g, '&quot;');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
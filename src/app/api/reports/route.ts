@@ -0,0 +1,327 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, createServiceClient } from '@/lib/supabase';
+import { requireAdmin } from '@/lib/admin';
+import { z } from 'zod';
+
+// Validation schemas
+const ReportReasonSchema = z.enum(['spam', 'inappropriate', 'broken_link', 'duplicate', 'other']);
+
+const CreateReportSchema = z.object({
+  resource_id: z.string().uuid(),
+  reason: ReportReasonSchema,
+  description: z.string().max(500).optional(),
+});
+
+const ReportsQuerySchema = z.object({
+  status: z.enum(['pending', 'reviewed', 'resolved', 'dismissed', 'all']).optional(),
+  reason: ReportReasonSchema.optional(),
+  resource_id: z.string().uuid().optional(),
+  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(100)).optional(),
+  offset: z.string().transform(Number).pipe(z.number().int().min(0)).optional(),
+});
+
+const ReviewReportSchema = z.object({
+  id: z.string().uuid(),
+  status: z.enum(['reviewed', 'resolved', 'dismissed']),
+  admin_notes: z.string().max(1000).optional(),
+});
+
+const REPORTS_PER_HOUR = 10;
+const DEFAULT_AUTO_HIDE_THRESHOLD = 3;
+
+// POST /api/reports - Report a resource
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const reportData = CreateReportSchema.parse(body);
+
+    const supabase = createServerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Check if resource exists
+    const { data: resource } = await supabase
+      .from('resources')
+      .select('id')
+      .eq('id', reportData.resource_id)
+      .single();
+
+    if (!resource) {
+      return NextResponse.json(
+        { error: 'Resource not found' },
+        { status: 404 }
+      );
+    }
+
+    // Rate limit reports per user
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const { count: recentReports } = await supabase
+      .from('reports')
+      .select('*', { count: 'exact', head: true })
+      .eq('reported_by', user.id)
+      .gte('created_at', oneHourAgo);
+
+    if ((recentReports || 0) >= REPORTS_PER_HOUR) {
+      return NextResponse.json(
+        { error: 'Too many reports. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    // Insert report (one open report per user per resource)
+    const { data: report, error: insertError } = await supabase
+      .from('reports')
+      .insert({
+        resource_id: reportData.resource_id,
+        reported_by: user.id,
+        reason: reportData.reason,
+        description: reportData.description || null,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        return NextResponse.json(
+          { error: 'You have already reported this resource' },
+          { status: 409 }
+        );
+      }
+
+      console.error('Error creating report:', insertError);
+      return NextResponse.json(
+        { error: 'Failed to submit report' },
+        { status: 500 }
+      );
+    }
+
+    await applyReportThreshold(reportData.resource_id, reportData.reason);
+
+    return NextResponse.json({
+      data: report,
+      message: 'Report submitted. Thanks for helping keep Stumble Higher clean.',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Report creation error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid report data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/reports - List reports (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = ReportsQuerySchema.parse(Object.fromEntries(searchParams));
+    const status = query.status ?? 'pending';
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
+
+    const adminId = await requireAdmin();
+    if (adminId instanceof NextResponse) {
+      return adminId;
+    }
+
+    // Reports are only visible to their reporters under RLS
+    const supabase = createServiceClient();
+
+    let dbQuery = supabase
+      .from('reports')
+      .select(`
+        *,
+        resource:resources(id, title, url, category, status),
+        reporter:users!reports_reported_by_fkey(id, username, display_name, avatar_url),
+        reviewer:users!reports_reviewed_by_fkey(id, username, display_name)
+      `, { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (status !== 'all') dbQuery = dbQuery.eq('status', status);
+    if (query.reason) dbQuery = dbQuery.eq('reason', query.reason);
+    if (query.resource_id) dbQuery = dbQuery.eq('resource_id', query.resource_id);
+
+    const { data: reports, count, error } = await dbQuery;
+
+    if (error) {
+      console.error('Error fetching reports:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch reports' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      data: reports || [],
+      pagination: {
+        total: count || 0,
+        offset,
+        limit,
+        hasMore: (offset + limit) < (count || 0),
+      },
+    });
+  } catch (error) {
+    console.error('Reports GET error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/reports - Resolve or dismiss a report (admin only)
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const reviewData = ReviewReportSchema.parse(body);
+
+    const adminId = await requireAdmin();
+    if (adminId instanceof NextResponse) {
+      return adminId;
+    }
+
+    const supabase = createServiceClient();
+
+    const { data: report, error: updateError } = await supabase
+      .from('reports')
+      .update({
+        status: reviewData.status,
+        admin_notes: reviewData.admin_notes || null,
+        reviewed_by: adminId,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', reviewData.id)
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Error updating report:', updateError);
+      return NextResponse.json(
+        { error: 'Failed to update report' },
+        { status: 500 }
+      );
+    }
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Report not found' },
+        { status: 404 }
+      );
+    }
+
+    // Log admin action
+    await supabase
+      .from('admin_actions')
+      .insert({
+        admin_id: adminId,
+        action: `report_${reviewData.status}`,
+        target_type: 'report',
+        target_id: report.id,
+        metadata: {
+          resource_id: report.resource_id,
+          reason: report.reason,
+          admin_notes: reviewData.admin_notes || null,
+        },
+      });
+
+    return NextResponse.json({
+      data: report,
+      message: `Report ${reviewData.status}`,
+    });
+  } catch (error) {
+    console.error('Report update error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid review data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Hide a resource once enough distinct users report it for the same reason.
+// Dismissed reports don't count towards the threshold.
+async function applyReportThreshold(resourceId: string, reason: string) {
+  const supabase = createServiceClient();
+
+  const { data: config } = await supabase
+    .from('system_config')
+    .select('value')
+    .eq('key', 'report_auto_hide_threshold')
+    .single();
+
+  const threshold = Number(config?.value) || DEFAULT_AUTO_HIDE_THRESHOLD;
+
+  // Only unresolved reports count, so a resource an admin has reviewed and restored isn't re-hidden by the next one
+  const { data: reports, error } = await supabase
+    .from('reports')
+    .select('reported_by')
+    .eq('resource_id', resourceId)
+    .eq('reason', reason)
+    .eq('status', 'pending');
+
+  if (error) {
+    console.error('Error counting reports:', error);
+    return;
+  }
+
+  const reporterCount = new Set((reports || []).map((r: { reported_by: string }) => r.reported_by)).size;
+  if (reporterCount < threshold) {
+    return;
+  }
+
+  // Only live or pending resources are hidden, and only once; the status check
+  // also keeps concurrent reports from double-logging
+  const { data: hidden } = await supabase
+    .from('resources')
+    .update({
+      status: 'hidden',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', resourceId)
+    .in('status', ['approved', 'pending'])
+    .select('id');
+
+  if (!hidden || hidden.length === 0) {
+    return;
+  }
+
+  await supabase
+    .from('admin_actions')
+    .insert({
+      admin_id: null,
+      action: 'resource_auto_hidden',
+      target_type: 'resource',
+      target_id: resourceId,
+      metadata: { reason, report_count: reporterCount, threshold },
+    });
+}
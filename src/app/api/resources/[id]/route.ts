@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { withFavoriteStatus } from '@/lib/favorites';
+import { z } from 'zod';
+
+// Rejected and hidden content isn't publicly viewable
+const PUBLIC_STATUSES = ['approved', 'pending'];
+
+// GET /api/resources/[id] - Fetch a single public resource with the user's vote and favorite
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const resourceId = z.string().uuid().parse(params.id);
+
+    const supabase = createServerClient();
+
+    const { data: resource, error } = await supabase
+      .from('resources')
+      .select(`
+        *,
+        submitted_by:users(id, username, display_name, avatar_url, reputation_score)
+      `)
+      .eq('id', resourceId)
+      .in('status', PUBLIC_STATUSES)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching resource:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch resource' },
+        { status: 500 }
+      );
+    }
+
+    if (!resource) {
+      return NextResponse.json(
+        { error: 'Resource not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    let userVote: string | null = null;
+    if (user) {
+      const { data: vote } = await supabase
+        .from('votes')
+        .select('vote_type')
+        .eq('user_id', user.id)
+        .eq('resource_id', resourceId)
+        .maybeSingle();
+
+      userVote = vote?.vote_type ?? null;
+    }
+
+    const [withFavorite] = await withFavoriteStatus(supabase, user?.id, [resource]);
+
+    return NextResponse.json({
+      data: { ...withFavorite, user_vote: userVote },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid resource ID', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Resource GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { withFavoriteStatus } from '@/lib/favorites';
+import { getSimilarResources } from '@/lib/similar';
+import { z } from 'zod';
+
+// Validation schemas
+const SimilarQuerySchema = z.object({
+  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(20)).optional(),
+});
+
+// Rejected and hidden content isn't publicly viewable
+const PUBLIC_STATUSES = ['approved', 'pending'];
+
+// GET /api/resources/[id]/similar - Resources liked by the same people, or sharing tags and category
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const resourceId = z.string().uuid().parse(params.id);
+    const { searchParams } = new URL(request.url);
+    const query = SimilarQuerySchema.parse(
+      Object.fromEntries(Array.from(searchParams.entries()).filter(([, v]) => v !== ''))
+    );
+    const limit = query.limit ?? 6;
+
+    const supabase = createServerClient();
+
+    const { data: resource, error } = await supabase
+      .from('resources')
+      .select('id, tags, category')
+      .eq('id', resourceId)
+      .in('status', PUBLIC_STATUSES)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching resource:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch resource' },
+        { status: 500 }
+      );
+    }
+
+    if (!resource) {
+      return NextResponse.json(
+        { error: 'Resource not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const similar = await getSimilarResources(supabase, resource, limit);
+
+    return NextResponse.json({
+      data: await withFavoriteStatus(supabase, user?.id, similar),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Similar resources error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient, createServiceClient } from '@/lib/supabase';
+import { verifySubmissionPayment } from '@/lib/onchain';
+import { isHash } from 'viem';
+import { withFavoriteStatus } from '@/lib/favorites';
+import { canonicalizeUrl } from '@/lib/canonical-url';
+import { findNearDuplicate } from '@/lib/duplicates';
 import { z } from 'zod';
 
 // Validation schemas
@@ -12,8 +17,7 @@ const ResourceSubmissionSchema = z.object({
   tags: z.array(z.string()).max(10).optional(),
   difficulty_level: z.enum(['beginner', 'intermediate', 'advanced']).optional(),
   estimated_time_minutes: z.number().int().min(1).max(10080).optional(), // Max 1 week
-  submission_tx_hash: z.string().optional(),
-  submission_amount: z.number().optional(),
+  submission_tx_hash: z.string().optional(), // Required unless the submitter is an admin
 });
 
 const ResourcesQuerySchema = z.object({
@@ -67,10 +71,8 @@ export async function GET(request: NextRequest) {
     }
 
     if (query.search) {
-      // Full-text search on title, description, and author
-      dbQuery = dbQuery.or(
-        `title.ilike.%${query.search}%,description.ilike.%${query.search}%,author.ilike.%${query.search}%`
-      );
+      // Full-text search on title, author, tags and description (ranked search lives at /api/search)
+      dbQuery = dbQuery.textSearch('search_vector', query.search, { type: 'websearch', config: 'english' });
     }
 
     // Apply ordering
@@ -103,9 +105,7 @@ export async function GET(request: NextRequest) {
     if (query.difficulty) countQuery = countQuery.eq('difficulty_level', query.difficulty);
     if (query.featured !== undefined) countQuery = countQuery.eq('featured', query.featured);
     if (query.search) {
-      countQuery = countQuery.or(
-        `title.ilike.%${query.search}%,description.ilike.%${query.search}%,author.ilike.%${query.search}%`
-      );
+      countQuery = countQuery.textSearch('search_vector', query.search, { type: 'websearch', config: 'english' });
     }
 
     const { count } = await countQuery;
@@ -120,8 +120,10 @@ export async function GET(request: NextRequest) {
       user_vote: resource.user_vote?.[0]?.vote_type || null,
     })) || [];
 
+    const { data: { user } } = await supabase.auth.getUser();
+
     return NextResponse.json({
-      data: processedResources,
+      data: await withFavoriteStatus(supabase, user?.id, processedResources),
       pagination: {
         total: count || 0,
         offset: query.offset,
@@ -163,32 +165,53 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if URL already exists
+    // Check if the URL already exists, ignoring tracking params, www., share-link variants etc.
+    const canonicalUrl = canonicalizeUrl(resourceData.url);
     const { data: existingResource } = await supabase
       .from('resources')
       .select('id')
-      .eq('url', resourceData.url)
-      .single();
+      .eq('canonical_url', canonicalUrl)
+      .maybeSingle();
 
     if (existingResource) {
       return NextResponse.json(
-        { error: 'Resource with this URL already exists' },
+        { error: 'Resource with this URL already exists', existing_id: existingResource.id },
         { status: 409 }
       );
     }
 
-    // Verify transaction hash if provided (for paid submissions)
+    // Same work from another mirror goes to moderators instead of being rejected
+    const nearDuplicate = await findNearDuplicate(supabase, resourceData);
+
+    // Every non-admin submission must be paid for; the amount recorded is what was transferred
+    let submissionAmount = 0;
     if (resourceData.submission_tx_hash) {
-      const isValidTx = await verifySubmissionTransaction(
+      const verification = await verifySubmissionTransaction(
+        supabase,
         resourceData.submission_tx_hash,
-        user.id,
-        resourceData.submission_amount || 1000
+        user.id
       );
 
-      if (!isValidTx) {
+      if (!verification.valid) {
+        return NextResponse.json(
+          { error: 'Invalid or unverified transaction', details: verification.message },
+          { status: verification.status }
+        );
+      }
+
+      resourceData.submission_tx_hash = resourceData.submission_tx_hash.toLowerCase();
+      submissionAmount = verification.amount;
+    } else {
+      const { data: profile } = await supabase
+        .from('users')
+        .select('is_admin')
+        .eq('id', user.id)
+        .single();
+
+      if (!profile?.is_admin) {
         return NextResponse.json(
-          { error: 'Invalid or unverified transaction' },
-          { status: 400 }
+          { error: 'Payment required', details: 'Include the transaction hash of your $HIGHER submission payment' },
+          { status: 402 }
         );
       }
     }
@@ -198,8 +221,10 @@ export async function POST(request: NextRequest) {
       .from('resources')
       .insert({
         ...resourceData,
+        canonical_url: canonicalUrl,
+        possible_duplicate_of: nearDuplicate?.id ?? null,
         submitted_by: user.id,
-        submission_amount: resourceData.submission_amount || 1000,
+        submission_amount: submissionAmount,
       })
       .select(`
         *,
@@ -208,6 +233,21 @@ export async function POST(request: NextRequest) {
       .single();
 
     if (insertError) {
+      // Unique indexes on canonical_url and submission_tx_hash guard against concurrent submissions
+      if (insertError.code === '23505' && insertError.message.includes('canonical_url')) {
+        return NextResponse.json(
+          { error: 'Resource with this URL already exists' },
+          { status: 409 }
+        );
+      }
+
+      if (insertError.code === '23505') {
+        return NextResponse.json(
+          { error: 'Transaction has already been used for a submission' },
+          { status: 409 }
+        );
+      }
+
       console.error('Error creating resource:', insertError);
       return NextResponse.json(
         { error: 'Failed to create resource' },
@@ -234,13 +274,16 @@ export async function POST(request: NextRequest) {
         properties: {
           category: resourceData.category,
           has_payment: !!resourceData.submission_tx_hash,
-          submission_amount: resourceData.submission_amount || 1000,
+          submission_amount: submissionAmount,
+          possible_duplicate_of: nearDuplicate?.id,
         },
       });
 
     return NextResponse.json({
       data: newResource,
-      message: 'Resource submitted successfully',
+      message: nearDuplicate
+        ? `Resource submitted. It looks similar to "${nearDuplicate.title}", so a moderator will take a look.`
+        : 'Resource submitted successfully',
     }, { status: 201 });
   } catch (error) {
     console.error('Resource submission error:', error);
@@ -261,66 +304,61 @@ export async function POST(request: NextRequest) {
 
 // Verify submission transaction on blockchain
 async function verifySubmissionTransaction(
+  supabase: ReturnType<typeof createServerClient>,
   txHash: string,
-  userId: string,
-  expectedAmount: number
-): Promise<boolean> {
+  userId: string
+): Promise<{ valid: true; amount: number } | { valid: false; status: number; message: string }> {
   try {
-    // This would verify the transaction on the blockchain
-    // For now, we'll assume it's valid if the hash looks correct
-
-    if (!txHash.match(/^0x[a-fA-F0-9]{64}$/)) {
-      return false; // Invalid hash format
+    // Validate before querying; hashes are stored lowercased
+    if (!isHash(txHash)) {
+      return { valid: false, status: 400, message: 'Invalid transaction hash' };
     }
 
-    // TODO: Implement actual blockchain verification
-    // 1. Connect to RPC endpoint
-    // 2. Get transaction receipt
-    // 3. Verify transaction was to our contract
-    // 4. Verify amount matches expected
-    // 5. Verify transaction is confirmed
-    // 6. Check that transaction hasn't been used before
+    // Payment must come from the submitter's linked wallet
+    const { data: profile } = await supabase
+      .from('users')
+      .select('eth_address')
+      .eq('id', userId)
+      .single();
 
-    // For development, return true
-    return true;
-  } catch (error) {
-    console.error('Error verifying transaction:', error);
-    return false;
-  }
-}
+    if (!profile?.eth_address) {
+      return { valid: false, status: 400, message: 'Link a wallet to your account before paying for submissions' };
+    }
 
-// Helper function to extract content metadata from URL
-async function extractContentMetadata(url: string) {
-  try {
-    // This would extract metadata like title, description, etc. from the URL
-    // Could use services like Embedly, or scrape meta tags
+    const { data: costConfig } = await supabase
+      .from('system_config')
+      .select('value')
+      .eq('key', 'submission_cost')
+      .single();
 
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Stumble Higher Bot 1.0',
+    const submissionCost = Number(costConfig?.value) || 1000;
+
+    const result = await verifySubmissionPayment({
+      txHash,
+      from: profile.eth_address,
+      minAmount: submissionCost,
+      // Each payment covers one submission
+      isUsed: async (hash) => {
+        const { data: usedBy } = await supabase
+          .from('resources')
+          .select('id')
+          .eq('submission_tx_hash', hash.toLowerCase())
+          .limit(1);
+        return Boolean(usedBy && usedBy.length > 0);
       },
-      signal: AbortSignal.timeout(5000), // 5 second timeout
     });
 
-    if (!response.ok) {
-      return null;
+    if (!result.valid) {
+      const status =
+        result.reason === 'already_used' ? 409 :
+        result.reason === 'rpc_error' || result.reason === 'not_configured' ? 503 : 400;
+      return { valid: false, status, message: result.message };
     }
 
-    const html = await response.text();
-
-    // Extract basic meta tags
-    const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-    const descriptionMatch = html.match(/<meta[^>]*name="description"[^>]*content="([^"]*)"[^>]*>/i);
-    const ogTitleMatch = html.match(/<meta[^>]*property="og:title"[^>]*content="([^"]*)"[^>]*>/i);
-    const ogDescriptionMatch = html.match(/<meta[^>]*property="og:description"[^>]*content="([^"]*)"[^>]*>/i);
-
-    return {
-      title: ogTitleMatch?.[1] || titleMatch?.[1] || '',
-      description: ogDescriptionMatch?.[1] || descriptionMatch?.[1] || '',
-    };
+    return { valid: true, amount: Number(result.tokens) };
   } catch (error) {
-    console.error('Error extracting metadata:', error);
-    return null;
+    console.error('Error verifying transaction:', error);
+    return { valid: false, status: 500, message: 'Transaction verification failed' };
   }
 }
 
@@ -368,6 +406,7 @@ export async function PATCH(request: NextRequest) {
       .from('resources')
       .update({
         ...body,
+        ...(typeof body.url === 'string' ? { canonical_url: canonicalizeUrl(body.url) } : {}),
         updated_at: new Date().toISOString(),
       })
       .eq('id', resourceId)
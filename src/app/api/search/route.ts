@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { withFavoriteStatus } from '@/lib/favorites';
+import { Database, Resource, SearchFacets } from '@/types/database';
+import { z } from 'zod';
+
+type SearchMatch = Database['public']['Functions']['search_resources']['Returns'][number];
+type FacetRow = Database['public']['Functions']['search_resource_facets']['Returns'][number];
+
+// Validation schemas
+const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  category: z.enum(['books', 'articles', 'videos', 'tools', 'research', 'philosophy']).optional(),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']).optional(),
+  max_time: z.string().transform(Number).pipe(z.number().int().min(1).max(10080)).optional(),
+  tags: z.string().optional(), // Comma-separated
+  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(50)).optional(),
+  offset: z.string().transform(Number).pipe(z.number().int().min(0)).optional(),
+});
+
+// GET /api/search - Ranked full-text search with highlights and facet counts
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    // Empty params (e.g. category=) mean "no filter"
+    const params = Object.fromEntries(
+      Array.from(searchParams.entries()).filter(([, value]) => value !== '')
+    );
+    const query = SearchQuerySchema.parse(params);
+    const limit = query.limit ?? 20;
+    const offset = query.offset ?? 0;
+    const tags = query.tags?.split(',').map(tag => tag.trim()).filter(Boolean);
+
+    const filters = {
+      search_query: query.q,
+      filter_category: query.category ?? null,
+      filter_difficulty: query.difficulty ?? null,
+      max_time: query.max_time ?? null,
+      filter_tags: tags && tags.length > 0 ? tags : null,
+    };
+
+    const supabase = createServerClient();
+
+    // Facet counts narrow with the active filters, like the results do
+    const [{ data: matches, error: searchError }, { data: facetRows, error: facetError }] = await Promise.all([
+      supabase.rpc('search_resources', { ...filters, limit_count: limit, offset_count: offset }),
+      supabase.rpc('search_resource_facets', filters),
+    ]);
+
+    if (searchError || facetError) {
+      console.error('Error searching resources:', searchError || facetError);
+      return NextResponse.json(
+        { error: 'Search failed' },
+        { status: 500 }
+      );
+    }
+
+    const ranked = (matches || []) as SearchMatch[];
+    const ids = ranked.map(match => match.resource_id);
+    const total = ranked.length > 0 ? Number(ranked[0].total_count) : 0;
+
+    let results: any[] = [];
+    if (ids.length > 0) {
+      const { data: resources, error } = await supabase
+        .from('resources')
+        .select(`
+          *,
+          submitted_by:users(id, username, display_name, avatar_url, reputation_score)
+        `)
+        .in('id', ids);
+
+      if (error) {
+        console.error('Error fetching search results:', error);
+        return NextResponse.json(
+          { error: 'Search failed' },
+          { status: 500 }
+        );
+      }
+
+      // Keep the RPC's rank order and attach the highlights
+      const byId = new Map(((resources || []) as Resource[]).map(resource => [resource.id, resource]));
+      results = ranked
+        .filter(match => byId.has(match.resource_id))
+        .map(match => {
+          const { search_vector, ...resource } = byId.get(match.resource_id)!;
+          return {
+            ...resource,
+            search: {
+              rank: match.search_rank,
+              title_highlight: match.title_highlight,
+              snippet: match.snippet,
+            },
+          };
+        });
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    return NextResponse.json({
+      data: await withFavoriteStatus(supabase, user?.id, results),
+      facets: groupFacets((facetRows || []) as FacetRow[]),
+      pagination: {
+        total,
+        offset,
+        limit,
+        hasMore: (offset + limit) < total,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid search parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Search error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Group the facet RPC's flat rows by facet, largest counts first (time stays in bucket order)
+function groupFacets(rows: FacetRow[]): SearchFacets {
+  const facets: SearchFacets = { category: [], difficulty: [], time: [], tag: [] };
+
+  rows.forEach(row => {
+    const facet = facets[row.facet as keyof SearchFacets];
+    if (facet && row.facet_value) {
+      facet.push({ value: row.facet_value, count: Number(row.match_count) });
+    }
+  });
+
+  facets.category.sort((a, b) => b.count - a.count);
+  facets.difficulty.sort((a, b) => b.count - a.count);
+  facets.tag.sort((a, b) => b.count - a.count);
+  facets.time.sort((a, b) => Number(a.value) - Number(b.value));
+
+  return facets;
+}
@@ -0,0 +1,315 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { FavoritedResource, FavoriteWithResource } from '@/types/database';
+import { z } from 'zod';
+
+// Validation schemas
+const FavoriteSchema = z.object({
+  resource_id: z.string().uuid(),
+});
+
+const FavoritesQuerySchema = z.object({
+  category: z.enum(['books', 'articles', 'videos', 'tools', 'research', 'philosophy']).optional(),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']).optional(),
+  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(100)).optional(),
+  offset: z.string().transform(Number).pipe(z.number().int().min(0)).optional(),
+  format: z.enum(['json', 'csv']).optional(), // Set to export the whole library as a download
+});
+
+const FAVORITE_RESOURCE_SELECT = `
+  id,
+  created_at,
+  resource:resources!inner(
+    *,
+    submitted_by:users(id, username, display_name, avatar_url, reputation_score)
+  )
+`;
+
+const EXPORT_PAGE_SIZE = 1000;
+
+// GET /api/user/favorites - List the current user's favorites (or export them)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = FavoritesQuerySchema.parse(Object.fromEntries(searchParams));
+    const limit = query.limit ?? 20;
+    const offset = query.offset ?? 0;
+
+    const supabase = createServerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const buildQuery = () => {
+      let dbQuery = supabase
+        .from('favorites')
+        .select(FAVORITE_RESOURCE_SELECT, { count: 'exact' })
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false }); // Stable order so export pages don't overlap
+
+      // Filters apply to the joined resource
+      if (query.category) dbQuery = dbQuery.eq('resource.category', query.category);
+      if (query.difficulty) dbQuery = dbQuery.eq('resource.difficulty_level', query.difficulty);
+
+      return dbQuery;
+    };
+
+    if (query.format) {
+      // Page through the whole library; a single request is capped by the API's max rows
+      const rows: FavoriteWithResource[] = [];
+      for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+        const { data: page, error } = await buildQuery().range(from, from + EXPORT_PAGE_SIZE - 1);
+
+        if (error) {
+          console.error('Error exporting favorites:', error);
+          return NextResponse.json(
+            { error: 'Failed to export favorites' },
+            { status: 500 }
+          );
+        }
+
+        rows.push(...((page || []) as FavoriteWithResource[]));
+        if (!page || page.length < EXPORT_PAGE_SIZE) break;
+      }
+
+      return exportFavorites(rows.map(toFavoritedResource), query.format);
+    }
+
+    const { data: favorites, count, error } = await buildQuery().range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('Error fetching favorites:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch favorites' },
+        { status: 500 }
+      );
+    }
+
+    const resources = ((favorites || []) as FavoriteWithResource[]).map(toFavoritedResource);
+
+    return NextResponse.json({
+      data: resources,
+      pagination: {
+        total: count || 0,
+        offset,
+        limit,
+        hasMore: (offset + limit) < (count || 0),
+      },
+    });
+  } catch (error) {
+    console.error('Favorites GET error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/user/favorites - Toggle a resource in the current user's favorites
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { resource_id } = FavoriteSchema.parse(body);
+
+    const supabase = createServerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Check if resource exists
+    const { data: resource } = await supabase
+      .from('resources')
+      .select('id')
+      .eq('id', resource_id)
+      .single();
+
+    if (!resource) {
+      return NextResponse.json(
+        { error: 'Resource not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check if already favorited
+    const { data: existing } = await supabase
+      .from('favorites')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('resource_id', resource_id)
+      .maybeSingle();
+
+    if (existing) {
+      const { error: deleteError } = await supabase
+        .from('favorites')
+        .delete()
+        .eq('id', existing.id);
+
+      if (deleteError) {
+        console.error('Error removing favorite:', deleteError);
+        return NextResponse.json(
+          { error: 'Failed to update favorites' },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({
+        favorited: false,
+        message: 'Removed from favorites',
+      });
+    }
+
+    const { error: insertError } = await supabase
+      .from('favorites')
+      .insert({ user_id: user.id, resource_id });
+
+    // A concurrent toggle may have inserted it already
+    if (insertError && insertError.code !== '23505') {
+      console.error('Error adding favorite:', insertError);
+      return NextResponse.json(
+        { error: 'Failed to update favorites' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      favorited: true,
+      message: 'Added to favorites',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Favorites POST error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid favorite data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/user/favorites - Remove a resource from the current user's favorites
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { resource_id } = FavoriteSchema.parse({ resource_id: searchParams.get('resource_id') });
+
+    const supabase = createServerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { error: deleteError } = await supabase
+      .from('favorites')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('resource_id', resource_id);
+
+    if (deleteError) {
+      console.error('Error removing favorite:', deleteError);
+      return NextResponse.json(
+        { error: 'Failed to remove favorite' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      favorited: false,
+      message: 'Removed from favorites',
+    });
+  } catch (error) {
+    console.error('Favorites DELETE error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Resource ID required', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Flatten a favorites row into its resource
+function toFavoritedResource(favorite: FavoriteWithResource): FavoritedResource {
+  return {
+    ...favorite.resource,
+    is_favorited: true,
+    favorited_at: favorite.created_at,
+  };
+}
+
+// Build a downloadable export of the user's favorites
+function exportFavorites(resources: FavoritedResource[], format: 'json' | 'csv') {
+  const date = new Date().toISOString().slice(0, 10);
+
+  const rows = resources.map(resource => ({
+    title: resource.title,
+    author: resource.author || '',
+    url: resource.url,
+    category: resource.category,
+    difficulty_level: resource.difficulty_level || '',
+    tags: (resource.tags || []).join(';'),
+    favorited_at: resource.favorited_at,
+  }));
+
+  if (format === 'json') {
+    return new NextResponse(JSON.stringify(rows, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="stumble-higher-library-${date}.json"`,
+      },
+    });
+  }
+
+  const columns = ['title', 'author', 'url', 'category', 'difficulty_level', 'tags', 'favorited_at'] as const;
+  const csv = [
+    columns.join(','),
+    ...rows.map(row => columns.map(column => escapeCsv(String(row[column] ?? ''))).join(',')),
+  ].join('\n');
+
+  return new NextResponse(csv, {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="stumble-higher-library-${date}.csv"`,
+    },
+  });
+}
+
+// Quote CSV fields and neutralise spreadsheet formulas
+function escapeCsv(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { DIFFICULTY_LEVELS, RESOURCE_CATEGORIES } from '@/lib/stumble-filters';
+import { z } from 'zod';
+
+// Validation schemas
+const CATEGORY_OVERLAP_ISSUE = {
+  message: 'A category cannot be both preferred and excluded',
+  path: ['excluded_categories'],
+};
+
+const CategorySchema = z.enum(RESOURCE_CATEGORIES as [string, ...string[]]);
+const DifficultySchema = z.enum(DIFFICULTY_LEVELS as [string, ...string[]]);
+const TimeSchema = z.number().int().min(1).max(10080);
+
+const PreferencesUpdateSchema = z.object({
+  preferred_categories: z.array(CategorySchema).max(RESOURCE_CATEGORIES.length),
+  excluded_categories: z.array(CategorySchema).max(RESOURCE_CATEGORIES.length),
+  preferred_difficulty: DifficultySchema.nullable(), // null: any
+  max_time_minutes: TimeSchema.nullable(), // null: no limit
+  hide_videos: z.boolean(),
+  hide_long_content: z.boolean(),
+  discovery_algorithm: z.enum(['balanced', 'popular', 'recent', 'personalized']),
+  notification_settings: z.object({
+    email: z.boolean(),
+    push: z.boolean(),
+  }),
+}).partial().strict().refine(
+  prefs => !categoriesOverlap(prefs.preferred_categories, prefs.excluded_categories),
+  CATEGORY_OVERLAP_ISSUE
+);
+
+// GET /api/user/preferences - Get the current user's preferences, creating defaults if needed
+export async function GET() {
+  try {
+    const supabase = createServerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { data: existing, error } = await supabase
+      .from('user_preferences')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching preferences:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch preferences' },
+        { status: 500 }
+      );
+    }
+
+    if (existing) {
+      return NextResponse.json({ data: existing });
+    }
+
+    // Column defaults fill in everything else
+    const { data: created, error: createError } = await supabase
+      .from('user_preferences')
+      .insert({ user_id: user.id })
+      .select()
+      .single();
+
+    if (createError) {
+      console.error('Error creating preferences:', createError);
+      return NextResponse.json(
+        { error: 'Failed to create preferences' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: created });
+  } catch (error) {
+    console.error('Preferences GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/user/preferences - Update some or all of the current user's preferences
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const updates = PreferencesUpdateSchema.parse(body);
+
+    const supabase = createServerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // A PATCH with only one of the lists must not overlap the stored other one
+    if (!updates.preferred_categories !== !updates.excluded_categories) {
+      const { data: stored, error: storedError } = await supabase
+        .from('user_preferences')
+        .select('preferred_categories, excluded_categories')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (storedError) {
+        console.error('Error fetching preferences:', storedError);
+        return NextResponse.json(
+          { error: 'Failed to update preferences' },
+          { status: 500 }
+        );
+      }
+
+      const preferred = updates.preferred_categories ?? stored?.preferred_categories;
+      const excluded = updates.excluded_categories ?? stored?.excluded_categories;
+      if (categoriesOverlap(preferred, excluded)) {
+        throw new z.ZodError([{ code: z.ZodIssueCode.custom, ...CATEGORY_OVERLAP_ISSUE }]);
+      }
+    }
+
+    const { data: preferences, error } = await supabase
+      .from('user_preferences')
+      .upsert({
+        ...updates,
+        user_id: user.id,
+      }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating preferences:', error);
+      return NextResponse.json(
+        { error: 'Failed to update preferences' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      data: preferences,
+      message: 'Preferences updated',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid preferences', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Preferences PATCH error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+function categoriesOverlap(preferred?: string[] | null, excluded?: string[] | null): boolean {
+  return !!preferred && !!excluded && preferred.some(category => excluded.indexOf(category) !== -1);
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
+import { getVoteSummary } from '@/lib/votes';
 import { z } from 'zod';
 
 // Validation schemas
@@ -278,45 +279,10 @@ export async function GET(request: NextRequest) {
       });
     } else if (query.resource_id) {
       // Get vote summary for a resource
-      const { data: qualityData } = await supabase
-        .rpc('calculate_quality_score', { resource_id: query.resource_id });
-
-      if (!qualityData || qualityData.length === 0) {
-        return NextResponse.json({
-          data: {
-            upvotes: 0,
-            downvotes: 0,
-            weighted_score: 0,
-            voter_count: 0,
-          },
-        });
-      }
-
-      const scoreResult = qualityData[0];
-
-      // Get recent voters for display
-      const { data: recentVoters } = await supabase
-        .from('votes')
-        .select(`
-          vote_type,
-          weight,
-          created_at,
-          user:users(username, display_name, avatar_url, reputation_score)
-        `)
-        .eq('resource_id', query.resource_id)
-        .order('created_at', { ascending: false })
-        .limit(10);
+      const summary = await getVoteSummary(supabase, query.resource_id);
 
       return NextResponse.json({
-        data: {
-          upvotes: scoreResult.upvotes,
-          downvotes: scoreResult.downvotes,
-          weighted_score: scoreResult.weighted_score,
-          voter_count: scoreResult.voter_count,
-          should_auto_approve: scoreResult.should_auto_approve,
-          should_auto_hide: scoreResult.should_auto_hide,
-          recent_voters: recentVoters || [],
-        },
+        data: summary,
       });
     } else if (query.user_id) {
       // Get user's recent votes
@@ -0,0 +1,377 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '@/providers/AuthProvider';
+import { useAnalytics } from '@/providers/AnalyticsProvider';
+import { useToast } from '@/providers/ToastProvider';
+import { CategoryBadge } from '@/components/resources/CategoryBadge';
+import { VoteButtons } from '@/components/resources/VoteButtons';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { ResourceCategory, ResourceWithVotes } from '@/types/database';
+import {
+  FrameContext,
+  FrameSdk,
+  waitForFrameSdk,
+  getFrameContext,
+  getFarcasterAuthData,
+} from '@/lib/frame-sdk';
+import { SITE_URL } from '@/lib/site';
+import { ExternalLink, Heart, Share2 } from 'lucide-react';
+
+export default function FramePage() {
+  const { user, isAuthenticated, loading: authLoading, signIn } = useAuth();
+  const { track, trackResourceInteraction } = useAnalytics();
+  const { error: showError } = useToast();
+
+  const [sdk, setSdk] = useState<FrameSdk | undefined>();
+  const [frameContext, setFrameContext] = useState<FrameContext | undefined>();
+  const [resource, setResource] = useState<ResourceWithVotes | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [sessionId] = useState(() =>
+    Math.random().toString(36).substring(2, 15)
+  );
+
+  const algorithmUsed = useRef('personalized'); // Algorithm and source that picked the current resource
+  const readyCalled = useRef(false);
+  const signInAttempted = useRef(false);
+
+  // Record an interaction for the recommendation engine and analytics
+  const recordInteraction = useCallback(async (
+    resourceId: string,
+    interactionType: 'view' | 'click_through' | 'favorite' | 'share',
+    properties: Record<string, any> = {}
+  ) => {
+    try {
+      await fetch('/api/discover', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          resource_id: resourceId,
+          interaction_type: interactionType,
+          session_id: sessionId,
+          algorithm_used: algorithmUsed.current,
+        }),
+      });
+
+      trackResourceInteraction(resourceId, interactionType, {
+        session_id: sessionId,
+        source: 'frame',
+        ...properties,
+      });
+    } catch (err) {
+      console.error('Error tracking interaction:', err);
+    }
+  }, [sessionId, trackResourceInteraction]);
+
+  // Fetch next resource from discovery API
+  const fetchNextResource = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({
+        algorithm: 'personalized',
+        limit: '1', // Already-served resources are excluded by session_id
+        session_id: sessionId,
+      });
+
+      const response = await fetch(`/api/discover?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch resource');
+      }
+
+      if (!data.data || data.data.length === 0) {
+        throw new Error('No more resources available');
+      }
+
+      const next = data.data[0];
+      // Credit the source that picked it, like the stumble page, so bandit rewards land on the right arm
+      algorithmUsed.current = next.discovery_source
+        ? `${data.algorithm_used}:${next.discovery_source}`
+        : data.algorithm_used;
+      setResource(next);
+
+      track('stumble', {
+        algorithm_used: algorithmUsed.current,
+        resource_id: next.id,
+        session_id: sessionId,
+        source: 'frame',
+      });
+
+      recordInteraction(next.id, 'view');
+    } catch (err) {
+      console.error('Error fetching resource:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load content');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, track, recordInteraction]);
+
+  // Detect the Mini App SDK and read the client context
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const frameSdk = await waitForFrameSdk();
+      if (cancelled || !frameSdk) return;
+
+      setSdk(frameSdk);
+      const context = await getFrameContext(frameSdk);
+      if (!cancelled) setFrameContext(context);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Load initial resource
+  useEffect(() => {
+    fetchNextResource();
+  }, []);
+
+  // Hide the splash screen once there is something to show
+  useEffect(() => {
+    if (!sdk?.actions?.ready || readyCalled.current || loading) return;
+
+    readyCalled.current = true;
+    Promise.resolve(sdk.actions.ready()).catch((err) => {
+      console.error('Error signaling frame ready:', err);
+    });
+  }, [sdk, loading]);
+
+  // Sign Farcaster users in automatically, once per visit
+  useEffect(() => {
+    if (!sdk || !frameContext?.user || authLoading || isAuthenticated || signInAttempted.current) return;
+
+    signInAttempted.current = true;
+
+    (async () => {
+      try {
+        const authData = await getFarcasterAuthData(sdk);
+        const result = await signIn('farcaster', authData);
+
+        if (result.error) {
+          throw result.error;
+        }
+      } catch (err) {
+        // Stumbling works signed out, so just note it
+        console.error('Frame auto sign-in failed:', err);
+      }
+    })();
+  }, [sdk, frameContext, authLoading, isAuthenticated, signIn]);
+
+  const handleOpen = () => {
+    if (!resource) return;
+
+    recordInteraction(resource.id, 'click_through', { target_url: resource.url });
+
+    if (sdk?.actions?.openUrl) {
+      sdk.actions.openUrl(resource.url);
+    } else {
+      window.open(resource.url, '_blank');
+    }
+  };
+
+  const handleShare = async () => {
+    if (!resource) return;
+
+    const shareUrl = `${SITE_URL}/resource/${resource.id}`;
+
+    try {
+      if (sdk?.actions?.composeCast) {
+        await sdk.actions.composeCast({
+          text: `Stumbled onto "${resource.title}" on Stumble Higher`,
+          embeds: [shareUrl],
+        });
+      } else {
+        await navigator.clipboard.writeText(shareUrl);
+      }
+
+      recordInteraction(resource.id, 'share', { method: sdk ? 'cast' : 'clipboard' });
+    } catch (err) {
+      console.error('Error sharing:', err);
+    }
+  };
+
+  const handleVote = async (voteType: 'up' | 'down') => {
+    if (!resource || !user) return;
+
+    try {
+      const response = await fetch('/api/votes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          resource_id: resource.id,
+          vote_type: voteType,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to vote');
+      }
+
+      setResource(prev => prev ? { ...prev, user_vote: result.data.vote_type } : null);
+    } catch (err) {
+      console.error('Error voting:', err);
+      showError(err instanceof Error ? err.message : 'Failed to vote');
+    }
+  };
+
+  const handleFavorite = async () => {
+    if (!resource || !user) return;
+
+    try {
+      const response = await fetch('/api/user/favorites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resource_id: resource.id }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update favorites');
+      }
+
+      setResource(prev => prev ? { ...prev, is_favorited: result.favorited } : null);
+      recordInteraction(resource.id, 'favorite', { action: result.favorited ? 'add' : 'remove' });
+    } catch (err) {
+      console.error('Error toggling favorite:', err);
+      showError(err instanceof Error ? err.message : 'Failed to update favorites');
+    }
+  };
+
+  const insets = frameContext?.client?.safeAreaInsets;
+
+  return (
+    <div
+      className="h-screen bg-zinc-900 text-white flex flex-col overflow-hidden"
+      style={{
+        paddingTop: insets?.top,
+        paddingBottom: insets?.bottom,
+        paddingLeft: insets?.left,
+        paddingRight: insets?.right,
+      }}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+        <span className="font-bold text-brand">Stumble Higher</span>
+        {frameContext?.user && (
+          <div className="flex items-center gap-2 text-xs text-zinc-400">
+            {frameContext.user.pfpUrl && (
+              <img
+                src={frameContext.user.pfpUrl}
+                alt={frameContext.user.username}
+                className="w-6 h-6 rounded-full"
+              />
+            )}
+            <span>{isAuthenticated ? `@${frameContext.user.username}` : 'Signing in...'}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Resource */}
+      <div className="flex-1 overflow-y-auto px-4 py-4">
+        {loading && !resource ? (
+          <div className="h-full flex items-center justify-center">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : error && !resource ? (
+          <div className="h-full flex flex-col items-center justify-center text-center">
+            <div className="text-red-400 mb-4">⚠️ {error}</div>
+            <button onClick={fetchNextResource} className="btn-brand">
+              Try Again
+            </button>
+          </div>
+        ) : resource && (
+          <div className={`resource-card p-4 space-y-3 transition-opacity ${loading ? 'opacity-50' : ''}`}>
+            <div className="flex items-start justify-between gap-3">
+              <h1 className="text-lg font-semibold leading-snug">{resource.title}</h1>
+              <CategoryBadge category={resource.category as ResourceCategory} size="sm" />
+            </div>
+
+            {resource.author && (
+              <p className="text-sm text-zinc-400">by {resource.author}</p>
+            )}
+
+            {resource.description && (
+              <p className="text-sm text-zinc-300 leading-relaxed line-clamp-6">
+                {resource.description}
+              </p>
+            )}
+
+            {resource.tags && resource.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {resource.tags.slice(0, 3).map(tag => (
+                  <span key={tag} className="px-2 py-1 text-xs bg-zinc-700 text-zinc-300 rounded-full">
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <button
+              onClick={handleOpen}
+              className="w-full btn btn-default flex items-center justify-center gap-2"
+            >
+              <ExternalLink size={16} />
+              Open
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Compact Controls */}
+      <div className="px-4 py-3 border-t border-zinc-800 bg-zinc-950/80">
+        <div className="flex items-center gap-2">
+          {resource && isAuthenticated && (
+            <VoteButtons
+              upvotes={resource.upvotes}
+              downvotes={resource.downvotes}
+              userVote={resource.user_vote}
+              onVote={handleVote}
+              size="sm"
+              showCounts={false}
+            />
+          )}
+
+          {resource && isAuthenticated && (
+            <button
+              onClick={handleFavorite}
+              className={`btn-brand-sm flex items-center justify-center ${
+                resource.is_favorited ? 'text-red-400' : 'text-white'
+              }`}
+              title={resource.is_favorited ? 'Remove from favorites' : 'Add to favorites'}
+            >
+              <Heart size={16} fill={resource.is_favorited ? 'currentColor' : 'none'} />
+            </button>
+          )}
+
+          <button
+            onClick={handleShare}
+            disabled={!resource}
+            className="btn-brand-sm flex items-center justify-center"
+            title="Share"
+          >
+            <Share2 size={16} />
+          </button>
+
+          <button
+            onClick={fetchNextResource}
+            disabled={loading}
+            className="flex-1 bg-brand hover:bg-brand-dark text-white font-bold py-3 px-4 rounded-full transition-colors flex items-center justify-center gap-2"
+          >
+            {loading ? <LoadingSpinner size="sm" /> : 'STUMBLE'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
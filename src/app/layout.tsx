@@ -5,10 +5,12 @@ import { AuthProvider } from '@/providers/AuthProvider';
 import { Web3Provider } from '@/providers/Web3Provider';
 import { ToastProvider } from '@/providers/ToastProvider';
 import { AnalyticsProvider } from '@/providers/AnalyticsProvider';
+import { SITE_URL, SHARE_IMAGE_URL } from '@/lib/site';
 
 const inter = Inter({ subsets: ['latin'] });
 
 export const metadata: Metadata = {
+  metadataBase: new URL(SITE_URL),
   title: 'Stumble Higher',
   description: 'Press one button. Discover the web. A Web3-native content discovery platform.',
   keywords: 'content discovery, web3, curation, stumbleupon, higher, farcaster',
@@ -20,7 +22,7 @@ export const metadata: Metadata = {
     description: 'Press one button. Discover the web.',
     images: [
       {
-        url: 'https://images.squarespace-cdn.com/content/v1/67ad421520b6ba3d357c8fd1/a681b2d2-59b0-4953-a7f3-bdbebc6b7ba6/stumble-higher-miniapp-image.png',
+        url: SHARE_IMAGE_URL,
         width: 1200,
         height: 630,
         alt: 'Stumble Higher',
@@ -32,7 +34,7 @@ export const metadata: Metadata = {
     title: 'Stumble Higher',
     description: 'Press one button. Discover the web.',
     images: [
-      'https://images.squarespace-cdn.com/content/v1/67ad421520b6ba3d357c8fd1/a681b2d2-59b0-4953-a7f3-bdbebc6b7ba6/stumble-higher-miniapp-image.png',
+      SHARE_IMAGE_URL,
     ],
   },
   viewport: {
@@ -100,19 +102,6 @@ export default function RootLayout({
           src="https://cdn.jsdelivr.net/npm/@farcaster/frame-sdk/dist/index.min.js"
           async
         />
-
-        {/* Initialize Farcaster */}
-        <script
-          dangerouslySetInnerHTML={{
-            __html: `
-              window.addEventListener('load', function() {
-                if (window.frame?.sdk?.actions?.ready) {
-                  frame.sdk.actions.ready();
-                }
-              });
-            `,
-          }}
-        />
       </body>
     </html>
   );
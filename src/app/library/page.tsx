@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/providers/AuthProvider';
+import { useAnalytics } from '@/providers/AnalyticsProvider';
+import { useToast } from '@/providers/ToastProvider';
+import { ResourceCard } from '@/components/resources/ResourceCard';
+import { AuthButton } from '@/components/auth/AuthButton';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { ResourceWithVotes } from '@/types/database';
+import Link from 'next/link';
+import { ArrowLeft, Download } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+
+const CATEGORIES = [
+  { value: '', label: 'All categories' },
+  { value: 'books', label: 'Books' },
+  { value: 'articles', label: 'Articles' },
+  { value: 'videos', label: 'Videos' },
+  { value: 'tools', label: 'Tools' },
+  { value: 'research', label: 'Research' },
+  { value: 'philosophy', label: 'Philosophy' },
+];
+
+const DIFFICULTIES = [
+  { value: '', label: 'Any difficulty' },
+  { value: 'beginner', label: 'Beginner' },
+  { value: 'intermediate', label: 'Intermediate' },
+  { value: 'advanced', label: 'Advanced' },
+];
+
+export default function LibraryPage() {
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { trackResourceInteraction } = useAnalytics();
+  const { error: showError } = useToast();
+
+  const [resources, setResources] = useState<ResourceWithVotes[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [category, setCategory] = useState('');
+  const [difficulty, setDifficulty] = useState('');
+
+  const buildParams = useCallback((extra: Record<string, string> = {}) => {
+    const params = new URLSearchParams(extra);
+    if (category) params.set('category', category);
+    if (difficulty) params.set('difficulty', difficulty);
+    return params;
+  }, [category, difficulty]);
+
+  // Fetch a page of favorites; offset 0 replaces the list
+  const fetchFavorites = useCallback(async (offset: number) => {
+    setLoading(true);
+
+    try {
+      const params = buildParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      const response = await fetch(`/api/user/favorites?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load your library');
+      }
+
+      setResources(prev => offset === 0 ? data.data : [...prev, ...data.data]);
+      setTotal(data.pagination.total);
+      setHasMore(data.pagination.hasMore);
+    } catch (err) {
+      console.error('Error fetching favorites:', err);
+      showError(err instanceof Error ? err.message : 'Failed to load your library');
+    } finally {
+      setLoading(false);
+    }
+  }, [buildParams, showError]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchFavorites(0);
+    }
+  }, [isAuthenticated, fetchFavorites]);
+
+  // Remove from library (toggling off an existing favorite)
+  const handleRemove = async (resource: ResourceWithVotes) => {
+    try {
+      const response = await fetch(`/api/user/favorites?resource_id=${resource.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to remove favorite');
+      }
+
+      setResources(prev => prev.filter(r => r.id !== resource.id));
+      setTotal(prev => Math.max(prev - 1, 0));
+      trackResourceInteraction(resource.id, 'favorite', { action: 'remove', source: 'library' });
+    } catch (err) {
+      console.error('Error removing favorite:', err);
+      showError(err instanceof Error ? err.message : 'Failed to remove favorite');
+    }
+  };
+
+  const handleOpen = (resource: ResourceWithVotes) => {
+    trackResourceInteraction(resource.id, 'click_through', { source: 'library' });
+    window.open(resource.url, '_blank');
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-zinc-900 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen bg-zinc-900 text-white">
+        <div className="max-w-2xl mx-auto px-4 py-16 text-center">
+          <h1 className="text-4xl font-bold mb-4">My Library</h1>
+          <p className="text-zinc-400 mb-8">
+            Sign in to see the content you&apos;ve saved while stumbling
+          </p>
+          <AuthButton />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-900 text-white">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/stumble"
+              className="p-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition-colors"
+            >
+              <ArrowLeft size={20} />
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold">My Library</h1>
+              <p className="text-zinc-400">
+                {total} saved {total === 1 ? 'resource' : 'resources'}
+              </p>
+            </div>
+          </div>
+
+          {/* Export */}
+          <div className="flex items-center gap-2">
+            <a
+              href={`/api/user/favorites?${buildParams({ format: 'csv' })}`}
+              className="btn btn-default flex items-center gap-2"
+            >
+              <Download size={16} />
+              CSV
+            </a>
+            <a
+              href={`/api/user/favorites?${buildParams({ format: 'json' })}`}
+              className="btn btn-default flex items-center gap-2"
+            >
+              <Download size={16} />
+              JSON
+            </a>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-3 mb-6">
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white"
+          >
+            {CATEGORIES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+
+          <select
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value)}
+            className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white"
+          >
+            {DIFFICULTIES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Resources */}
+        {resources.length === 0 && !loading ? (
+          <div className="bg-zinc-800 rounded-lg border border-zinc-700 p-12 text-center">
+            <div className="text-4xl mb-4">🤍</div>
+            <p className="text-zinc-300 mb-6">
+              {category || difficulty
+                ? 'No saved resources match these filters.'
+                : 'Nothing saved yet. Tap the heart while stumbling to build your library.'}
+            </p>
+            <Link href="/stumble" className="btn-brand">
+              Start Stumbling →
+            </Link>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {resources.map(resource => (
+              <ResourceCard
+                key={resource.id}
+                resource={resource}
+                onFavorite={() => handleRemove(resource)}
+                onExternalClick={() => handleOpen(resource)}
+                showReport
+                compact
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        <div className="flex justify-center mt-8">
+          {loading ? (
+            <LoadingSpinner size="md" />
+          ) : hasMore && (
+            <button
+              onClick={() => fetchFavorites(resources.length)}
+              className="btn btn-default"
+            >
+              Load More
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { createServerClient } from '@/lib/supabase';
+import { withFavoriteStatus } from '@/lib/favorites';
+import { getVoteSummary } from '@/lib/votes';
+import { getSimilarResources } from '@/lib/similar';
+import { SITE_NAME, SHARE_IMAGE_URL } from '@/lib/site';
+import { ResourceDetail } from '@/components/resources/ResourceDetail';
+import { CategoryBadge } from '@/components/resources/CategoryBadge';
+import { ResourceCategory, ResourceWithVotes } from '@/types/database';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowLeft, ThumbsUp, ThumbsDown, Clock } from 'lucide-react';
+
+interface ResourcePageProps {
+  params: { id: string };
+}
+
+interface Submitter {
+  id: string;
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  reputation_score: number;
+  farcaster_username: string | null;
+  eth_address: string | null;
+}
+
+type ResourceWithSubmitterProfile = Omit<ResourceWithVotes, 'submitted_by'> & {
+  submitted_by: Submitter | null;
+};
+
+// Rejected and hidden content isn't publicly viewable
+const PUBLIC_STATUSES = ['approved', 'pending'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const dynamic = 'force-dynamic';
+
+export async function generateMetadata({ params }: ResourcePageProps): Promise<Metadata> {
+  const resource = await getResource(params.id);
+
+  if (!resource) {
+    return { title: `Not found | ${SITE_NAME}` };
+  }
+
+  const title = `${resource.title} | ${SITE_NAME}`;
+  const description = resource.description
+    || `${resource.author ? `By ${resource.author}. ` : ''}Discovered on ${SITE_NAME}.`;
+  const url = `/resource/${resource.id}`;
+
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      type: 'article',
+      siteName: SITE_NAME,
+      title: resource.title,
+      description,
+      url,
+      images: [{ url: SHARE_IMAGE_URL, width: 1200, height: 630, alt: SITE_NAME }],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: resource.title,
+      description,
+      images: [SHARE_IMAGE_URL],
+    },
+  };
+}
+
+export default async function ResourcePage({ params }: ResourcePageProps) {
+  const resource = await getResource(params.id);
+
+  if (!resource) {
+    notFound();
+  }
+
+  const supabase = createServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const [voteSummary, related, userVote, [withFavorite]] = await Promise.all([
+    getVoteSummary(supabase, resource.id),
+    getSimilarResources(supabase, resource, 4),
+    user ? getUserVote(user.id, resource.id) : Promise.resolve(null),
+    withFavoriteStatus(supabase, user?.id, [resource]),
+  ]);
+
+  const detail = { ...withFavorite, user_vote: userVote } as ResourceWithVotes;
+  const submitter = resource.submitted_by;
+  const submitterUrl = submitter ? getProfileUrl(submitter) : null;
+
+  return (
+    <div className="min-h-screen bg-zinc-900 text-white">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link
+            href="/stumble"
+            className="p-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition-colors"
+          >
+            <ArrowLeft size={20} />
+          </Link>
+          <span className="text-zinc-400">Keep stumbling</span>
+        </div>
+
+        {resource.status === 'pending' && (
+          <div className="mb-6 flex items-center gap-2 bg-yellow-900/20 border border-yellow-700 text-yellow-300 rounded-lg px-4 py-3 text-sm">
+            <Clock size={16} />
+            <span>Awaiting community review. Vote to help decide if it belongs on {SITE_NAME}.</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Resource */}
+          <div className="lg:col-span-2">
+            <ResourceDetail resource={detail} />
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-6">
+            {/* Vote Summary */}
+            <div className="bg-zinc-800 rounded-lg border border-zinc-700 p-6">
+              <h2 className="text-lg font-semibold mb-4">Community Votes</h2>
+              <div className="grid grid-cols-3 gap-4 text-center mb-4">
+                <div>
+                  <div className="flex items-center justify-center gap-1 text-green-400 text-xl font-bold">
+                    <ThumbsUp size={16} />
+                    {voteSummary.upvotes}
+                  </div>
+                  <div className="text-xs text-zinc-400">Upvotes</div>
+                </div>
+                <div>
+                  <div className="flex items-center justify-center gap-1 text-red-400 text-xl font-bold">
+                    <ThumbsDown size={16} />
+                    {voteSummary.downvotes}
+                  </div>
+                  <div className="text-xs text-zinc-400">Downvotes</div>
+                </div>
+                <div>
+                  <div className="text-xl font-bold">{Number(voteSummary.weighted_score).toFixed(1)}</div>
+                  <div className="text-xs text-zinc-400">Weighted</div>
+                </div>
+              </div>
+
+              {voteSummary.recent_voters && voteSummary.recent_voters.length > 0 ? (
+                <div className="space-y-2 pt-4 border-t border-zinc-700">
+                  <div className="text-xs text-zinc-400 mb-2">Recent voters</div>
+                  {voteSummary.recent_voters.map((voter, index) => (
+                    <div key={index} className="flex items-center justify-between text-sm">
+                      <span className="text-zinc-300 truncate">
+                        {voter.user?.display_name || voter.user?.username || 'Anonymous'}
+                      </span>
+                      <span className="flex items-center gap-2 text-xs text-zinc-500">
+                        {voter.vote_type === 'up'
+                          ? <ThumbsUp size={12} className="text-green-400" />
+                          : <ThumbsDown size={12} className="text-red-400" />}
+                        {formatDistanceToNow(new Date(voter.created_at), { addSuffix: true })}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-zinc-400">No votes yet.</p>
+              )}
+            </div>
+
+            {/* Submitter */}
+            {submitter && (
+              <div className="bg-zinc-800 rounded-lg border border-zinc-700 p-6">
+                <h2 className="text-lg font-semibold mb-4">Submitted by</h2>
+                <div className="flex items-center gap-3">
+                  {submitter.avatar_url ? (
+                    <img
+                      src={submitter.avatar_url}
+                      alt={submitter.display_name || submitter.username}
+                      className="w-10 h-10 rounded-full"
+                    />
+                  ) : (
+                    <div className="w-10 h-10 rounded-full bg-brand flex items-center justify-center font-bold">
+                      {(submitter.display_name || submitter.username)[0].toUpperCase()}
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    {submitterUrl ? (
+                      <a
+                        href={submitterUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-medium hover:text-brand transition-colors"
+                      >
+                        {submitter.display_name || submitter.username}
+                      </a>
+                    ) : (
+                      <div className="font-medium">{submitter.display_name || submitter.username}</div>
+                    )}
+                    <div className="text-xs text-zinc-400">
+                      @{submitter.username} • {submitter.reputation_score} reputation
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Related */}
+        {related.length > 0 && (
+          <div className="mt-12">
+            <h2 className="text-xl font-semibold mb-4">Related</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {related.map(item => (
+                <Link
+                  key={item.id}
+                  href={`/resource/${item.id}`}
+                  className="resource-card p-4 flex flex-col gap-3 hover:border-brand transition-colors"
+                >
+                  <CategoryBadge category={item.category as ResourceCategory} size="sm" />
+                  <h3 className="font-semibold leading-snug">{item.title}</h3>
+                  {item.author && (
+                    <p className="text-sm text-zinc-400">by {item.author}</p>
+                  )}
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Load a publicly viewable resource with its submitter's profile
+async function getResource(id: string): Promise<ResourceWithSubmitterProfile | null> {
+  if (!UUID_PATTERN.test(id)) return null;
+
+  const { data: resource } = await createServerClient()
+    .from('resources')
+    .select(`
+      *,
+      submitted_by:users(id, username, display_name, avatar_url, reputation_score, farcaster_username, eth_address)
+    `)
+    .eq('id', id)
+    .in('status', PUBLIC_STATUSES)
+    .maybeSingle();
+
+  return resource as ResourceWithSubmitterProfile | null;
+}
+
+async function getUserVote(userId: string, resourceId: string): Promise<'up' | 'down' | null> {
+  const { data: vote } = await createServerClient()
+    .from('votes')
+    .select('vote_type')
+    .eq('user_id', userId)
+    .eq('resource_id', resourceId)
+    .maybeSingle();
+
+  return (vote?.vote_type as 'up' | 'down' | undefined) ?? null;
+}
+
+// Farcaster profile if linked, otherwise the wallet on Basescan
+function getProfileUrl(submitter: Submitter): string | null {
+  if (submitter.farcaster_username) {
+    return `https://warpcast.com/${submitter.farcaster_username}`;
+  }
+  if (submitter.eth_address) {
+    return `https://basescan.org/address/${submitter.eth_address}`;
+  }
+  return null;
+}
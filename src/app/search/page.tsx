@@ -0,0 +1,346 @@
+'use client';
+
+import { Suspense, useState, useEffect, useCallback } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAnalytics } from '@/providers/AnalyticsProvider';
+import { useToast } from '@/providers/ToastProvider';
+import { CategoryBadge } from '@/components/resources/CategoryBadge';
+import { HighlightedText } from '@/components/search/HighlightedText';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { ResourceCategory, SearchFacetCount, SearchFacets, SearchResult } from '@/types/database';
+import { ArrowLeft, Clock, ExternalLink, Search, X } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+
+const FILTER_KEYS = ['category', 'difficulty', 'max_time', 'tags'];
+
+const DIFFICULTY_LABELS: Record<string, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+export default function SearchPage() {
+  // useSearchParams needs a Suspense boundary
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-zinc-900 flex items-center justify-center">
+          <LoadingSpinner size="lg" />
+        </div>
+      }
+    >
+      <SearchContent />
+    </Suspense>
+  );
+}
+
+function SearchContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { track, trackResourceInteraction } = useAnalytics();
+  const { error: showError } = useToast();
+
+  const q = searchParams.get('q') || '';
+  const category = searchParams.get('category') || '';
+  const difficulty = searchParams.get('difficulty') || '';
+  const maxTime = searchParams.get('max_time') || '';
+  const tags = (searchParams.get('tags') || '').split(',').filter(Boolean);
+
+  const [input, setInput] = useState(q);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  // Update the URL; fetching follows from the new search params
+  const updateParams = useCallback((changes: Record<string, string>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    Object.keys(changes).forEach(key => {
+      if (changes[key]) {
+        params.set(key, changes[key]);
+      } else {
+        params.delete(key);
+      }
+    });
+    router.replace(`/search?${params}`);
+  }, [router, searchParams]);
+
+  // Fetch a page of results; offset 0 replaces the list
+  const fetchResults = useCallback(async (offset: number) => {
+    if (!q) {
+      setResults([]);
+      setFacets(null);
+      setTotal(0);
+      setHasMore(false);
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const params = new URLSearchParams(searchParams.toString());
+      params.set('limit', String(PAGE_SIZE));
+      params.set('offset', String(offset));
+
+      const response = await fetch(`/api/search?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Search failed');
+      }
+
+      setResults(prev => offset === 0 ? data.data : [...prev, ...data.data]);
+      setFacets(data.facets);
+      setTotal(data.pagination.total);
+      setHasMore(data.pagination.hasMore);
+
+      if (offset === 0) {
+        track('search', {
+          query: q,
+          result_count: data.pagination.total,
+          filters: FILTER_KEYS.filter(key => searchParams.get(key)),
+        });
+      }
+    } catch (err) {
+      console.error('Error searching:', err);
+      showError(err instanceof Error ? err.message : 'Search failed');
+    } finally {
+      setLoading(false);
+    }
+  }, [q, searchParams, track, showError]);
+
+  useEffect(() => {
+    fetchResults(0);
+  }, [fetchResults]);
+
+  useEffect(() => {
+    setInput(q);
+  }, [q]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams({ q: input.trim() });
+  };
+
+  const toggleTag = (tag: string) => {
+    const next = tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag];
+    updateParams({ tags: next.join(',') });
+  };
+
+  const handleOpen = (result: SearchResult, position: number) => {
+    trackResourceInteraction(result.id, 'click_through', {
+      source: 'search',
+      query: q,
+      position,
+    });
+    window.open(result.url, '_blank');
+  };
+
+  const hasFilters = FILTER_KEYS.some(key => searchParams.get(key));
+
+  return (
+    <div className="min-h-screen bg-zinc-900 text-white">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link
+            href="/stumble"
+            className="p-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition-colors"
+          >
+            <ArrowLeft size={20} />
+          </Link>
+
+          <form onSubmit={handleSubmit} className="flex-1 relative">
+            <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" />
+            <input
+              type="search"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Search titles, authors, tags and descriptions"
+              maxLength={200}
+              autoFocus
+              className="w-full bg-zinc-800 border border-zinc-700 rounded-lg pl-10 pr-4 py-3 text-white placeholder-zinc-500 focus:outline-none focus:border-brand"
+            />
+          </form>
+        </div>
+
+        {!q ? (
+          <div className="bg-zinc-800 rounded-lg border border-zinc-700 p-12 text-center text-zinc-400">
+            Search the whole collection. Use quotes for exact phrases and -word to exclude.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            {/* Facets */}
+            <aside className="space-y-6">
+              {hasFilters && (
+                <button
+                  onClick={() => updateParams({ category: '', difficulty: '', max_time: '', tags: '' })}
+                  className="flex items-center gap-1 text-sm text-brand hover:text-brand-400"
+                >
+                  <X size={14} />
+                  Clear filters
+                </button>
+              )}
+
+              {facets && (
+                <>
+                  <FacetGroup
+                    title="Category"
+                    values={facets.category}
+                    selected={category ? [category] : []}
+                    label={value => value.charAt(0).toUpperCase() + value.slice(1)}
+                    onToggle={value => updateParams({ category: value === category ? '' : value })}
+                  />
+                  <FacetGroup
+                    title="Difficulty"
+                    values={facets.difficulty}
+                    selected={difficulty ? [difficulty] : []}
+                    label={value => DIFFICULTY_LABELS[value] || value}
+                    onToggle={value => updateParams({ difficulty: value === difficulty ? '' : value })}
+                  />
+                  <FacetGroup
+                    title="Time"
+                    values={facets.time}
+                    selected={maxTime ? [maxTime] : []}
+                    label={value => `Up to ${value} min`}
+                    onToggle={value => updateParams({ max_time: value === maxTime ? '' : value })}
+                  />
+                  <FacetGroup
+                    title="Tags"
+                    values={facets.tag}
+                    selected={tags}
+                    label={value => `#${value}`}
+                    onToggle={toggleTag}
+                  />
+                </>
+              )}
+            </aside>
+
+            {/* Results */}
+            <div className="lg:col-span-3 space-y-4">
+              <p className="text-sm text-zinc-400">
+                {loading && results.length === 0
+                  ? 'Searching...'
+                  : `${total} ${total === 1 ? 'result' : 'results'} for "${q}"`}
+              </p>
+
+              {results.length === 0 && !loading ? (
+                <div className="bg-zinc-800 rounded-lg border border-zinc-700 p-12 text-center">
+                  <p className="text-zinc-300 mb-6">
+                    {hasFilters
+                      ? 'Nothing matches these filters. Try removing some.'
+                      : 'Nothing matched. Try different words, or just stumble.'}
+                  </p>
+                  <Link href="/stumble" className="btn-brand">
+                    Start Stumbling →
+                  </Link>
+                </div>
+              ) : (
+                results.map((result, index) => (
+                  <div key={result.id} className="resource-card p-4 space-y-2">
+                    <div className="flex items-start justify-between gap-3">
+                      <Link
+                        href={`/resource/${result.id}`}
+                        className="text-lg font-semibold leading-snug hover:text-brand transition-colors"
+                      >
+                        <HighlightedText text={result.search.title_highlight} />
+                      </Link>
+                      <CategoryBadge category={result.category as ResourceCategory} size="sm" />
+                    </div>
+
+                    {result.author && (
+                      <p className="text-sm text-zinc-400">by {result.author}</p>
+                    )}
+
+                    {result.search.snippet && (
+                      <p className="text-sm text-zinc-300 leading-relaxed">
+                        <HighlightedText text={result.search.snippet} />
+                      </p>
+                    )}
+
+                    <div className="flex flex-wrap items-center gap-3 pt-1 text-xs text-zinc-400">
+                      {result.estimated_time_minutes && (
+                        <span className="flex items-center gap-1">
+                          <Clock size={12} />
+                          {result.estimated_time_minutes} min
+                        </span>
+                      )}
+                      {result.tags?.slice(0, 4).map(tag => (
+                        <span key={tag} className="px-2 py-0.5 bg-zinc-700 text-zinc-300 rounded-full">
+                          {tag}
+                        </span>
+                      ))}
+                      <button
+                        onClick={() => handleOpen(result, index)}
+                        className="ml-auto flex items-center gap-1 text-brand hover:text-brand-400"
+                      >
+                        <ExternalLink size={12} />
+                        Open
+                      </button>
+                    </div>
+                  </div>
+                ))
+              )}
+
+              {/* Pagination */}
+              <div className="flex justify-center pt-4">
+                {loading ? (
+                  <LoadingSpinner size="md" />
+                ) : hasMore && (
+                  <button
+                    onClick={() => fetchResults(results.length)}
+                    className="btn btn-default"
+                  >
+                    Load More
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface FacetGroupProps {
+  title: string;
+  values: SearchFacetCount[];
+  selected: string[];
+  label: (value: string) => string;
+  onToggle: (value: string) => void;
+}
+
+// A list of facet values with match counts; selected values stay visible even at zero
+function FacetGroup({ title, values, selected, label, onToggle }: FacetGroupProps) {
+  const shown = values.filter(facet => facet.count > 0 || selected.includes(facet.value));
+  if (shown.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-zinc-500 mb-2">{title}</h3>
+      <div className="space-y-1">
+        {shown.map(facet => {
+          const isSelected = selected.includes(facet.value);
+          return (
+            <button
+              key={facet.value}
+              onClick={() => onToggle(facet.value)}
+              className={`w-full flex items-center justify-between px-3 py-1.5 text-sm rounded-md transition-colors ${
+                isSelected
+                  ? 'bg-brand text-white'
+                  : 'text-zinc-300 hover:bg-zinc-800'
+              }`}
+            >
+              <span className="truncate">{label(facet.value)}</span>
+              <span className={isSelected ? 'text-white/80' : 'text-zinc-500'}>{facet.count}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
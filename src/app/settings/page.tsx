@@ -0,0 +1,324 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/providers/AuthProvider';
+import { useUserActionTracking } from '@/providers/AnalyticsProvider';
+import { useToast } from '@/providers/ToastProvider';
+import { AuthButton } from '@/components/auth/AuthButton';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { authService } from '@/lib/auth';
+import { DiscoveryAlgorithm, DifficultyLevel, ResourceCategory, UserPreferences } from '@/types/database';
+import { ArrowLeft } from 'lucide-react';
+
+type CategoryPreference = 'preferred' | 'neutral' | 'excluded';
+
+interface PreferencesForm {
+  categories: Record<ResourceCategory, CategoryPreference>;
+  preferred_difficulty: DifficultyLevel | null;
+  max_time_minutes: number | null;
+  hide_videos: boolean;
+  hide_long_content: boolean;
+  discovery_algorithm: DiscoveryAlgorithm;
+  notify_email: boolean;
+  notify_push: boolean;
+}
+
+const CATEGORIES: { value: ResourceCategory; label: string }[] = [
+  { value: 'books', label: '📚 Books' },
+  { value: 'articles', label: '📄 Articles' },
+  { value: 'videos', label: '🎥 Videos' },
+  { value: 'tools', label: '🛠️ Tools' },
+  { value: 'research', label: '🔬 Research' },
+  { value: 'philosophy', label: '🤔 Philosophy' },
+];
+
+const CATEGORY_PREFERENCES: { value: CategoryPreference; label: string }[] = [
+  { value: 'preferred', label: 'More' },
+  { value: 'neutral', label: 'Normal' },
+  { value: 'excluded', label: 'Never' },
+];
+
+const DIFFICULTIES: { value: DifficultyLevel | null; label: string; description: string }[] = [
+  { value: null, label: 'Any', description: 'No difficulty filter' },
+  { value: 'beginner', label: 'Beginner', description: 'Hides advanced content' },
+  { value: 'intermediate', label: 'Intermediate', description: 'A bit of everything' },
+  { value: 'advanced', label: 'Advanced', description: 'Hides beginner content' },
+];
+
+const TIME_BUDGETS: (number | null)[] = [null, 15, 30, 60, 120, 240];
+
+const ALGORITHMS: { value: DiscoveryAlgorithm; label: string; description: string }[] = [
+  { value: 'balanced', label: '⚖️ Balanced', description: 'A mix of picks for you, trending, new and the unexpected' },
+  { value: 'personalized', label: '🎯 For You', description: 'Based on what you upvote and save' },
+  { value: 'popular', label: '🔥 Popular', description: 'The highest rated content' },
+  { value: 'recent', label: '🆕 Recent', description: 'The newest submissions' },
+];
+
+// Map stored preferences onto the form, tolerating missing or legacy values
+function toForm(preferences: UserPreferences): PreferencesForm {
+  const categories = {} as Record<ResourceCategory, CategoryPreference>;
+  CATEGORIES.forEach(({ value }) => {
+    categories[value] = (preferences.excluded_categories || []).indexOf(value) !== -1
+      ? 'excluded'
+      : (preferences.preferred_categories || []).indexOf(value) !== -1 ? 'preferred' : 'neutral';
+  });
+
+  const notifications = (preferences.notification_settings || {}) as { email?: boolean; push?: boolean };
+
+  return {
+    categories,
+    preferred_difficulty: (preferences.preferred_difficulty as DifficultyLevel) || null,
+    max_time_minutes: preferences.max_time_minutes || null,
+    hide_videos: !!preferences.hide_videos,
+    hide_long_content: !!preferences.hide_long_content,
+    discovery_algorithm: (preferences.discovery_algorithm as DiscoveryAlgorithm) || 'balanced',
+    notify_email: notifications.email !== false,
+    notify_push: !!notifications.push,
+  };
+}
+
+export default function SettingsPage() {
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { trackPreferencesUpdate } = useUserActionTracking();
+  const { success, error: showError } = useToast();
+
+  const [form, setForm] = useState<PreferencesForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const load = async () => {
+      const { data, error } = await authService.getUserPreferences();
+      if (error || !data) {
+        console.error('Error loading preferences:', error);
+        showError(error?.message || 'Failed to load preferences');
+        return;
+      }
+      setForm(toForm(data));
+    };
+
+    load();
+  }, [isAuthenticated, showError]);
+
+  const update = (changes: Partial<PreferencesForm>) => {
+    setForm(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  const setCategory = (category: ResourceCategory, preference: CategoryPreference) => {
+    setForm(prev => prev ? { ...prev, categories: { ...prev.categories, [category]: preference } } : prev);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    setSaving(true);
+
+    const byPreference = (preference: CategoryPreference) =>
+      CATEGORIES.map(({ value }) => value).filter(value => form.categories[value] === preference);
+
+    const { error } = await authService.updateUserPreferences({
+      preferred_categories: byPreference('preferred'),
+      excluded_categories: byPreference('excluded'),
+      preferred_difficulty: form.preferred_difficulty,
+      max_time_minutes: form.max_time_minutes,
+      hide_videos: form.hide_videos,
+      hide_long_content: form.hide_long_content,
+      discovery_algorithm: form.discovery_algorithm,
+      notification_settings: { email: form.notify_email, push: form.notify_push },
+    });
+
+    setSaving(false);
+
+    if (error) {
+      console.error('Error saving preferences:', error);
+      showError(error.message);
+      return;
+    }
+
+    trackPreferencesUpdate();
+    success('Preferences saved');
+  };
+
+  if (authLoading || (isAuthenticated && !form)) {
+    return (
+      <div className="min-h-screen bg-zinc-900 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !form) {
+    return (
+      <div className="min-h-screen bg-zinc-900 text-white">
+        <div className="max-w-2xl mx-auto px-4 py-16 text-center">
+          <h1 className="text-4xl font-bold mb-4">Settings</h1>
+          <p className="text-zinc-400 mb-8">
+            Sign in to tune what you stumble upon
+          </p>
+          <AuthButton />
+        </div>
+      </div>
+    );
+  }
+
+  const optionClass = (selected: boolean) =>
+    `px-3 py-2 text-sm rounded-lg border transition-colors ${
+      selected
+        ? 'bg-brand border-brand text-white'
+        : 'bg-zinc-800 border-zinc-700 text-zinc-300 hover:border-zinc-600'
+    }`;
+
+  return (
+    <div className="min-h-screen bg-zinc-900 text-white">
+      <div className="max-w-2xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link
+            href="/stumble"
+            className="p-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition-colors"
+          >
+            <ArrowLeft size={20} />
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold">Settings</h1>
+            <p className="text-zinc-400">These apply to every way of stumbling</p>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Categories */}
+          <section className="bg-zinc-800 rounded-lg border border-zinc-700 p-6">
+            <h2 className="text-lg font-semibold mb-1">Categories</h2>
+            <p className="text-sm text-zinc-400 mb-4">See more of what you like and none of what you don&apos;t</p>
+            <div className="space-y-2">
+              {CATEGORIES.map(category => (
+                <div key={category.value} className="flex items-center justify-between gap-3">
+                  <span className="text-sm">{category.label}</span>
+                  <div className="flex gap-1">
+                    {CATEGORY_PREFERENCES.map(option => (
+                      <button
+                        key={option.value}
+                        onClick={() => setCategory(category.value, option.value)}
+                        className={optionClass(form.categories[category.value] === option.value)}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {/* Difficulty */}
+          <section className="bg-zinc-800 rounded-lg border border-zinc-700 p-6">
+            <h2 className="text-lg font-semibold mb-4">Difficulty</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {DIFFICULTIES.map(option => (
+                <button
+                  key={option.label}
+                  onClick={() => update({ preferred_difficulty: option.value })}
+                  className={`${optionClass(form.preferred_difficulty === option.value)} text-left`}
+                >
+                  <div className="font-medium">{option.label}</div>
+                  <div className="text-xs opacity-75">{option.description}</div>
+                </button>
+              ))}
+            </div>
+          </section>
+
+          {/* Time Budget */}
+          <section className="bg-zinc-800 rounded-lg border border-zinc-700 p-6">
+            <h2 className="text-lg font-semibold mb-1">Time Budget</h2>
+            <p className="text-sm text-zinc-400 mb-4">Skip anything expected to take longer than this</p>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {TIME_BUDGETS.map(minutes => (
+                <button
+                  key={minutes ?? 'none'}
+                  onClick={() => update({ max_time_minutes: minutes })}
+                  className={optionClass(form.max_time_minutes === minutes)}
+                >
+                  {minutes === null ? 'No limit' : minutes < 60 ? `${minutes} min` : `${minutes / 60} hr`}
+                </button>
+              ))}
+            </div>
+            <div className="space-y-3">
+              <label className="flex items-center justify-between gap-3 text-sm text-zinc-300 cursor-pointer">
+                <span>Hide videos</span>
+                <input
+                  type="checkbox"
+                  checked={form.hide_videos}
+                  onChange={(e) => update({ hide_videos: e.target.checked })}
+                  className="h-4 w-4 accent-brand"
+                />
+              </label>
+              <label className="flex items-center justify-between gap-3 text-sm text-zinc-300 cursor-pointer">
+                <span>Hide long content</span>
+                <input
+                  type="checkbox"
+                  checked={form.hide_long_content}
+                  onChange={(e) => update({ hide_long_content: e.target.checked })}
+                  className="h-4 w-4 accent-brand"
+                />
+              </label>
+            </div>
+          </section>
+
+          {/* Discovery Algorithm */}
+          <section className="bg-zinc-800 rounded-lg border border-zinc-700 p-6">
+            <h2 className="text-lg font-semibold mb-1">Default Discovery Mode</h2>
+            <p className="text-sm text-zinc-400 mb-4">What the stumble page starts with</p>
+            <div className="space-y-2">
+              {ALGORITHMS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => update({ discovery_algorithm: option.value })}
+                  className={`${optionClass(form.discovery_algorithm === option.value)} w-full text-left`}
+                >
+                  <div className="font-medium">{option.label}</div>
+                  <div className="text-xs opacity-75">{option.description}</div>
+                </button>
+              ))}
+            </div>
+          </section>
+
+          {/* Notifications */}
+          <section className="bg-zinc-800 rounded-lg border border-zinc-700 p-6">
+            <h2 className="text-lg font-semibold mb-4">Notifications</h2>
+            <div className="space-y-3">
+              <label className="flex items-center justify-between gap-3 text-sm text-zinc-300 cursor-pointer">
+                <span>Email updates</span>
+                <input
+                  type="checkbox"
+                  checked={form.notify_email}
+                  onChange={(e) => update({ notify_email: e.target.checked })}
+                  className="h-4 w-4 accent-brand"
+                />
+              </label>
+              <label className="flex items-center justify-between gap-3 text-sm text-zinc-300 cursor-pointer">
+                <span>Push notifications</span>
+                <input
+                  type="checkbox"
+                  checked={form.notify_push}
+                  onChange={(e) => update({ notify_push: e.target.checked })}
+                  className="h-4 w-4 accent-brand"
+                />
+              </label>
+            </div>
+          </section>
+
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="w-full btn-brand flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {saving && <LoadingSpinner size="sm" />}
+            {saving ? 'Saving...' : 'Save Preferences'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
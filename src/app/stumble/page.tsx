@@ -1,122 +1,200 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { Suspense, useState, useEffect, useCallback, useRef } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useAuth } from '@/providers/AuthProvider';
 import { useAnalytics } from '@/providers/AnalyticsProvider';
-import { ResourceCard } from '@/components/resources/ResourceCard';
 import { StumbleControls } from '@/components/stumble/StumbleControls';
 import { ContentViewer } from '@/components/stumble/ContentViewer';
+import { FilterDrawer } from '@/components/stumble/FilterDrawer';
+import { SimilarSuggestions } from '@/components/stumble/SimilarSuggestions';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
-import { ResourceWithVotes } from '@/types/database';
-
-interface StumbleState {
-  currentResource: ResourceWithVotes | null;
-  loading: boolean;
-  error: string | null;
-  viewedResourceIds: string[];
-  algorithm: 'personalized' | 'popular' | 'recent' | 'random';
-}
+import { StumbleAlgorithm, useStumbleQueue } from '@/hooks/useStumbleQueue';
+import { useStumbleFilters } from '@/hooks/useStumbleFilters';
+import { countActiveFilters, stumbleFilterParams } from '@/lib/stumble-filters';
+import { ResourceWithVotes, SimilarResource, StumbleFilters } from '@/types/database';
+
+const STUMBLE_ALGORITHMS: StumbleAlgorithm[] = ['balanced', 'personalized', 'popular', 'recent', 'random'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 export default function StumblePage() {
+  // useSearchParams needs a Suspense boundary
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-zinc-900 flex items-center justify-center">
+          <LoadingSpinner size="lg" />
+        </div>
+      }
+    >
+      <StumbleContent />
+    </Suspense>
+  );
+}
+
+function StumbleContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
   const { user } = useAuth();
   const { track, trackResourceInteraction } = useAnalytics();
 
-  const [state, setState] = useState<StumbleState>({
-    currentResource: null,
-    loading: true,
-    error: null,
-    viewedResourceIds: [],
-    algorithm: 'personalized',
+  const [chosenAlgorithm, setAlgorithm] = useState<StumbleAlgorithm | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  const [suggestions, setSuggestions] = useState<SimilarResource[]>([]);
+  const { filters, preferredAlgorithm, loaded: filtersLoaded, updateFilters } = useStumbleFilters();
+
+  // Start on the default from /settings until a mode is picked here
+  const algorithm: StumbleAlgorithm = chosenAlgorithm
+    ?? (STUMBLE_ALGORITHMS.indexOf(preferredAlgorithm as StumbleAlgorithm) !== -1
+      ? preferredAlgorithm as StumbleAlgorithm
+      : 'personalized');
+
+  // /stumble?r=<id> opens on that resource; only read on first load
+  const [linkedResourceId] = useState(() => {
+    const id = searchParams.get('r');
+    return id && UUID_PATTERN.test(id) ? id : null;
   });
 
   const [sessionId] = useState(() =>
     Math.random().toString(36).substring(2, 15)
   );
 
-  // Fetch next resource from discovery API
-  const fetchNextResource = useCallback(async () => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-
-    try {
-      const params = new URLSearchParams({
-        algorithm: state.algorithm,
-        exclude_ids: state.viewedResourceIds.join(','),
-        limit: '1',
-        session_id: sessionId,
-      });
+  const viewCount = useRef(0);
+  const shownAt = useRef<number | null>(null); // When the current resource appeared, for dwell time
+  const shownResourceId = useRef<string | null>(null);
+  const skippedIds = useRef<Record<string, boolean>>({}); // Skips recorded this session
 
-      const response = await fetch(`/api/discover?${params}`);
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to fetch resource');
-      }
-
-      if (data.data && data.data.length > 0) {
-        const resource = data.data[0];
-        setState(prev => ({
-          ...prev,
-          currentResource: resource,
-          loading: false,
-          viewedResourceIds: [...prev.viewedResourceIds, resource.id],
-        }));
-
-        // Track discovery
-        track('stumble', {
-          algorithm_used: data.algorithm_used,
-          resource_id: resource.id,
-          session_id: sessionId,
-        });
-
-        // Track view interaction
-        await trackResourceView(resource.id);
-      } else {
-        throw new Error('No more resources available');
-      }
-    } catch (error) {
-      console.error('Error fetching resource:', error);
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: error instanceof Error ? error.message : 'Failed to load content',
-      }));
-    }
-  }, [state.algorithm, state.viewedResourceIds, sessionId, track]);
-
-  // Track resource view
-  const trackResourceView = async (resourceId: string) => {
+  // Record an interaction for the recommendation engine and analytics.
+  // Pass algorithm_used in properties to credit the source that picked the resource.
+  const recordInteraction = useCallback(async (
+    resourceId: string,
+    interactionType: string,
+    properties: Record<string, any> = {}
+  ) => {
     try {
-      await fetch('/api/discover/interaction', {
+      await fetch('/api/discover', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           resource_id: resourceId,
-          interaction_type: 'view',
+          interaction_type: interactionType,
           session_id: sessionId,
-          algorithm_used: state.algorithm,
+          algorithm_used: algorithm,
+          ...properties,
         }),
       });
 
-      trackResourceInteraction(resourceId, 'view', {
-        algorithm: state.algorithm,
+      trackResourceInteraction(resourceId, interactionType, {
+        algorithm,
         session_id: sessionId,
+        ...properties,
       });
     } catch (error) {
-      console.error('Error tracking view:', error);
+      console.error('Error tracking interaction:', error);
     }
-  };
+  }, [algorithm, sessionId, trackResourceInteraction]);
+
+  // Track discovery and the view each time a queued resource is shown
+  const handleShow = useCallback((resource: ResourceWithVotes, algorithmUsed: string) => {
+    viewCount.current += 1;
+
+    track('stumble', {
+      algorithm_used: algorithmUsed,
+      resource_id: resource.id,
+      session_id: sessionId,
+    });
+
+    recordInteraction(resource.id, 'view', { algorithm_used: algorithmUsed });
+  }, [sessionId, track, recordInteraction]);
+
+  const {
+    current: currentResource,
+    currentAlgorithmUsed,
+    next: nextResource,
+    loading,
+    error,
+    advance,
+    back,
+    showResource,
+    canGoBack,
+    canGoForward,
+    updateCurrent,
+  } = useStumbleQueue({
+    algorithm,
+    sessionId,
+    filters,
+    enabled: filtersLoaded,
+    initialResourceId: linkedResourceId,
+    onShow: handleShow,
+  });
 
-  // Handle stumble to next resource
+  // Start the dwell clock whenever a different resource is shown
+  useEffect(() => {
+    shownAt.current = currentResource ? Date.now() : null;
+    shownResourceId.current = currentResource?.id ?? null;
+    setSuggestions([]);
+  }, [currentResource?.id]);
+
+  // Handle stumble to next resource. Stumbling on to something new records a
+  // skip with the dwell time (once per resource; moving forward through history
+  // doesn't count); the recommender treats quick skips as a negative signal.
   const handleStumble = useCallback(() => {
-    fetchNextResource();
-  }, [fetchNextResource]);
-
-  // Handle algorithm change
-  const handleAlgorithmChange = (algorithm: typeof state.algorithm) => {
-    setState(prev => ({ ...prev, algorithm }));
-    // Reset viewed resources when changing algorithm
-    setState(prev => ({ ...prev, viewedResourceIds: [] }));
-    fetchNextResource();
+    if (currentResource && shownAt.current && !canGoForward && !skippedIds.current[currentResource.id]) {
+      skippedIds.current[currentResource.id] = true;
+      recordInteraction(currentResource.id, 'skip', {
+        algorithm_used: currentAlgorithmUsed || algorithm,
+        duration_seconds: Math.round((Date.now() - shownAt.current) / 1000),
+      });
+      shownAt.current = null;
+    }
+
+    advance();
+  }, [advance, canGoForward, currentResource, currentAlgorithmUsed, algorithm, recordInteraction]);
+
+  // Keep the current resource in the URL so it can be refreshed, bookmarked and shared
+  useEffect(() => {
+    if (currentResource) {
+      router.replace(`/stumble?r=${currentResource.id}`, { scroll: false });
+    }
+  }, [currentResource?.id]);
+
+  // Keyboard shortcuts: ← previous, → next
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (showFilters) return;
+      if (event.metaKey || event.ctrlKey || event.altKey || event.shiftKey) return;
+
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      if (event.key === 'ArrowLeft') {
+        event.preventDefault();
+        back();
+      } else if (event.key === 'ArrowRight') {
+        event.preventDefault();
+        handleStumble();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleStumble, back, showFilters]);
+
+  // Handle algorithm change; the queue restarts with the new algorithm
+  const handleAlgorithmChange = (newAlgorithm: StumbleAlgorithm) => {
+    setAlgorithm(newAlgorithm);
+  };
+
+  // Handle filter changes; the queue restarts with the new filters
+  const handleFiltersApply = (newFilters: StumbleFilters) => {
+    updateFilters(newFilters);
+
+    track('stumble_filters_change', {
+      session_id: sessionId,
+      active_filters: countActiveFilters(newFilters),
+      ...stumbleFilterParams(newFilters),
+    });
   };
 
   // Handle resource interaction
@@ -124,41 +202,23 @@ export default function StumblePage() {
     interactionType: string,
     properties?: Record<string, any>
   ) => {
-    if (!state.currentResource) return;
-
-    try {
-      await fetch('/api/discover/interaction', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          resource_id: state.currentResource.id,
-          interaction_type: interactionType,
-          session_id: sessionId,
-          algorithm_used: state.algorithm,
-          ...properties,
-        }),
-      });
-
-      trackResourceInteraction(state.currentResource.id, interactionType, {
-        algorithm: state.algorithm,
-        session_id: sessionId,
-        ...properties,
-      });
-    } catch (error) {
-      console.error('Error tracking interaction:', error);
-    }
+    if (!currentResource) return;
+    await recordInteraction(currentResource.id, interactionType, {
+      algorithm_used: currentAlgorithmUsed || algorithm,
+      ...properties,
+    });
   };
 
   // Handle vote
   const handleVote = async (voteType: 'up' | 'down') => {
-    if (!state.currentResource || !user) return;
+    if (!currentResource || !user) return;
 
     try {
       const response = await fetch('/api/votes', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          resource_id: state.currentResource.id,
+          resource_id: currentResource.id,
           vote_type: voteType,
         }),
       });
@@ -167,31 +227,60 @@ export default function StumblePage() {
         const result = await response.json();
 
         // Update local state with new vote
-        setState(prev => ({
-          ...prev,
-          currentResource: prev.currentResource ? {
-            ...prev.currentResource,
-            user_vote: result.data.vote_type,
-          } : null,
-        }));
+        updateCurrent({ user_vote: result.data.vote_type });
 
         await handleResourceInteraction('vote', { vote_type: voteType });
+
+        if (result.data.vote_type === 'up') {
+          loadSuggestions(currentResource.id);
+        }
       }
     } catch (error) {
       console.error('Error voting:', error);
     }
   };
 
+  // Suggest what people who liked this resource also liked
+  const loadSuggestions = async (resourceId: string) => {
+    try {
+      const response = await fetch(`/api/resources/${resourceId}/similar?limit=3`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch suggestions');
+      }
+
+      // Only if the user is still on the resource they voted on
+      if (shownResourceId.current === resourceId) {
+        setSuggestions(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching suggestions:', error);
+    }
+  };
+
+  const handleSuggestionSelect = (resource: SimilarResource) => {
+    track('similar_suggestion_click', {
+      session_id: sessionId,
+      from_resource_id: currentResource?.id,
+      resource_id: resource.id,
+      similarity_source: resource.similarity.source,
+    });
+
+    setSuggestions([]);
+    showResource(resource.id, 'similar');
+  };
+
   // Handle favorite toggle
   const handleFavorite = async () => {
-    if (!state.currentResource || !user) return;
+    if (!currentResource || !user) return;
 
     try {
       const response = await fetch('/api/user/favorites', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          resource_id: state.currentResource.id,
+          resource_id: currentResource.id,
         }),
       });
 
@@ -199,13 +288,7 @@ export default function StumblePage() {
         const result = await response.json();
 
         // Update local state
-        setState(prev => ({
-          ...prev,
-          currentResource: prev.currentResource ? {
-            ...prev.currentResource,
-            is_favorited: result.favorited,
-          } : null,
-        }));
+        updateCurrent({ is_favorited: result.favorited });
 
         await handleResourceInteraction('favorite', {
           action: result.favorited ? 'add' : 'remove'
@@ -218,37 +301,32 @@ export default function StumblePage() {
 
   // Handle external link click
   const handleExternalClick = () => {
-    if (!state.currentResource) return;
+    if (!currentResource) return;
 
     handleResourceInteraction('click_through', {
-      target_url: state.currentResource.url,
+      target_url: currentResource.url,
     });
 
-    window.open(state.currentResource.url, '_blank');
+    window.open(currentResource.url, '_blank');
   };
 
-  // Load initial resource
-  useEffect(() => {
-    fetchNextResource();
-  }, []);
-
   // Track session start
   useEffect(() => {
     track('stumble_session_start', {
       session_id: sessionId,
-      algorithm: state.algorithm,
+      algorithm,
       is_authenticated: !!user,
     });
 
     return () => {
       track('stumble_session_end', {
         session_id: sessionId,
-        resources_viewed: state.viewedResourceIds.length,
+        resources_viewed: viewCount.current,
       });
     };
   }, []);
 
-  if (state.loading && !state.currentResource) {
+  if (loading && !currentResource) {
     return (
       <div className="min-h-screen bg-zinc-900 flex items-center justify-center">
         <LoadingSpinner size="lg" />
@@ -256,12 +334,12 @@ export default function StumblePage() {
     );
   }
 
-  if (state.error && !state.currentResource) {
+  if (error && !currentResource) {
     return (
       <div className="min-h-screen bg-zinc-900 flex flex-col items-center justify-center text-white">
-        <div className="text-red-400 mb-4">⚠️ {state.error}</div>
+        <div className="text-red-400 mb-4">⚠️ {error}</div>
         <button
-          onClick={() => fetchNextResource()}
+          onClick={() => advance()}
           className="btn-brand"
         >
           Try Again
@@ -274,11 +352,12 @@ export default function StumblePage() {
     <div className="min-h-screen bg-zinc-900 text-white flex flex-col">
       {/* Content Viewer */}
       <div className="flex-1">
-        {state.currentResource ? (
+        {currentResource ? (
           <ContentViewer
-            resource={state.currentResource}
+            resource={currentResource}
+            nextResource={nextResource}
             onExternalClick={handleExternalClick}
-            loading={state.loading}
+            loading={loading}
           />
         ) : (
           <div className="flex-1 flex items-center justify-center">
@@ -287,18 +366,36 @@ export default function StumblePage() {
         )}
       </div>
 
+      <SimilarSuggestions
+        suggestions={suggestions}
+        onSelect={handleSuggestionSelect}
+        onDismiss={() => setSuggestions([])}
+      />
+
       {/* Controls */}
       <StumbleControls
-        resource={state.currentResource}
+        resource={currentResource}
         onStumble={handleStumble}
+        onPrevious={back}
+        canGoBack={canGoBack}
         onVote={handleVote}
         onFavorite={handleFavorite}
         onExternalClick={handleExternalClick}
+        onReported={handleStumble}
+        onOpenFilters={() => setShowFilters(true)}
+        activeFilterCount={countActiveFilters(filters)}
         onAlgorithmChange={handleAlgorithmChange}
-        currentAlgorithm={state.algorithm}
-        loading={state.loading}
+        currentAlgorithm={algorithm}
+        loading={loading}
         isAuthenticated={!!user}
       />
+
+      <FilterDrawer
+        isOpen={showFilters}
+        filters={filters}
+        onApply={handleFiltersApply}
+        onClose={() => setShowFilters(false)}
+      />
     </div>
   );
 }
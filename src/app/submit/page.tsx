@@ -50,7 +50,6 @@ export default function SubmitPage() {
         body: JSON.stringify({
           ...submissionData,
           submission_tx_hash: transactionHash,
-          submission_amount: 1000, // Default amount
         }),
       });
 
@@ -62,7 +61,7 @@ export default function SubmitPage() {
 
       setSubmittedResource(result.data);
       setCurrentStep('success');
-      success('Resource submitted successfully!');
+      success(result.message || 'Resource submitted successfully!');
     } catch (err) {
       console.error('Resource submission error:', err);
       error(err instanceof Error ? err.message : 'Failed to submit resource');
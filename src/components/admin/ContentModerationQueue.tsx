@@ -1,14 +1,18 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { ResourceWithVotes } from '@/types/database';
+import { DuplicateCandidate, ResourceWithVotes } from '@/types/database';
 import { ResourceCard } from '@/components/resources/ResourceCard';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { useToast } from '@/providers/ToastProvider';
-import { CheckCircle, XCircle, Eye, Clock } from 'lucide-react';
+import { CheckCircle, XCircle, Eye, Clock, Copy } from 'lucide-react';
+
+type QueuedResource = ResourceWithVotes & {
+  possible_duplicate?: DuplicateCandidate | null;
+};
 
 export function ContentModerationQueue() {
-  const [resources, setResources] = useState<ResourceWithVotes[]>([]);
+  const [resources, setResources] = useState<QueuedResource[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<'pending' | 'all'>('pending');
   const { success, error } = useToast();
@@ -55,7 +59,7 @@ export function ContentModerationQueue() {
         body: JSON.stringify({
           resource_id: resourceId,
           action,
-          reason,
+          rejection_reason: reason,
         }),
       });
 
@@ -132,6 +136,26 @@ export function ContentModerationQueue() {
                 />
               </div>
 
+              {/* Possible Duplicate */}
+              {resource.possible_duplicate && (
+                <div className="flex items-start gap-2 bg-yellow-900/20 border-t border-yellow-700 text-yellow-300 px-4 py-3 text-sm">
+                  <Copy size={16} className="mt-0.5 flex-shrink-0" />
+                  <span>
+                    Possible duplicate of{' '}
+                    <a
+                      href={`/resource/${resource.possible_duplicate.id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="underline hover:text-yellow-200"
+                    >
+                      {resource.possible_duplicate.title}
+                    </a>
+                    {resource.possible_duplicate.author && ` by ${resource.possible_duplicate.author}`}
+                    {' '}({resource.possible_duplicate.status})
+                  </span>
+                </div>
+              )}
+
               {/* Moderation Actions */}
               {resource.status === 'pending' && (
                 <div className="bg-zinc-700 px-4 py-3 border-t border-zinc-600">
@@ -148,6 +172,15 @@ export function ContentModerationQueue() {
                     </div>
 
                     <div className="flex items-center gap-2">
+                      {resource.possible_duplicate && (
+                        <button
+                          onClick={() => handleModeration(resource.id, 'reject', 'Duplicate of an existing resource')}
+                          className="flex items-center gap-2 px-3 py-2 bg-zinc-600 hover:bg-zinc-500 text-white rounded-lg transition-colors"
+                        >
+                          <Copy size={16} />
+                          Reject as Duplicate
+                        </button>
+                      )}
                       <button
                         onClick={() => handleModeration(resource.id, 'reject', 'Quality standards not met')}
                         className="flex items-center gap-2 px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
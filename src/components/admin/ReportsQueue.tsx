@@ -0,0 +1,222 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Report, ReportStatus } from '@/types/database';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { REPORT_REASONS } from '@/components/resources/ReportDialog';
+import { useToast } from '@/providers/ToastProvider';
+import { formatDistanceToNow } from 'date-fns';
+import { CheckCircle, XCircle, ExternalLink, EyeOff } from 'lucide-react';
+
+interface ReportWithDetails extends Report {
+  resource: { id: string; title: string; url: string; category: string; status: string } | null;
+  reporter: { id: string; username: string; display_name: string | null; avatar_url: string | null } | null;
+  reviewer: { id: string; username: string; display_name: string | null } | null;
+}
+
+const STATUS_FILTERS: { value: ReportStatus | 'all'; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'dismissed', label: 'Dismissed' },
+  { value: 'all', label: 'All' },
+];
+
+export function ReportsQueue() {
+  const [reports, setReports] = useState<ReportWithDetails[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<ReportStatus | 'all'>('pending');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const { success, error } = useToast();
+
+  useEffect(() => {
+    fetchReports();
+  }, [filter]);
+
+  const fetchReports = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ status: filter, limit: '50' });
+      const response = await fetch(`/api/reports?${params}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setReports(data.data || []);
+        setTotal(data.pagination?.total || 0);
+      } else {
+        throw new Error(data.error || 'Failed to fetch reports');
+      }
+    } catch (err) {
+      console.error('Error fetching reports:', err);
+      error('Failed to load reports');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (reportId: string, status: 'resolved' | 'dismissed') => {
+    try {
+      const response = await fetch('/api/reports', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: reportId,
+          status,
+          admin_notes: notes[reportId]?.trim() || undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        success(`Report ${status}`);
+        setReports(prev =>
+          filter === 'all'
+            ? prev.map(r => r.id === reportId ? { ...r, ...data.data } : r)
+            : prev.filter(r => r.id !== reportId)
+        );
+        if (filter !== 'all') setTotal(prev => Math.max(prev - 1, 0));
+      } else {
+        throw new Error(data.error || 'Failed to update report');
+      }
+    } catch (err) {
+      console.error('Error reviewing report:', err);
+      error(err instanceof Error ? err.message : 'Failed to update report');
+    }
+  };
+
+  const reasonLabel = (reason: string) =>
+    REPORT_REASONS.find(r => r.value === reason)?.label || reason;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Reports</h2>
+          <p className="text-zinc-400">Content flagged by the community</p>
+        </div>
+
+        {/* Filter Tabs */}
+        <div className="flex bg-zinc-700 rounded-lg p-1">
+          {STATUS_FILTERS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setFilter(option.value)}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                filter === option.value
+                  ? 'bg-brand text-white'
+                  : 'text-zinc-300 hover:text-white'
+              }`}
+            >
+              {option.label}{filter === option.value && !loading ? ` (${total})` : ''}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Report List */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : reports.length > 0 ? (
+        <div className="space-y-4">
+          {reports.map((report) => (
+            <div key={report.id} className="bg-zinc-800 rounded-lg border border-zinc-700 overflow-hidden">
+              <div className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="px-2 py-1 text-xs bg-red-900/40 text-red-300 rounded-full">
+                        {reasonLabel(report.reason)}
+                      </span>
+                      <span className="text-xs text-zinc-500 capitalize">{report.status}</span>
+                      {report.resource?.status === 'hidden' && (
+                        <span className="flex items-center gap-1 text-xs text-zinc-400">
+                          <EyeOff size={12} />
+                          Hidden
+                        </span>
+                      )}
+                    </div>
+                    <h3 className="font-semibold text-white truncate">
+                      {report.resource?.title || 'Deleted resource'}
+                    </h3>
+                    {report.resource && (
+                      <a
+                        href={report.resource.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-xs text-zinc-400 hover:text-white"
+                      >
+                        {report.resource.url}
+                        <ExternalLink size={12} />
+                      </a>
+                    )}
+                  </div>
+                  <div className="text-right text-xs text-zinc-500 shrink-0">
+                    <div>
+                      by {report.reporter?.display_name || report.reporter?.username || 'unknown'}
+                    </div>
+                    <div>{formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}</div>
+                  </div>
+                </div>
+
+                {report.description && (
+                  <p className="text-sm text-zinc-300 bg-zinc-900 rounded-lg p-3">
+                    {report.description}
+                  </p>
+                )}
+
+                {report.admin_notes && (
+                  <p className="text-xs text-zinc-400">
+                    <span className="text-zinc-500">Notes from {report.reviewer?.display_name || report.reviewer?.username || 'admin'}:</span>{' '}
+                    {report.admin_notes}
+                  </p>
+                )}
+              </div>
+
+              {/* Review Actions */}
+              {(report.status === 'pending' || report.status === 'reviewed') && (
+                <div className="bg-zinc-700 px-4 py-3 border-t border-zinc-600 flex flex-col sm:flex-row gap-3">
+                  <input
+                    type="text"
+                    value={notes[report.id] || ''}
+                    onChange={(e) => setNotes(prev => ({ ...prev, [report.id]: e.target.value }))}
+                    placeholder="Admin notes (optional)"
+                    maxLength={1000}
+                    className="flex-1 bg-zinc-800 border border-zinc-600 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-500"
+                  />
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleReview(report.id, 'dismissed')}
+                      className="flex items-center gap-1 px-3 py-2 bg-zinc-600 hover:bg-zinc-500 text-white text-sm rounded-lg transition-colors"
+                    >
+                      <XCircle size={14} />
+                      Dismiss
+                    </button>
+                    <button
+                      onClick={() => handleReview(report.id, 'resolved')}
+                      className="flex items-center gap-1 px-3 py-2 bg-green-600 hover:bg-green-700 text-white text-sm rounded-lg transition-colors"
+                    >
+                      <CheckCircle size={14} />
+                      Resolve
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <div className="text-4xl mb-4">🚩</div>
+          <h3 className="text-lg font-semibold text-white mb-2">No reports</h3>
+          <p className="text-zinc-400">
+            {filter === 'pending' ? 'Nothing waiting for review.' : 'No reports match this filter.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,8 @@
 import { useState } from 'react';
 import { useAuth } from '@/providers/AuthProvider';
 import { AuthModal } from './AuthModal';
-import { User, LogOut } from 'lucide-react';
+import Link from 'next/link';
+import { User, LogOut, Heart, Settings } from 'lucide-react';
 
 export function AuthButton() {
   const { user, isAuthenticated, signOut, loading } = useAuth();
@@ -72,6 +73,24 @@ export function AuthButton() {
                   Profile
                 </button>
 
+                <Link
+                  href="/library"
+                  onClick={() => setShowUserMenu(false)}
+                  className="w-full text-left px-3 py-2 text-sm text-zinc-300 hover:bg-zinc-700 rounded flex items-center gap-2"
+                >
+                  <Heart size={16} />
+                  My Library
+                </Link>
+
+                <Link
+                  href="/settings"
+                  onClick={() => setShowUserMenu(false)}
+                  className="w-full text-left px-3 py-2 text-sm text-zinc-300 hover:bg-zinc-700 rounded flex items-center gap-2"
+                >
+                  <Settings size={16} />
+                  Settings
+                </Link>
+
                 <button
                   onClick={handleSignOut}
                   className="w-full text-left px-3 py-2 text-sm text-zinc-300 hover:bg-zinc-700 rounded flex items-center gap-2"
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { useAuth } from '@/providers/AuthProvider';
 import { useToast } from '@/providers/ToastProvider';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { getFrameSdk, getFarcasterAuthData } from '@/lib/frame-sdk';
 
 interface FarcasterAuthButtonProps {
   mode: 'signin' | 'signup';
@@ -20,45 +21,12 @@ export function FarcasterAuthButton({ mode, onSuccess }: FarcasterAuthButtonProp
 
     try {
       // Check if Farcaster Frame SDK is available
-      if (typeof window === 'undefined' || !window.frame?.sdk) {
+      const sdk = getFrameSdk();
+      if (!sdk) {
         throw new Error('Farcaster authentication is only available in Farcaster apps');
       }
 
-      // Generate a SIWE message for Farcaster
-      const domain = window.location.host;
-      const uri = window.location.origin;
-      const nonce = Math.random().toString(36).substring(2, 15);
-
-      const message = `${domain} wants you to sign in with your Ethereum account:\n\nI am signing in to Stumble Higher\n\nURI: ${uri}\nVersion: 1\nChain ID: 8453\nNonce: ${nonce}\nIssued At: ${new Date().toISOString()}`;
-
-      // Request signature from Farcaster
-      const result = await window.frame.sdk.actions.signMessage({
-        message,
-      });
-
-      if (!result || !result.signature) {
-        throw new Error('Signature request failed or was cancelled');
-      }
-
-      // Get user profile from Farcaster
-      const userProfile = await window.frame.sdk.context.user;
-
-      if (!userProfile) {
-        throw new Error('Could not get user profile from Farcaster');
-      }
-
-      // Prepare auth data
-      const authData = {
-        fid: userProfile.fid,
-        username: userProfile.username,
-        displayName: userProfile.displayName,
-        pfpUrl: userProfile.pfpUrl,
-        bio: userProfile.bio || '',
-        verifications: userProfile.verifications || [],
-        signature: result.signature,
-        message,
-        nonce,
-      };
+      const authData = await getFarcasterAuthData(sdk);
 
       // Sign in with our backend
       const authResult = await signIn('farcaster', authData);
@@ -100,27 +68,3 @@ export function FarcasterAuthButton({ mode, onSuccess }: FarcasterAuthButtonProp
     </button>
   );
 }
-
-// Extend window type for Farcaster SDK
-declare global {
-  interface Window {
-    frame?: {
-      sdk?: {
-        actions?: {
-          signMessage: (params: { message: string }) => Promise<{ signature: string }>;
-          ready: () => void;
-        };
-        context?: {
-          user?: {
-            fid: number;
-            username: string;
-            displayName: string;
-            pfpUrl: string;
-            bio?: string;
-            verifications?: string[];
-          };
-        };
-      };
-    };
-  }
-}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { ReportReason } from '@/types/database';
+import { useToast } from '@/providers/ToastProvider';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+
+export const REPORT_REASONS: { value: ReportReason; label: string; description: string }[] = [
+  { value: 'spam', label: 'Spam', description: 'Promotional, scammy or low-effort content' },
+  { value: 'inappropriate', label: 'Inappropriate', description: 'Offensive, harmful or NSFW content' },
+  { value: 'broken_link', label: 'Broken link', description: 'The page is gone or won\'t load' },
+  { value: 'duplicate', label: 'Duplicate', description: 'Already on Stumble Higher' },
+  { value: 'other', label: 'Other', description: 'Something else is wrong' },
+];
+
+interface ReportDialogProps {
+  resource: { id: string; title: string };
+  isOpen: boolean;
+  onClose: () => void;
+  onReported?: () => void;
+}
+
+export function ReportDialog({ resource, isOpen, onClose, onReported }: ReportDialogProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [description, setDescription] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { success, error } = useToast();
+
+  const handleClose = () => {
+    setReason(null);
+    setDescription('');
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          resource_id: resource.id,
+          reason,
+          description: description.trim() || undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit report');
+      }
+
+      success(data.message, { title: 'Report submitted' });
+      handleClose();
+      onReported?.();
+    } catch (err) {
+      console.error('Error submitting report:', err);
+      error(err instanceof Error ? err.message : 'Failed to submit report');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-white">Report Content</h2>
+          <button
+            onClick={handleClose}
+            className="text-zinc-400 hover:text-white transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+        <p className="text-sm text-zinc-400 mb-6 truncate">{resource.title}</p>
+
+        {/* Reason Picker */}
+        <div className="space-y-2 mb-4">
+          {REPORT_REASONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setReason(option.value)}
+              className={`w-full text-left px-4 py-3 rounded-lg border transition-colors ${
+                reason === option.value
+                  ? 'border-brand bg-brand/10 text-white'
+                  : 'border-zinc-700 text-zinc-300 hover:border-zinc-500'
+              }`}
+            >
+              <div className="font-medium text-sm">{option.label}</div>
+              <div className="text-xs text-zinc-400">{option.description}</div>
+            </button>
+          ))}
+        </div>
+
+        {/* Details */}
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Anything else we should know? (optional)"
+          maxLength={500}
+          rows={3}
+          className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-500 mb-6"
+        />
+
+        {/* Actions */}
+        <div className="flex gap-3">
+          <button onClick={handleClose} className="flex-1 btn btn-default">
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!reason || submitting}
+            className="flex-1 btn-brand flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {submitting ? <LoadingSpinner size="sm" /> : 'Submit Report'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
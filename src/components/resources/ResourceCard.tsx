@@ -5,6 +5,8 @@ import { ResourceWithVotes } from '@/types/database';
 import { CategoryBadge } from './CategoryBadge';
 import { DifficultyIndicator } from './DifficultyIndicator';
 import { VoteButtons } from './VoteButtons';
+import { ReportDialog } from './ReportDialog';
+import { Flag } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
 interface ResourceCardProps {
@@ -12,6 +14,8 @@ interface ResourceCardProps {
   onVote?: (voteType: 'up' | 'down') => void;
   onFavorite?: () => void;
   onExternalClick?: () => void;
+  onReported?: () => void;
+  showReport?: boolean;
   showDescription?: boolean;
   showSubmitter?: boolean;
   compact?: boolean;
@@ -23,12 +27,15 @@ export function ResourceCard({
   onVote,
   onFavorite,
   onExternalClick,
+  onReported,
+  showReport = false,
   showDescription = true,
   showSubmitter = true,
   compact = false,
   className = '',
 }: ResourceCardProps) {
   const [imageError, setImageError] = useState(false);
+  const [showReportDialog, setShowReportDialog] = useState(false);
 
   const formatTimeEstimate = (minutes?: number) => {
     if (!minutes) return null;
@@ -218,8 +225,27 @@ export function ResourceCard({
               {resource.is_favorited ? '❤️' : '🤍'}
             </button>
           )}
+
+          {showReport && (
+            <button
+              onClick={() => setShowReportDialog(true)}
+              className="btn btn-ghost px-3 text-zinc-400 hover:text-red-400"
+              title="Report"
+            >
+              <Flag size={16} />
+            </button>
+          )}
         </div>
       </div>
+
+      {showReport && (
+        <ReportDialog
+          resource={resource}
+          isOpen={showReportDialog}
+          onClose={() => setShowReportDialog(false)}
+          onReported={onReported}
+        />
+      )}
     </div>
   );
 }
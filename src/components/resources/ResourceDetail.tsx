@@ -0,0 +1,101 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/providers/AuthProvider';
+import { useAnalytics } from '@/providers/AnalyticsProvider';
+import { useToast } from '@/providers/ToastProvider';
+import { ResourceWithVotes } from '@/types/database';
+import { ResourceCard } from './ResourceCard';
+
+interface ResourceDetailProps {
+  resource: ResourceWithVotes;
+}
+
+// Interactive ResourceCard for the server-rendered resource page
+export function ResourceDetail({ resource: initialResource }: ResourceDetailProps) {
+  const router = useRouter();
+  const { isAuthenticated } = useAuth();
+  const { trackResourceInteraction } = useAnalytics();
+  const { error: showError } = useToast();
+  const [resource, setResource] = useState(initialResource);
+
+  useEffect(() => {
+    setResource(initialResource);
+  }, [initialResource]);
+
+  useEffect(() => {
+    trackResourceInteraction(initialResource.id, 'view', { source: 'resource_page' });
+  }, [initialResource.id]);
+
+  const handleVote = async (voteType: 'up' | 'down') => {
+    try {
+      const response = await fetch('/api/votes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          resource_id: resource.id,
+          vote_type: voteType,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to vote');
+      }
+
+      setResource(prev => ({ ...prev, user_vote: result.data.vote_type }));
+      trackResourceInteraction(resource.id, 'vote', { vote_type: voteType, source: 'resource_page' });
+
+      // Refresh the server-rendered vote summary
+      router.refresh();
+    } catch (err) {
+      console.error('Error voting:', err);
+      showError(err instanceof Error ? err.message : 'Failed to vote');
+    }
+  };
+
+  const handleFavorite = async () => {
+    try {
+      const response = await fetch('/api/user/favorites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resource_id: resource.id }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update favorites');
+      }
+
+      setResource(prev => ({ ...prev, is_favorited: result.favorited }));
+      trackResourceInteraction(resource.id, 'favorite', {
+        action: result.favorited ? 'add' : 'remove',
+        source: 'resource_page',
+      });
+    } catch (err) {
+      console.error('Error toggling favorite:', err);
+      showError(err instanceof Error ? err.message : 'Failed to update favorites');
+    }
+  };
+
+  const handleExternalClick = () => {
+    trackResourceInteraction(resource.id, 'click_through', {
+      target_url: resource.url,
+      source: 'resource_page',
+    });
+    window.open(resource.url, '_blank');
+  };
+
+  return (
+    <ResourceCard
+      resource={resource}
+      onVote={isAuthenticated ? handleVote : undefined}
+      onFavorite={isAuthenticated ? handleFavorite : undefined}
+      onExternalClick={handleExternalClick}
+      showReport={isAuthenticated}
+    />
+  );
+}
@@ -0,0 +1,27 @@
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+// search_resources wraps matches in \u0002...\u0003 rather than HTML, so the
+// text can be rendered without dangerouslySetInnerHTML
+const HIGHLIGHT_PATTERN = /\u0002([\s\S]*?)\u0003/g;
+
+export function HighlightedText({ text, className = '' }: HighlightedTextProps) {
+  const parts = text.split(HIGHLIGHT_PATTERN);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        // split() puts the captured (highlighted) text at odd indexes
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-brand/30 text-white rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+}
@@ -1,60 +1,55 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { ExternalLink, AlertCircle } from 'lucide-react';
 import { ResourceWithVotes } from '@/types/database';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { getEmbedUrl, isProxyErrorMessage } from '@/lib/proxy';
 
 interface ContentViewerProps {
   resource: ResourceWithVotes;
+  nextResource?: ResourceWithVotes | null;
   onExternalClick: () => void;
   loading?: boolean;
 }
 
-export function ContentViewer({ resource, onExternalClick, loading = false }: ContentViewerProps) {
+export function ContentViewer({ resource, nextResource, onExternalClick, loading = false }: ContentViewerProps) {
   const [iframeLoading, setIframeLoading] = useState(true);
   const [iframeError, setIframeError] = useState(false);
   const [src, setSrc] = useState<string>('');
+  const [prefetchSrc, setPrefetchSrc] = useState<string>('');
+  const iframeRef = useRef<HTMLIFrameElement>(null);
 
   // Generate proxy URL or direct URL based on content type
   useEffect(() => {
     if (!resource) return;
 
-    const url = resource.url;
+    setIframeLoading(true);
+    setIframeError(false);
+    setSrc(getEmbedUrl(resource.url, navigator.userAgent));
+  }, [resource?.url]); // Votes and favorites replace the object but shouldn't reload the frame
 
-    // Check if it's a YouTube video
-    if (url.includes('youtube.com') || url.includes('youtu.be')) {
-      let videoId = '';
-
-      if (url.includes('youtube.com/watch')) {
-        videoId = new URL(url).searchParams.get('v') || '';
-      } else if (url.includes('youtu.be/')) {
-        videoId = url.split('/').pop()?.split('?')[0] || '';
-      }
-
-      if (videoId) {
-        setSrc(`https://www.youtube.com/embed/${videoId.substring(0, 11)}`);
-        return;
-      }
-    }
+  // Warm the cache with the next resource's page so stumbling to it is instant
+  useEffect(() => {
+    setPrefetchSrc(nextResource ? getEmbedUrl(nextResource.url, navigator.userAgent) : '');
+  }, [nextResource?.url]);
 
-    // Check if it's a Vimeo video
-    if (url.includes('vimeo.com')) {
-      const videoId = url.split('/').pop();
-      if (videoId) {
-        setSrc(`https://player.vimeo.com/video/${videoId}`);
-        return;
-      }
-    }
+  // The proxy's error page posts a message to us, since load events fire for error pages too
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      if (!isProxyErrorMessage(event.data)) return;
+
+      setIframeLoading(false);
+      setIframeError(true);
+    };
 
-    // For other content, use our proxy
-    const proxyUrl = `/api/proxy?u=${encodeURIComponent(url)}&ua=${encodeURIComponent(navigator.userAgent)}`;
-    setSrc(proxyUrl);
-  }, [resource]);
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
 
   const handleIframeLoad = () => {
     setIframeLoading(false);
-    setIframeError(false);
   };
 
   const handleIframeError = () => {
@@ -150,6 +145,7 @@ export function ContentViewer({ resource, onExternalClick, loading = false }: Co
       {/* Main Content Iframe */}
       {src && (
         <iframe
+          ref={iframeRef}
           src={src}
           className="w-full h-full border-0"
           onLoad={handleIframeLoad}
@@ -161,6 +157,11 @@ export function ContentViewer({ resource, onExternalClick, loading = false }: Co
         />
       )}
 
+      {/* Prefetch the next page (fetched into the cache, not rendered or run) */}
+      {prefetchSrc && prefetchSrc !== src && (
+        <link rel="prefetch" href={prefetchSrc} as="document" />
+      )}
+
       {/* Content Info Bar */}
       <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4 z-20">
         <div className="flex items-center justify-between text-white">
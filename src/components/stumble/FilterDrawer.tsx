@@ -0,0 +1,177 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { DifficultyLevel, ResourceCategory, StumbleFilters } from '@/types/database';
+import { DEFAULT_STUMBLE_FILTERS, LONG_CONTENT_MINUTES } from '@/lib/stumble-filters';
+
+interface FilterDrawerProps {
+  isOpen: boolean;
+  filters: StumbleFilters;
+  onApply: (filters: StumbleFilters) => void;
+  onClose: () => void;
+}
+
+const CATEGORY_OPTIONS: { value: ResourceCategory; label: string }[] = [
+  { value: 'books', label: '📚 Books' },
+  { value: 'articles', label: '📄 Articles' },
+  { value: 'videos', label: '🎥 Videos' },
+  { value: 'tools', label: '🛠️ Tools' },
+  { value: 'research', label: '🔬 Research' },
+  { value: 'philosophy', label: '🤔 Philosophy' },
+];
+
+const DIFFICULTY_OPTIONS: { value: DifficultyLevel | null; label: string }[] = [
+  { value: null, label: 'Any' },
+  { value: 'beginner', label: 'Beginner' },
+  { value: 'intermediate', label: 'Intermediate' },
+  { value: 'advanced', label: 'Advanced' },
+];
+
+const TIME_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Any' },
+  { value: 5, label: '5 min' },
+  { value: 15, label: '15 min' },
+  { value: 30, label: '30 min' },
+  { value: 60, label: '1 hour' },
+  { value: 120, label: '2 hours' },
+  { value: 240, label: '4 hours' },
+];
+
+export function FilterDrawer({ isOpen, filters, onApply, onClose }: FilterDrawerProps) {
+  const [draft, setDraft] = useState<StumbleFilters>(filters);
+
+  // Start from the saved filters each time the drawer opens
+  useEffect(() => {
+    if (isOpen) setDraft(filters);
+  }, [isOpen, filters]);
+
+  if (!isOpen) return null;
+
+  const toggleCategory = (category: ResourceCategory) => {
+    setDraft(prev => ({
+      ...prev,
+      categories: prev.categories.includes(category)
+        ? prev.categories.filter(c => c !== category)
+        : [...prev.categories, category],
+    }));
+  };
+
+  const handleApply = () => {
+    onApply(draft);
+    onClose();
+  };
+
+  const optionClass = (selected: boolean) =>
+    `px-3 py-2 text-sm rounded-lg border transition-colors ${
+      selected
+        ? 'bg-brand border-brand text-white'
+        : 'bg-zinc-800 border-zinc-700 text-zinc-300 hover:border-zinc-600'
+    }`;
+
+  return (
+    <>
+      {/* Overlay */}
+      <div className="fixed inset-0 bg-black/60 z-40" onClick={onClose} />
+
+      <div className="fixed inset-y-0 right-0 w-full max-w-sm bg-zinc-900 border-l border-zinc-800 z-50 flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <h2 className="text-lg font-bold text-white">Filters</h2>
+          <button
+            onClick={onClose}
+            className="text-zinc-400 hover:text-white transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {/* Categories */}
+          <div>
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-zinc-500 mb-2">Categories</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {CATEGORY_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => toggleCategory(option.value)}
+                  className={`${optionClass(draft.categories.includes(option.value))} text-left`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-zinc-500 mt-2">None selected shows every category.</p>
+          </div>
+
+          {/* Difficulty */}
+          <div>
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-zinc-500 mb-2">Difficulty</h3>
+            <div className="flex flex-wrap gap-2">
+              {DIFFICULTY_OPTIONS.map(option => (
+                <button
+                  key={option.label}
+                  onClick={() => setDraft(prev => ({ ...prev, difficulty: option.value }))}
+                  className={optionClass(draft.difficulty === option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Max Time */}
+          <div>
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-zinc-500 mb-2">Time Budget</h3>
+            <div className="flex flex-wrap gap-2">
+              {TIME_OPTIONS.map(option => (
+                <button
+                  key={option.label}
+                  onClick={() => setDraft(prev => ({ ...prev, max_time: option.value }))}
+                  className={optionClass(draft.max_time === option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Toggles */}
+          <div className="space-y-3">
+            <label className="flex items-center justify-between gap-3 text-sm text-zinc-300 cursor-pointer">
+              <span>Hide videos</span>
+              <input
+                type="checkbox"
+                checked={draft.hide_videos}
+                onChange={(e) => setDraft(prev => ({ ...prev, hide_videos: e.target.checked }))}
+                className="h-4 w-4 accent-brand"
+              />
+            </label>
+            <label className="flex items-center justify-between gap-3 text-sm text-zinc-300 cursor-pointer">
+              <span>Hide long content (over {LONG_CONTENT_MINUTES} min)</span>
+              <input
+                type="checkbox"
+                checked={draft.hide_long_content}
+                onChange={(e) => setDraft(prev => ({ ...prev, hide_long_content: e.target.checked }))}
+                className="h-4 w-4 accent-brand"
+              />
+            </label>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3 p-4 border-t border-zinc-800">
+          <button
+            onClick={() => setDraft(DEFAULT_STUMBLE_FILTERS)}
+            className="flex-1 btn btn-default"
+          >
+            Reset
+          </button>
+          <button onClick={handleApply} className="flex-1 btn-brand">
+            Apply
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
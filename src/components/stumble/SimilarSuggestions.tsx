@@ -0,0 +1,46 @@
+'use client';
+
+import { X } from 'lucide-react';
+import { SimilarResource } from '@/types/database';
+
+interface SimilarSuggestionsProps {
+  suggestions: SimilarResource[];
+  onSelect: (resource: SimilarResource) => void;
+  onDismiss: () => void;
+}
+
+// Shown after an upvote: what people who liked the current resource also liked
+export function SimilarSuggestions({ suggestions, onSelect, onDismiss }: SimilarSuggestionsProps) {
+  if (suggestions.length === 0) return null;
+
+  const collaborative = suggestions.some(item => item.similarity.source === 'collaborative');
+
+  return (
+    <div className="bg-zinc-950/80 backdrop-blur-sm border-t border-zinc-800 px-4 py-3">
+      <div className="max-w-4xl mx-auto flex items-center gap-3">
+        <span className="text-xs text-zinc-400 whitespace-nowrap">
+          {collaborative ? 'People who liked this also liked' : 'More like this'}
+        </span>
+        <div className="flex-1 flex gap-2 overflow-x-auto">
+          {suggestions.map(item => (
+            <button
+              key={item.id}
+              onClick={() => onSelect(item)}
+              className="px-3 py-1.5 text-sm bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-full text-zinc-200 whitespace-nowrap max-w-[240px] truncate transition-colors"
+              title={item.title}
+            >
+              {item.title}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onDismiss}
+          className="text-zinc-500 hover:text-white transition-colors"
+          title="Dismiss"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,27 @@
 'use client';
 
 import { useState } from 'react';
-import { Home, ExternalLink, Heart, Share2, Settings, ChevronDown } from 'lucide-react';
+import { Home, Search, ExternalLink, Heart, Share2, Flag, Settings, ChevronDown, ChevronLeft, SlidersHorizontal } from 'lucide-react';
 import Link from 'next/link';
 import { ResourceWithVotes } from '@/types/database';
+import { StumbleAlgorithm } from '@/hooks/useStumbleQueue';
 import { VoteButtons } from '@/components/resources/VoteButtons';
+import { ReportDialog } from '@/components/resources/ReportDialog';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 
 interface StumbleControlsProps {
   resource: ResourceWithVotes | null;
   onStumble: () => void;
+  onPrevious?: () => void;
+  canGoBack?: boolean;
   onVote: (voteType: 'up' | 'down') => void;
   onFavorite: () => void;
   onExternalClick: () => void;
-  onAlgorithmChange: (algorithm: 'personalized' | 'popular' | 'recent' | 'random') => void;
-  currentAlgorithm: 'personalized' | 'popular' | 'recent' | 'random';
+  onReported?: () => void;
+  onOpenFilters?: () => void;
+  activeFilterCount?: number;
+  onAlgorithmChange: (algorithm: StumbleAlgorithm) => void;
+  currentAlgorithm: StumbleAlgorithm;
   loading: boolean;
   isAuthenticated: boolean;
 }
@@ -22,17 +29,24 @@ interface StumbleControlsProps {
 export function StumbleControls({
   resource,
   onStumble,
+  onPrevious,
+  canGoBack = false,
   onVote,
   onFavorite,
   onExternalClick,
+  onReported,
+  onOpenFilters,
+  activeFilterCount = 0,
   onAlgorithmChange,
   currentAlgorithm,
   loading,
   isAuthenticated,
 }: StumbleControlsProps) {
   const [showAlgorithmMenu, setShowAlgorithmMenu] = useState(false);
+  const [showReportDialog, setShowReportDialog] = useState(false);
 
-  const algorithmLabels = {
+  const algorithmLabels: Record<StumbleAlgorithm, string> = {
+    balanced: '⚖️ Balanced',
     personalized: '🎯 For You',
     popular: '🔥 Popular',
     recent: '🆕 Recent',
@@ -42,12 +56,14 @@ export function StumbleControls({
   const handleShare = async () => {
     if (!resource) return;
 
+    const shareUrl = `${window.location.origin}/resource/${resource.id}`;
+
     if (navigator.share) {
       try {
         await navigator.share({
           title: resource.title,
           text: resource.description || '',
-          url: window.location.href,
+          url: shareUrl,
         });
       } catch (error) {
         // User cancelled sharing or error occurred
@@ -56,7 +72,7 @@ export function StumbleControls({
     } else {
       // Fallback: copy to clipboard
       await navigator.clipboard.writeText(
-        `Check out "${resource.title}" on Stumble Higher: ${window.location.href}`
+        `Check out "${resource.title}" on Stumble Higher: ${shareUrl}`
       );
       // You might want to show a toast here
     }
@@ -99,6 +115,15 @@ export function StumbleControls({
               <Home size={16} />
             </Link>
 
+            {/* Search Button */}
+            <Link
+              href="/search"
+              className="btn-brand-sm flex items-center justify-center"
+              title="Search"
+            >
+              <Search size={16} />
+            </Link>
+
             {/* External Link Button */}
             <button
               onClick={onExternalClick}
@@ -109,10 +134,23 @@ export function StumbleControls({
               <ExternalLink size={16} />
             </button>
 
+            {/* Previous Button */}
+            {onPrevious && (
+              <button
+                onClick={onPrevious}
+                disabled={!canGoBack}
+                className="btn-brand-sm flex items-center justify-center disabled:opacity-40"
+                title="Previous (←)"
+              >
+                <ChevronLeft size={16} />
+              </button>
+            )}
+
             {/* Stumble Button */}
             <button
               onClick={onStumble}
               disabled={loading}
+              title="Next (→)"
               className="flex-1 bg-brand hover:bg-brand-dark text-white font-bold py-3 px-6 rounded-full transition-all duration-200 hover:shadow-lg hover:shadow-brand/20 flex items-center justify-center gap-2"
             >
               {loading ? (
@@ -161,6 +199,33 @@ export function StumbleControls({
               <Share2 size={16} />
             </button>
 
+            {/* Report Button */}
+            {resource && isAuthenticated && (
+              <button
+                onClick={() => setShowReportDialog(true)}
+                className="btn-brand-sm flex items-center justify-center"
+                title="Report"
+              >
+                <Flag size={16} />
+              </button>
+            )}
+
+            {/* Filters Button */}
+            {onOpenFilters && (
+              <button
+                onClick={onOpenFilters}
+                className="btn-brand-sm relative flex items-center justify-center"
+                title="Filters"
+              >
+                <SlidersHorizontal size={16} />
+                {activeFilterCount > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-white text-brand text-[10px] font-bold leading-4 text-center">
+                    {activeFilterCount}
+                  </span>
+                )}
+              </button>
+            )}
+
             {/* Algorithm Menu */}
             <div className="relative">
               <button
@@ -209,6 +274,15 @@ export function StumbleControls({
         </div>
       </div>
 
+      {resource && (
+        <ReportDialog
+          resource={resource}
+          isOpen={showReportDialog}
+          onClose={() => setShowReportDialog(false)}
+          onReported={onReported}
+        />
+      )}
+
       {/* Click overlay to close algorithm menu */}
       {showAlgorithmMenu && (
         <div
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/providers/AuthProvider';
-import { useWeb3, useSubmissionPayment, useHigherBalance } from '@/providers/Web3Provider';
+import { useWeb3, useSubmissionPayment, useHigherBalance, useWallet } from '@/providers/Web3Provider';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { ArrowLeft, Wallet, ExternalLink, AlertCircle, CheckCircle } from 'lucide-react';
 
@@ -31,7 +31,8 @@ export function PaymentStep({
   onBack
 }: PaymentStepProps) {
   const { user } = useAuth();
-  const { contracts } = useWeb3();
+  const { contracts, isCorrectNetwork, targetChain } = useWeb3();
+  const { switchNetwork } = useWallet();
   const { payForSubmission, isSubmitting, txHash } = useSubmissionPayment();
   const { balance, loading: balanceLoading, fetchBalance } = useHigherBalance();
 
@@ -164,6 +165,25 @@ export function PaymentStep({
           </div>
         </div>
 
+        {/* Wrong Network Warning */}
+        {!isCorrectNetwork && (
+          <div className="mt-4 p-3 bg-yellow-900/20 border border-yellow-600 rounded-lg flex items-start gap-3">
+            <AlertCircle className="text-yellow-400 flex-shrink-0 mt-0.5" size={16} />
+            <div className="text-sm">
+              <div className="text-yellow-400 font-medium mb-1">Wrong Network</div>
+              <div className="text-zinc-300">
+                Your wallet is connected to a different network. Payments are made on {targetChain.name}.
+              </div>
+              <button
+                onClick={switchNetwork}
+                className="inline-flex items-center gap-1 text-brand hover:underline mt-2"
+              >
+                Switch to {targetChain.name}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Insufficient Balance Warning */}
         {hasInsufficientBalance() && (
           <div className="mt-4 p-3 bg-red-900/20 border border-red-600 rounded-lg flex items-start gap-3">
@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { ResourceCategory, DifficultyLevel } from '@/types/database';
+import type { PageMetadata } from '@/lib/metadata';
 import { Globe, User, AlignLeft, Tag, Clock, BarChart3 } from 'lucide-react';
 
 interface SubmissionData {
@@ -57,63 +58,54 @@ export function SubmissionForm({ onSubmit, initialData }: SubmissionFormProps) {
   const [errors, setErrors] = useState<Partial<SubmissionData>>({});
   const [isLoadingMetadata, setIsLoadingMetadata] = useState(false);
   const [customTag, setCustomTag] = useState('');
+  const latestUrl = useRef(formData.url);
 
   // Auto-extract metadata when URL changes
   useEffect(() => {
-    if (formData.url && formData.url !== initialData?.url) {
-      extractMetadata(formData.url);
-    }
+    latestUrl.current = formData.url;
+    if (!formData.url || formData.url === initialData?.url) return;
+
+    // Wait until the user has finished typing or pasting
+    const timer = setTimeout(() => extractMetadata(formData.url), 600);
+    return () => clearTimeout(timer);
   }, [formData.url]);
 
+  // Prefill empty fields from the page's metadata, falling back to URL-based guesses
   const extractMetadata = async (url: string) => {
     if (!isValidUrl(url)) return;
 
     setIsLoadingMetadata(true);
-    try {
-      // This would call our metadata extraction API
-      // For now, we'll do basic URL-based inference
-      const hostname = new URL(url).hostname.toLowerCase();
-
-      // Infer category from URL
-      let category = formData.category;
-      if (!category) {
-        if (hostname.includes('youtube.com') || hostname.includes('youtu.be') || hostname.includes('vimeo')) {
-          category = 'videos';
-        } else if (hostname.includes('github.com') || hostname.includes('app') || hostname.includes('tool')) {
-          category = 'tools';
-        } else if (hostname.includes('arxiv') || hostname.includes('research') || hostname.includes('paper')) {
-          category = 'research';
-        } else if (url.includes('.pdf')) {
-          category = 'books';
-        } else {
-          category = 'articles';
-        }
-      }
+    let metadata: PageMetadata | null = null;
 
-      // Estimate time based on content type
-      let estimatedTime = formData.estimated_time_minutes;
-      if (!estimatedTime) {
-        if (category === 'videos') {
-          estimatedTime = 30; // Average video length
-        } else if (category === 'books') {
-          estimatedTime = 300; // 5 hours for a book
-        } else if (category === 'tools') {
-          estimatedTime = 15; // Time to explore a tool
-        } else {
-          estimatedTime = 10; // Average article read time
-        }
+    try {
+      const response = await fetch(`/api/metadata?url=${encodeURIComponent(url)}`);
+      if (response.ok) {
+        metadata = (await response.json()).data;
       }
-
-      setFormData(prev => ({
-        ...prev,
-        category,
-        estimated_time_minutes: estimatedTime,
-      }));
     } catch (error) {
       console.error('Error extracting metadata:', error);
     } finally {
       setIsLoadingMetadata(false);
     }
+
+    // The URL changed while we were fetching
+    if (url !== latestUrl.current) return;
+
+    setFormData(prev => {
+      const category = prev.category || metadata?.category || guessCategory(url);
+
+      return {
+        ...prev,
+        title: prev.title || metadata?.title?.slice(0, 200) || '',
+        author: prev.author || metadata?.author?.slice(0, 100) || '',
+        description: prev.description || metadata?.description?.slice(0, 1000) || '',
+        tags: prev.tags && prev.tags.length > 0 ? prev.tags : (metadata?.tags || []).slice(0, 10),
+        category,
+        estimated_time_minutes: prev.estimated_time_minutes
+          || metadata?.estimated_time_minutes
+          || guessTimeMinutes(category),
+      };
+    });
   };
 
   const isValidUrl = (url: string): boolean => {
@@ -433,3 +425,31 @@ export function SubmissionForm({ onSubmit, initialData }: SubmissionFormProps) {
     </div>
   );
 }
+
+// Infer a category from the URL when the page doesn't say
+function guessCategory(url: string): string {
+  const hostname = new URL(url).hostname.toLowerCase();
+
+  if (hostname.includes('youtube.com') || hostname.includes('youtu.be') || hostname.includes('vimeo')) {
+    return 'videos';
+  } else if (hostname.includes('github.com') || hostname.includes('app') || hostname.includes('tool')) {
+    return 'tools';
+  } else if (hostname.includes('arxiv') || hostname.includes('research') || hostname.includes('paper')) {
+    return 'research';
+  } else if (url.includes('.pdf')) {
+    return 'books';
+  }
+  return 'articles';
+}
+
+// Typical time for a category when the page has no word count or duration
+function guessTimeMinutes(category: string): number {
+  if (category === 'videos') {
+    return 30; // Average video length
+  } else if (category === 'books') {
+    return 300; // 5 hours for a book
+  } else if (category === 'tools') {
+    return 15; // Time to explore a tool
+  }
+  return 10; // Average article read time
+}
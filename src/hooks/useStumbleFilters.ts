@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '@/providers/AuthProvider';
+import { authService } from '@/lib/auth';
+import {
+  DEFAULT_STUMBLE_FILTERS,
+  filtersFromPreferences,
+  normalizeStumbleFilters,
+  preferencesFromFilters,
+} from '@/lib/stumble-filters';
+import { StumbleFilters } from '@/types/database';
+
+const STORAGE_KEY = 'stumble-filters';
+
+// Stumble filter drawer state. Signed-in users' filters are their preference
+// columns, the same ones /settings edits; signed-out users' live in
+// localStorage. `loaded` stays false until the saved filters (and the default
+// discovery algorithm) are known so the first stumble isn't fetched with the
+// wrong ones.
+export function useStumbleFilters() {
+  const { user, loading: authLoading } = useAuth();
+  const [filters, setFilters] = useState<StumbleFilters>(DEFAULT_STUMBLE_FILTERS);
+  const [preferredAlgorithm, setPreferredAlgorithm] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const excludedCategories = useRef<string[]>([]);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      let loadedFilters = DEFAULT_STUMBLE_FILTERS;
+      let algorithm: string | null = null;
+
+      if (userId) {
+        const { data, error } = await authService.getUserPreferences();
+        if (error) console.error('Error loading stumble filters:', error);
+        if (data) {
+          loadedFilters = filtersFromPreferences(data);
+          excludedCategories.current = data.excluded_categories || [];
+          algorithm = data.discovery_algorithm ?? null;
+        }
+      } else {
+        try {
+          loadedFilters = normalizeStumbleFilters(JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null'));
+        } catch (error) {
+          loadedFilters = DEFAULT_STUMBLE_FILTERS;
+        }
+      }
+
+      if (!cancelled) {
+        setFilters(loadedFilters);
+        setPreferredAlgorithm(algorithm);
+        setLoaded(true);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [authLoading, userId]);
+
+  const updateFilters = useCallback(async (next: StumbleFilters) => {
+    setFilters(next);
+
+    if (userId) {
+      const { data, error } = await authService.updateUserPreferences(
+        preferencesFromFilters(next, excludedCategories.current)
+      );
+      if (error) console.error('Error saving stumble filters:', error);
+      if (data) excludedCategories.current = data.excluded_categories || [];
+    } else {
+      try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.error('Error saving stumble filters:', error);
+      }
+    }
+  }, [userId]);
+
+  return { filters, preferredAlgorithm, loaded, updateFilters };
+}
@@ -0,0 +1,253 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { stumbleFilterParams } from '@/lib/stumble-filters';
+import { ResourceWithVotes, StumbleFilters } from '@/types/database';
+
+export type StumbleAlgorithm = 'balanced' | 'personalized' | 'popular' | 'recent' | 'random';
+
+interface QueuedResource {
+  resource: ResourceWithVotes;
+  algorithmUsed: string; // e.g. 'popular', or 'balanced:trending' for a balanced pick
+}
+
+interface UseStumbleQueueOptions {
+  algorithm: StumbleAlgorithm;
+  sessionId: string;
+  filters?: StumbleFilters;
+  // Hold off fetching (e.g. until saved filters have loaded)
+  enabled?: boolean;
+  // Deep-linked resource (/stumble?r=<id>) to show before anything from the queue
+  initialResourceId?: string | null;
+  // Called each time a newly stumbled resource is shown (not when revisiting history)
+  onShow?: (resource: ResourceWithVotes, algorithmUsed: string) => void;
+}
+
+const QUEUE_SIZE = 5;
+const REFILL_THRESHOLD = 2;
+const HISTORY_LIMIT = 100;
+
+// Prefetching stumble queue with back/forward history. Resources are fetched
+// from /api/discover a batch at a time and the server excludes anything the
+// session has been shown (recorded with each view), so the client only sends
+// what it has queued but not shown yet.
+// The queue refills in the background when it runs low, and restarts when the
+// algorithm or filters change.
+export function useStumbleQueue({
+  algorithm,
+  sessionId,
+  filters,
+  enabled = true,
+  initialResourceId,
+  onShow,
+}: UseStumbleQueueOptions) {
+  const [current, setCurrent] = useState<ResourceWithVotes | null>(null);
+  const [queueHead, setQueueHead] = useState<ResourceWithVotes | null>(null);
+  const [position, setPosition] = useState(-1);
+  const [historyLength, setHistoryLength] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const queue = useRef<QueuedResource[]>([]);
+  const history = useRef<QueuedResource[]>([]);
+  const positionRef = useRef(-1);
+  const inflight = useRef<Promise<void> | null>(null);
+  const generation = useRef(0); // Bumped on algorithm or filter change so stale batches are dropped
+  const exhausted = useRef(false);
+  const linkedId = useRef(initialResourceId);
+  const excludeOnce = useRef(initialResourceId); // The deep-linked resource shouldn't come back from the queue
+  const onShowRef = useRef(onShow);
+  onShowRef.current = onShow;
+
+  // Serialized so a new filters object with the same values doesn't restart the queue
+  const filterQuery = filters ? new URLSearchParams(stumbleFilterParams(filters)).toString() : '';
+
+  // Make a history entry current
+  const showEntry = useCallback((index: number) => {
+    positionRef.current = index;
+    setPosition(index);
+    setHistoryLength(history.current.length);
+    setCurrent(history.current[index].resource);
+  }, []);
+
+  // Show a new resource, dropping any forward history
+  const pushEntry = useCallback((item: QueuedResource) => {
+    history.current = history.current
+      .slice(0, positionRef.current + 1)
+      .concat(item)
+      .slice(-HISTORY_LIMIT);
+
+    showEntry(history.current.length - 1);
+    onShowRef.current?.(item.resource, item.algorithmUsed);
+  }, [showEntry]);
+
+  // Fetch a batch into the queue; concurrent callers share one request
+  const fill = useCallback((): Promise<void> => {
+    if (inflight.current) return inflight.current;
+
+    const requestGeneration = generation.current;
+    const request = (async () => {
+      const params = new URLSearchParams(filterQuery);
+      params.set('algorithm', algorithm);
+      params.set('limit', String(QUEUE_SIZE));
+      params.set('session_id', sessionId);
+
+      // Queued resources aren't recorded until shown, and the latest view may still be in flight
+      const excludeIds = queue.current.map(item => item.resource.id);
+      const latest = history.current[history.current.length - 1];
+      if (latest) excludeIds.push(latest.resource.id);
+      if (excludeOnce.current) excludeIds.push(excludeOnce.current);
+      if (excludeIds.length > 0) params.set('exclude_ids', excludeIds.join(','));
+
+      const response = await fetch(`/api/discover?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch resources');
+      }
+
+      excludeOnce.current = null;
+      if (requestGeneration !== generation.current) return;
+
+      const batch: ResourceWithVotes[] = data.data || [];
+      exhausted.current = batch.length === 0;
+      queue.current = queue.current.concat(
+        batch.map(resource => ({
+          resource,
+          algorithmUsed: resource.discovery_source
+            ? `${data.algorithm_used}:${resource.discovery_source}`
+            : data.algorithm_used,
+        }))
+      );
+      setQueueHead(queue.current[0]?.resource ?? null);
+    })().finally(() => {
+      inflight.current = null;
+    });
+
+    inflight.current = request;
+    return request;
+  }, [algorithm, sessionId, filterQuery]);
+
+  // Show the next queued resource, waiting for a fetch only if the queue is empty
+  const pullNext = useCallback(async () => {
+    const pullGeneration = generation.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      // A second attempt covers a batch dropped for belonging to the previous algorithm
+      for (let attempt = 0; queue.current.length === 0 && attempt < 2; attempt++) {
+        await fill();
+      }
+
+      // The algorithm or filters changed while we waited; the restart shows its own first resource
+      if (pullGeneration !== generation.current) return;
+
+      const item = queue.current.shift();
+      if (!item) {
+        throw new Error('No more resources available');
+      }
+
+      setQueueHead(queue.current[0]?.resource ?? null);
+      pushEntry(item);
+
+      if (queue.current.length < REFILL_THRESHOLD && !exhausted.current) {
+        fill().catch(err => console.error('Error refilling stumble queue:', err));
+      }
+
+      setLoading(false);
+    } catch (err) {
+      if (pullGeneration !== generation.current) return;
+
+      console.error('Error fetching resource:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load content');
+      setLoading(false);
+    }
+  }, [fill, pushEntry]);
+
+  // Show a specific resource next, falling back to the queue if it's gone
+  const showLinked = useCallback(async (resourceId: string, algorithmUsed = 'link') => {
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/resources/${resourceId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch resource');
+      }
+
+      pushEntry({ resource: data.data, algorithmUsed });
+      setLoading(false);
+
+      // Have the next one ready
+      fill().catch(err => console.error('Error filling stumble queue:', err));
+    } catch (err) {
+      console.error('Error fetching linked resource:', err);
+      pullNext();
+    }
+  }, [fill, pullNext, pushEntry]);
+
+  // Forward through history if we've gone back, otherwise stumble to something new
+  const advance = useCallback(() => {
+    if (positionRef.current < history.current.length - 1) {
+      setError(null);
+      showEntry(positionRef.current + 1);
+      return;
+    }
+
+    pullNext();
+  }, [pullNext, showEntry]);
+
+  const back = useCallback(() => {
+    if (positionRef.current > 0) {
+      setError(null);
+      showEntry(positionRef.current - 1);
+    }
+  }, [showEntry]);
+
+  // Start over whenever the algorithm or filters change (and on first load)
+  useEffect(() => {
+    if (!enabled) return;
+
+    generation.current += 1;
+    queue.current = [];
+    exhausted.current = false;
+    setQueueHead(null);
+
+    const resourceId = linkedId.current;
+    linkedId.current = null;
+
+    if (resourceId) {
+      showLinked(resourceId);
+    } else {
+      pullNext();
+    }
+  }, [pullNext, enabled]);
+
+  // Apply local changes (votes, favorites) to the current resource
+  const updateCurrent = useCallback((changes: Partial<ResourceWithVotes>) => {
+    const entry = history.current[positionRef.current];
+    if (entry) {
+      entry.resource = { ...entry.resource, ...changes };
+    }
+    setCurrent(prev => prev ? { ...prev, ...changes } : null);
+  }, []);
+
+  // What the next stumble will show, for preloading
+  const next = position < historyLength - 1
+    ? history.current[position + 1]?.resource ?? null
+    : queueHead;
+
+  return {
+    current,
+    currentAlgorithmUsed: history.current[position]?.algorithmUsed ?? null,
+    next,
+    loading,
+    error,
+    advance,
+    back,
+    showResource: showLinked,
+    canGoBack: position > 0,
+    canGoForward: position < historyLength - 1, // advance() will revisit history rather than stumble to something new
+    updateCurrent,
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from '@jest/globals';
+import { canonicalizeUrl } from '@/lib/canonical-url';
+
+describe('canonicalizeUrl', () => {
+  it('normalizes scheme, www., default port and trailing slashes', () => {
+    expect(canonicalizeUrl('http://www.Example.com:443/a//b/')).toBe('https://example.com/a/b');
+    expect(canonicalizeUrl('https://example.com/')).toBe('https://example.com');
+    expect(canonicalizeUrl('https://example.com:8080/x')).toBe('https://example.com:8080/x');
+  });
+
+  it('drops global tracking params and sorts the rest', () => {
+    expect(canonicalizeUrl('https://example.com/p?b=2&utm_source=x&a=1&fbclid=abc&gclid=1'))
+      .toBe('https://example.com/p?a=1&b=2');
+  });
+
+  it('only strips ref and si on sites where they are tracking params', () => {
+    expect(canonicalizeUrl('https://github.com/org/repo?ref=dev')).toBe('https://github.com/org/repo?ref=dev');
+    expect(canonicalizeUrl('https://example.com/?si=2&utm_medium=x')).toBe('https://example.com?si=2');
+    expect(canonicalizeUrl('https://www.producthunt.com/posts/thing?ref=home')).toBe('https://producthunt.com/posts/thing');
+    expect(canonicalizeUrl('https://open.spotify.com/track/123?si=abc')).toBe('https://open.spotify.com/track/123');
+    expect(canonicalizeUrl('https://x.com/user/status/1?s=20&t=abc')).toBe('https://x.com/user/status/1');
+  });
+
+  it('keeps hash-router fragments and drops anchors', () => {
+    expect(canonicalizeUrl('https://example.com/#!/page')).toBe('https://example.com#!/page');
+    expect(canonicalizeUrl('https://example.com/app/#/settings')).toBe('https://example.com/app#/settings');
+    expect(canonicalizeUrl('https://example.com/docs#install')).toBe('https://example.com/docs');
+  });
+
+  it('rewrites YouTube share variants to one watch URL', () => {
+    const watch = 'https://youtube.com/watch?v=dQw4w9WgXcQ';
+    expect(canonicalizeUrl('https://youtu.be/dQw4w9WgXcQ?si=abc')).toBe(watch);
+    expect(canonicalizeUrl('https://www.youtube.com/shorts/dQw4w9WgXcQ')).toBe(watch);
+    expect(canonicalizeUrl('https://m.youtube.com/watch?v=dQw4w9WgXcQ&t=42')).toBe(watch);
+  });
+
+  it('rewrites Google Drive and Docs share links', () => {
+    expect(canonicalizeUrl('https://drive.google.com/open?id=abc123')).toBe('https://drive.google.com/file/d/abc123');
+    expect(canonicalizeUrl('https://drive.google.com/file/d/abc123/view?usp=sharing'))
+      .toBe('https://drive.google.com/file/d/abc123');
+    expect(canonicalizeUrl('https://docs.google.com/document/d/xyz/edit#heading=h.1'))
+      .toBe('https://docs.google.com/document/d/xyz');
+  });
+
+  it('returns non-http input trimmed and unchanged', () => {
+    expect(canonicalizeUrl('  not a url ')).toBe('not a url');
+    expect(canonicalizeUrl('ftp://example.com/file')).toBe('ftp://example.com/file');
+  });
+});
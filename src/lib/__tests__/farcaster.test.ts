@@ -0,0 +1,118 @@
+import { describe, expect, it } from '@jest/globals';
+import { SiweMessage } from 'siwe';
+import { privateKeyToAccount } from 'viem/accounts';
+import { createStaticResolver, verifyFarcasterSignIn } from '@/lib/farcaster';
+
+const DOMAIN = 'stumble.test';
+const FID = 1234;
+const NONCE = 'abcdef1234567890';
+
+const custody = privateKeyToAccount(`0x${'11'.repeat(32)}`);
+const verified = privateKeyToAccount(`0x${'22'.repeat(32)}`);
+const stranger = privateKeyToAccount(`0x${'33'.repeat(32)}`);
+
+const resolver = createStaticResolver({
+  [FID]: { custody: custody.address, verifications: [verified.address] },
+});
+
+type Signer = typeof custody;
+
+// Build and sign a Sign In With Farcaster message
+const signIn = async (signer: Signer = custody, overrides: Partial<SiweMessage> = {}) => {
+  const message = new SiweMessage({
+    domain: DOMAIN,
+    address: signer.address,
+    statement: 'Farcaster Auth',
+    uri: `https://${DOMAIN}/login`,
+    version: '1',
+    chainId: 10,
+    nonce: NONCE,
+    issuedAt: new Date().toISOString(),
+    resources: [`farcaster://fid/${FID}`],
+    ...overrides,
+  }).prepareMessage();
+
+  return { message, signature: await signer.signMessage({ message }) };
+};
+
+// Nonce store that hands out NONCE once
+const nonceStore = () => {
+  const issued = new Set([NONCE]);
+  const consumed: string[] = [];
+  return {
+    consumed,
+    consumeNonce: async (nonce: string) => {
+      consumed.push(nonce);
+      return issued.delete(nonce);
+    },
+  };
+};
+
+const verify = (signed: { message: string; signature: string }, store = nonceStore(), fid = FID) =>
+  verifyFarcasterSignIn({ ...signed, fid, domain: DOMAIN, resolver, consumeNonce: store.consumeNonce });
+
+describe('verifyFarcasterSignIn', () => {
+  it('accepts a message signed by the custody address and consumes its nonce', async () => {
+    const store = nonceStore();
+    const result = await verify(await signIn(), store);
+
+    expect(result).toMatchObject({ success: true, address: custody.address.toLowerCase() });
+    expect(store.consumed).toEqual([NONCE]);
+  });
+
+  it('accepts a message signed by a verified address', async () => {
+    const result = await verify(await signIn(verified));
+    expect(result).toMatchObject({ success: true, address: verified.address.toLowerCase() });
+  });
+
+  it('rejects a replayed message once its nonce is spent', async () => {
+    const store = nonceStore();
+    const signed = await signIn();
+
+    expect((await verify(signed, store)).success).toBe(true);
+    expect(await verify(signed, store)).toEqual({ success: false, error: 'Invalid or expired nonce' });
+  });
+
+  it('rejects a signer that does not control the FID without consuming the nonce', async () => {
+    const store = nonceStore();
+    const result = await verify(await signIn(stranger), store);
+
+    expect(result).toEqual({ success: false, error: 'Signer does not control this Farcaster account' });
+    expect(store.consumed).toEqual([]);
+  });
+
+  it('rejects a tampered message without consuming the nonce', async () => {
+    const store = nonceStore();
+    const signed = await signIn();
+    const tampered = { ...signed, message: signed.message.replace('Farcaster Auth', 'Something else') };
+
+    expect(await verify(tampered, store)).toEqual({ success: false, error: 'Invalid signature' });
+    expect(store.consumed).toEqual([]);
+  });
+
+  it('rejects a message for another FID', async () => {
+    expect(await verify(await signIn(), nonceStore(), FID + 1)).toEqual({ success: false, error: 'FID mismatch' });
+  });
+
+  it('rejects a message for another domain', async () => {
+    const signed = await signIn(custody, { domain: 'evil.test', uri: 'https://evil.test/login' });
+    expect(await verify(signed)).toEqual({ success: false, error: 'Domain mismatch' });
+  });
+
+  it('rejects a message whose URI points elsewhere', async () => {
+    const signed = await signIn(custody, { uri: 'https://evil.test/login' });
+    expect(await verify(signed)).toEqual({ success: false, error: 'URI mismatch' });
+  });
+
+  it('rejects stale and expired messages', async () => {
+    const stale = await signIn(custody, { issuedAt: new Date(Date.now() - 60 * 60 * 1000).toISOString() });
+    const expired = await signIn(custody, { expirationTime: new Date(Date.now() - 1000).toISOString() });
+
+    expect(await verify(stale)).toEqual({ success: false, error: 'Message expired' });
+    expect(await verify(expired)).toEqual({ success: false, error: 'Message expired' });
+  });
+
+  it('rejects a malformed message', async () => {
+    expect(await verify({ message: 'hello', signature: '0x' })).toEqual({ success: false, error: 'Malformed sign-in message' });
+  });
+});
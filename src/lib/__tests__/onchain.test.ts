@@ -0,0 +1,135 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  encodeAbiParameters,
+  encodeEventTopics,
+  parseAbi,
+  parseUnits,
+  type Address,
+  type Hash,
+  type TransactionReceipt,
+} from 'viem';
+import { verifySubmissionPayment, type SubmissionRpcClient } from '@/lib/onchain';
+
+const TOKEN: Address = '0x0578d8a44db98b23bf096a382e016e29a5ce0ffe';
+const RECIPIENT: Address = '0x1111111111111111111111111111111111111111';
+const SUBMITTER: Address = '0x2222222222222222222222222222222222222222';
+const OTHER: Address = '0x3333333333333333333333333333333333333333';
+const TX_HASH: Hash = `0x${'ab'.repeat(32)}`;
+
+const TRANSFER_ABI = parseAbi(['event Transfer(address indexed from, address indexed to, uint256 value)']);
+
+const config = {
+  tokenAddress: TOKEN,
+  recipientAddress: RECIPIENT,
+  tokenDecimals: 18,
+  minConfirmations: 3,
+};
+
+const transferLog = (from: Address, to: Address, tokens: string, address: Address = TOKEN) => ({
+  address,
+  topics: encodeEventTopics({ abi: TRANSFER_ABI, eventName: 'Transfer', args: { from, to } }),
+  data: encodeAbiParameters([{ type: 'uint256' }], [parseUnits(tokens, 18)]),
+});
+
+// Receipt mined in block 100 with the given logs; the chain head is latestBlock
+const stubClient = (
+  logs: ReturnType<typeof transferLog>[],
+  { latestBlock = BigInt(110), status = 'success' } = {}
+): SubmissionRpcClient => ({
+  getTransactionReceipt: async () => ({ status, blockNumber: BigInt(100), logs } as unknown as TransactionReceipt),
+  getBlockNumber: async () => latestBlock,
+});
+
+const verify = (client: SubmissionRpcClient, extra: { isUsed?: (hash: Hash) => Promise<boolean> } = {}) =>
+  verifySubmissionPayment({ txHash: TX_HASH, from: SUBMITTER, minAmount: 1000, client, config, ...extra });
+
+describe('verifySubmissionPayment', () => {
+  it('accepts a confirmed transfer and reports the amount paid', async () => {
+    const result = await verify(stubClient([transferLog(SUBMITTER, RECIPIENT, '1500')]));
+
+    expect(result).toEqual({
+      valid: true,
+      amount: parseUnits('1500', 18),
+      tokens: '1500',
+      blockNumber: BigInt(100),
+      confirmations: BigInt(11),
+    });
+  });
+
+  it('sums transfers split across logs', async () => {
+    const result = await verify(stubClient([
+      transferLog(SUBMITTER, RECIPIENT, '600'),
+      transferLog(SUBMITTER, RECIPIENT, '400'),
+    ]));
+
+    expect(result.valid && result.tokens).toBe('1000');
+  });
+
+  it('rejects a transfer to the wrong recipient', async () => {
+    const result = await verify(stubClient([transferLog(SUBMITTER, OTHER, '1000')]));
+    expect(result).toMatchObject({ valid: false, reason: 'no_matching_transfer' });
+  });
+
+  it('rejects a transfer from another wallet or of another token', async () => {
+    const result = await verify(stubClient([
+      transferLog(OTHER, RECIPIENT, '1000'),
+      transferLog(SUBMITTER, RECIPIENT, '1000', OTHER),
+    ]));
+    expect(result).toMatchObject({ valid: false, reason: 'no_matching_transfer' });
+  });
+
+  it('rejects a transfer below the submission cost', async () => {
+    const result = await verify(stubClient([transferLog(SUBMITTER, RECIPIENT, '999.99')]));
+    expect(result).toMatchObject({ valid: false, reason: 'insufficient_amount' });
+  });
+
+  it('rejects a transfer with too few confirmations', async () => {
+    const result = await verify(stubClient([transferLog(SUBMITTER, RECIPIENT, '1000')], { latestBlock: BigInt(101) }));
+    expect(result).toMatchObject({ valid: false, reason: 'insufficient_confirmations' });
+  });
+
+  it('rejects a reverted transaction', async () => {
+    const result = await verify(stubClient([transferLog(SUBMITTER, RECIPIENT, '1000')], { status: 'reverted' }));
+    expect(result).toMatchObject({ valid: false, reason: 'reverted' });
+  });
+
+  it('rejects a hash that already paid for a submission without querying the chain', async () => {
+    let fetched = false;
+    const client: SubmissionRpcClient = {
+      getTransactionReceipt: async () => {
+        fetched = true;
+        throw new Error('unexpected');
+      },
+      getBlockNumber: async () => BigInt(110),
+    };
+
+    const result = await verify(client, { isUsed: async hash => hash === TX_HASH });
+
+    expect(result).toMatchObject({ valid: false, reason: 'already_used' });
+    expect(fetched).toBe(false);
+  });
+
+  it('rejects a malformed hash', async () => {
+    const result = await verifySubmissionPayment({
+      txHash: '0x1234',
+      from: SUBMITTER,
+      minAmount: 1000,
+      client: stubClient([]),
+      config,
+    });
+    expect(result).toMatchObject({ valid: false, reason: 'invalid_hash' });
+  });
+
+  it('reports a missing receipt as not found', async () => {
+    const notFound = new Error('receipt not found');
+    notFound.name = 'TransactionReceiptNotFoundError';
+    const client: SubmissionRpcClient = {
+      getTransactionReceipt: async () => {
+        throw notFound;
+      },
+      getBlockNumber: async () => BigInt(110),
+    };
+
+    expect(await verify(client)).toMatchObject({ valid: false, reason: 'not_found' });
+  });
+});
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from './supabase';
+
+// Resolve the signed-in user as an admin, or return the error response to send.
+// Admin routes then use the service client, since RLS only lets users touch
+// their own rows.
+export async function requireAdmin(): Promise<string | NextResponse> {
+  const supabase = createServerClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const { data: userProfile } = await supabase
+    .from('users')
+    .select('is_admin')
+    .eq('id', user.id)
+    .single();
+
+  if (!userProfile?.is_admin) {
+    return NextResponse.json(
+      { error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return user.id;
+}
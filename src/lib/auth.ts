@@ -1,7 +1,7 @@
 import { createBrowserClient, createServerClient, supabaseUtils } from './supabase';
 import { AuthError, Session, User } from '@supabase/supabase-js';
 import { SiweMessage } from 'siwe';
-import { User as AppUser, AuthUser } from '@/types/database';
+import { User as AppUser, AuthUser, UserPreferences, UserPreferencesUpdate } from '@/types/database';
 
 // Authentication providers
 export type AuthProvider = 'farcaster' | 'wallet' | 'email' | 'google';
@@ -102,168 +102,83 @@ export class AuthService {
     return { error };
   }
 
-  // Sign in with Farcaster
+  // Sign in with Farcaster (signature and nonce are verified on the server)
   async signInWithFarcaster(authData: FarcasterAuthData): Promise<{ error: Error | null; user?: AppUser }> {
     try {
-      // Verify Farcaster signature (this would typically be done on the server)
-      const isValidSignature = await this.verifyFarcasterSignature(authData);
-      if (!isValidSignature) {
-        return { error: new Error('Invalid Farcaster signature') };
-      }
-
-      // Check if user exists with this Farcaster ID
-      const { data: existingUser } = await this.supabase
-        .from('users')
-        .select('*')
-        .eq('farcaster_id', authData.fid.toString())
-        .single();
+      const response = await fetch('/api/auth/farcaster', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(authData),
+      });
 
-      if (existingUser) {
-        // Sign in existing user
-        const { error } = await this.supabase.auth.signInAnonymously();
-        if (error) return { error };
-
-        // Update user's auth metadata
-        await this.supabase.auth.updateUser({
-          data: {
-            farcaster_id: authData.fid.toString(),
-            username: authData.username,
-          }
-        });
+      const result = await response.json();
 
-        return { error: null, user: existingUser };
-      } else {
-        // Create new user
-        const { error: authError } = await this.supabase.auth.signInAnonymously();
-        if (authError) return { error: authError };
-
-        const session = await this.getSession();
-        if (!session?.user) return { error: new Error('Failed to create session') };
-
-        // Create user profile
-        const { data: newUser, error: profileError } = await this.supabase
-          .from('users')
-          .insert({
-            id: session.user.id,
-            farcaster_id: authData.fid.toString(),
-            farcaster_username: authData.username,
-            username: authData.username,
-            display_name: authData.displayName,
-            avatar_url: authData.pfpUrl,
-            bio: authData.bio,
-            eth_address: authData.verifications[0] || null, // First verification is usually ETH address
-          })
-          .select()
-          .single();
-
-        if (profileError) return { error: profileError };
-
-        return { error: null, user: newUser };
+      if (!response.ok) {
+        return { error: new Error(result.details || result.error || 'Farcaster sign-in failed') };
       }
+
+      // The route sets the auth cookies; hand the session to the client too so
+      // auth state listeners fire straight away
+      const sessionError = await this.setServerSession(result.session);
+      if (sessionError) return { error: sessionError };
+
+      return { error: null, user: result.user };
     } catch (error) {
       return { error: error as Error };
     }
   }
 
-  // Sign in with Ethereum wallet using SIWE
+  // Sign in with Ethereum wallet using SIWE (signature and nonce are verified on the server)
   async signInWithWallet(authData: SiweAuthData): Promise<{ error: Error | null; user?: AppUser }> {
     try {
-      // Verify SIWE message
-      const siweMessage = new SiweMessage(authData.message);
-      const verificationResult = await siweMessage.verify({
-        signature: authData.signature,
+      const response = await fetch('/api/auth/wallet', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(authData),
       });
 
-      if (!verificationResult.success) {
-        return { error: new Error('Invalid wallet signature') };
-      }
-
-      // Check if user exists with this address
-      const { data: existingUser } = await this.supabase
-        .from('users')
-        .select('*')
-        .eq('eth_address', authData.address.toLowerCase())
-        .single();
-
-      if (existingUser) {
-        // Sign in existing user
-        const { error } = await this.supabase.auth.signInAnonymously();
-        if (error) return { error };
-
-        await this.supabase.auth.updateUser({
-          data: {
-            eth_address: authData.address.toLowerCase(),
-          }
-        });
-
-        return { error: null, user: existingUser };
-      } else {
-        // Create new user
-        const { error: authError } = await this.supabase.auth.signInAnonymously();
-        if (authError) return { error: authError };
-
-        const session = await this.getSession();
-        if (!session?.user) return { error: new Error('Failed to create session') };
-
-        // Generate username from address
-        const username = `user_${authData.address.slice(0, 8)}`;
+      const result = await response.json();
 
-        const { data: newUser, error: profileError } = await this.supabase
-          .from('users')
-          .insert({
-            id: session.user.id,
-            eth_address: authData.address.toLowerCase(),
-            username,
-            display_name: `User ${authData.address.slice(0, 8)}`,
-          })
-          .select()
-          .single();
+      if (!response.ok) {
+        return { error: new Error(result.details || result.error || 'Wallet sign-in failed') };
+      }
 
-        if (profileError) return { error: profileError };
+      // The route sets the auth cookies; hand the session to the client too so
+      // auth state listeners fire straight away
+      const sessionError = await this.setServerSession(result.session);
+      if (sessionError) return { error: sessionError };
 
-        return { error: null, user: newUser };
-      }
+      return { error: null, user: result.user };
     } catch (error) {
       return { error: error as Error };
     }
   }
 
-  // Link additional authentication method to existing account
+  // Link additional authentication method to the signed-in account. The server
+  // verifies the signature and nonce and uses the session to find the account.
   async linkAccount(
-    userId: string,
     provider: AuthProvider,
     authData: FarcasterAuthData | SiweAuthData
-  ): Promise<{ error: Error | null }> {
+  ): Promise<{ error: Error | null; user?: AppUser }> {
     try {
-      const updates: Partial<AppUser> = {};
-
-      if (provider === 'farcaster' && 'fid' in authData) {
-        const isValid = await this.verifyFarcasterSignature(authData);
-        if (!isValid) return { error: new Error('Invalid Farcaster signature') };
-
-        updates.farcaster_id = authData.fid.toString();
-        updates.farcaster_username = authData.username;
-        if (!updates.avatar_url) updates.avatar_url = authData.pfpUrl;
-        if (!updates.bio) updates.bio = authData.bio;
-      } else if (provider === 'wallet' && 'address' in authData) {
-        const siweMessage = new SiweMessage(authData.message);
-        const verificationResult = await siweMessage.verify({
-          signature: authData.signature,
-        });
+      const endpoint = provider === 'farcaster' ? '/api/auth/farcaster' : provider === 'wallet' ? '/api/auth/wallet' : null;
+      if (!endpoint) {
+        return { error: new Error('Unsupported authentication provider') };
+      }
 
-        if (!verificationResult.success) {
-          return { error: new Error('Invalid wallet signature') };
-        }
+      const response = await fetch(endpoint, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(authData),
+      });
 
-        updates.eth_address = authData.address.toLowerCase();
-      }
+      const result = await response.json();
 
-      const { error } = await this.supabase
-        .from('users')
-        .update(updates)
-        .eq('id', userId);
+      if (!response.ok) {
+        return { error: new Error(result.details || result.error || 'Failed to link account') };
+      }
 
-      return { error };
+      return { error: null, user: result.user };
     } catch (error) {
       return { error: error as Error };
     }
@@ -307,68 +222,53 @@ export class AuthService {
     return !data;
   }
 
-  // Get user preferences
-  async getUserPreferences(userId: string) {
-    const { data, error } = await this.supabase
-      .from('user_preferences')
-      .select('*')
-      .eq('user_id', userId)
-      .single();
+  // Get the current user's preferences (defaults are created on first read)
+  async getUserPreferences(): Promise<{ data: UserPreferences | null; error: Error | null }> {
+    try {
+      const response = await fetch('/api/user/preferences');
+      const result = await response.json();
 
-    if (error && error.code === 'PGRST116') {
-      // No preferences found, create defaults
-      const defaultPreferences = {
-        user_id: userId,
-        preferred_categories: [],
-        excluded_categories: [],
-        preferred_difficulty: 'intermediate',
-        max_time_minutes: 60,
-        hide_videos: false,
-        hide_long_content: false,
-        notification_settings: { email: true, push: false },
-        discovery_algorithm: 'balanced'
-      };
-
-      const { data: newPrefs, error: createError } = await this.supabase
-        .from('user_preferences')
-        .insert(defaultPreferences)
-        .select()
-        .single();
+      if (!response.ok) {
+        return { data: null, error: new Error(result.error || 'Failed to load preferences') };
+      }
 
-      return { data: newPrefs, error: createError };
+      return { data: result.data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
     }
-
-    return { data, error };
   }
 
-  // Update user preferences
-  async updateUserPreferences(userId: string, preferences: any) {
-    const { data, error } = await this.supabase
-      .from('user_preferences')
-      .upsert({
-        user_id: userId,
-        ...preferences,
-      })
-      .select()
-      .single();
+  // Update the current user's preferences (validated on the server)
+  async updateUserPreferences(preferences: Partial<UserPreferencesUpdate>): Promise<{ data: UserPreferences | null; error: Error | null }> {
+    try {
+      const response = await fetch('/api/user/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(preferences),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return { data: null, error: new Error(result.error || 'Failed to save preferences') };
+      }
 
-    return { data, error };
+      return { data: result.data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
   }
 
-  // Verify Farcaster signature (simplified - would be more robust in production)
-  private async verifyFarcasterSignature(authData: FarcasterAuthData): Promise<boolean> {
-    // This would typically involve:
-    // 1. Reconstructing the original message
-    // 2. Verifying the signature against the user's custody address
-    // 3. Checking the nonce to prevent replay attacks
-    // For now, we'll assume it's valid if all required fields are present
-    return !!(
-      authData.fid &&
-      authData.username &&
-      authData.signature &&
-      authData.message &&
-      authData.nonce
-    );
+  // Adopt a session minted by one of the /api/auth routes
+  private async setServerSession(session?: { access_token: string; refresh_token: string }): Promise<Error | null> {
+    if (!session) return new Error('No session returned from server');
+
+    const { error } = await this.supabase.auth.setSession({
+      access_token: session.access_token,
+      refresh_token: session.refresh_token,
+    });
+
+    return error;
   }
 
   // Subscribe to auth changes
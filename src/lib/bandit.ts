@@ -0,0 +1,235 @@
+import { createServiceClient } from './supabase';
+import { DiscoverySource } from '@/types/database';
+
+// Thompson-sampling bandit that decides how many of each request's slots go to
+// each discovery source (arm). Every arm keeps a Beta posterior built from the
+// prior in system_config discovery_bandit plus the rewards its past
+// impressions earned: what signed-in users did after being shown a resource
+// tagged with that arm in user_interactions.metadata.algorithm_used.
+
+export interface BanditArmState {
+  alpha: number;
+  beta: number;
+  impressions: number;
+  reward: number;
+}
+
+export interface BanditDecision {
+  allocation: Record<DiscoverySource, number>; // Slots per arm for this request
+  arms: Record<string, BanditArmState>;
+}
+
+interface BanditConfig {
+  enabled: boolean;
+  algorithms: string[];
+  arms: Record<string, { alpha: number; beta: number }>;
+  rewardWeights: Record<string, number>;
+  windowDays: number;
+  longDwellSeconds: number;
+  quickSkipSeconds: number;
+}
+
+const BANDIT_ARMS: DiscoverySource[] = ['personalized', 'trending', 'fresh', 'exploration'];
+
+const DEFAULT_BANDIT_CONFIG: BanditConfig = {
+  enabled: false,
+  algorithms: ['personalized', 'balanced'],
+  arms: {
+    personalized: { alpha: 1, beta: 1 },
+    trending: { alpha: 1, beta: 1 },
+    fresh: { alpha: 1, beta: 1 },
+    exploration: { alpha: 1, beta: 1 },
+  },
+  rewardWeights: {
+    upvote: 1,
+    favorite: 1,
+    click_through: 0.5,
+    long_dwell: 0.5,
+    quick_skip: -1,
+  },
+  windowDays: 30,
+  longDwellSeconds: 60,
+  quickSkipSeconds: 10,
+};
+
+// Arm rewards change slowly; recomputing them on every request isn't worth it
+const REWARDS_TTL_MS = 5 * 60 * 1000;
+
+let cachedRewards: {
+  key: string;
+  expiresAt: number;
+  rewards: Record<string, { impressions: number; reward: number }>;
+} | null = null;
+
+// Sample an allocation of slots across arms for a signed-in request, or null
+// when the bandit is disabled or doesn't cover the requested algorithm
+export async function chooseBanditSources(algorithm: string, limit: number): Promise<BanditDecision | null> {
+  try {
+    const config = await getBanditConfig();
+    const armNames = BANDIT_ARMS.filter(arm => config.arms[arm]);
+
+    if (!config.enabled || config.algorithms.indexOf(algorithm) === -1 || armNames.length === 0) {
+      return null;
+    }
+
+    const rewards = await getArmRewards(config, armNames);
+
+    const arms: Record<string, BanditArmState> = {};
+    armNames.forEach(arm => {
+      const { impressions, reward } = rewards[arm] || { impressions: 0, reward: 0 };
+      arms[arm] = {
+        alpha: config.arms[arm].alpha + reward,
+        beta: config.arms[arm].beta + Math.max(impressions - reward, 0),
+        impressions,
+        reward,
+      };
+    });
+
+    // One posterior draw per slot, so uncertain arms still win some slots
+    const allocation = { personalized: 0, trending: 0, fresh: 0, exploration: 0 };
+    for (let slot = 0; slot < limit; slot++) {
+      let best = armNames[0];
+      let bestSample = -1;
+      armNames.forEach(arm => {
+        const sample = sampleBeta(arms[arm].alpha, arms[arm].beta);
+        if (sample > bestSample) {
+          best = arm;
+          bestSample = sample;
+        }
+      });
+      allocation[best] += 1;
+    }
+
+    return { allocation, arms };
+  } catch (error) {
+    console.error('Error choosing bandit sources:', error);
+    return null;
+  }
+}
+
+// discovery_bandit and quick_skip_seconds from system_config, falling back to the defaults
+async function getBanditConfig(): Promise<BanditConfig> {
+  const supabase = createServiceClient();
+
+  const { data: rows } = await supabase
+    .from('system_config')
+    .select('key, value')
+    .in('key', ['discovery_bandit', 'quick_skip_seconds']);
+
+  const values: Record<string, any> = {};
+  (rows || []).forEach((row: { key: string; value: unknown }) => {
+    values[row.key] = row.value;
+  });
+
+  const configured = (values.discovery_bandit && typeof values.discovery_bandit === 'object'
+    ? values.discovery_bandit
+    : {}) as Record<string, any>;
+
+  const config: BanditConfig = {
+    ...DEFAULT_BANDIT_CONFIG,
+    enabled: configured.enabled === true,
+    algorithms: Array.isArray(configured.algorithms) ? configured.algorithms : DEFAULT_BANDIT_CONFIG.algorithms,
+    windowDays: positiveNumber(configured.window_days, DEFAULT_BANDIT_CONFIG.windowDays),
+    longDwellSeconds: positiveNumber(configured.long_dwell_seconds, DEFAULT_BANDIT_CONFIG.longDwellSeconds),
+    quickSkipSeconds: positiveNumber(values.quick_skip_seconds, DEFAULT_BANDIT_CONFIG.quickSkipSeconds),
+  };
+
+  // Arms come from config; each needs a usable Beta prior
+  if (configured.arms && typeof configured.arms === 'object') {
+    config.arms = {};
+    Object.keys(configured.arms).forEach(arm => {
+      const prior = configured.arms[arm] || {};
+      config.arms[arm] = {
+        alpha: positiveNumber(prior.alpha, 1),
+        beta: positiveNumber(prior.beta, 1),
+      };
+    });
+  }
+
+  if (configured.reward_weights && typeof configured.reward_weights === 'object') {
+    config.rewardWeights = { ...DEFAULT_BANDIT_CONFIG.rewardWeights };
+    Object.keys(config.rewardWeights).forEach(signal => {
+      const weight = Number(configured.reward_weights[signal]);
+      if (configured.reward_weights[signal] !== undefined && Number.isFinite(weight)) {
+        config.rewardWeights[signal] = weight;
+      }
+    });
+  }
+
+  return config;
+}
+
+// Impressions and summed rewards per arm over the configured window
+async function getArmRewards(config: BanditConfig, armNames: string[]) {
+  const key = JSON.stringify([armNames, config.rewardWeights, config.windowDays, config.longDwellSeconds, config.quickSkipSeconds]);
+  if (cachedRewards && cachedRewards.key === key && cachedRewards.expiresAt > Date.now()) {
+    return cachedRewards.rewards;
+  }
+
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc('get_discovery_arm_rewards', {
+    arm_names: armNames,
+    reward_weights: config.rewardWeights,
+    window_days: config.windowDays,
+    quick_skip_seconds: config.quickSkipSeconds,
+    long_dwell_seconds: config.longDwellSeconds,
+  });
+
+  if (error) {
+    // Priors alone still give a sensible allocation
+    console.error('Error loading bandit rewards:', error);
+    return {};
+  }
+
+  const rewards: Record<string, { impressions: number; reward: number }> = {};
+  (data || []).forEach((row: { arm: string; impressions: number; reward_sum: number }) => {
+    rewards[row.arm] = { impressions: Number(row.impressions), reward: Number(row.reward_sum) };
+  });
+
+  cachedRewards = { key, expiresAt: Date.now() + REWARDS_TTL_MS, rewards };
+  return rewards;
+}
+
+function positiveNumber(value: unknown, fallback: number): number {
+  const number = Number(value);
+  return value !== undefined && value !== null && Number.isFinite(number) && number > 0 ? number : fallback;
+}
+
+// Beta(alpha, beta) as the ratio of two Gamma draws
+function sampleBeta(alpha: number, beta: number): number {
+  const x = sampleGamma(alpha);
+  const y = sampleGamma(beta);
+  return x + y > 0 ? x / (x + y) : 0.5;
+}
+
+// Marsaglia-Tsang; shapes below 1 are boosted and scaled back down
+function sampleGamma(shape: number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1) * Math.pow(Math.random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal();
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = Math.random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+// Standard normal via Box-Muller
+function sampleNormal(): number {
+  const u = 1 - Math.random(); // Avoid log(0)
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,119 @@
+// URL canonicalization for duplicate detection. Dependency-free so the Node
+// migration script can transpile and share it with the API routes.
+
+// Query parameters that only track where a click came from, on any site
+const TRACKING_PARAMS = [
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'igshid', 'mc_cid', 'mc_eid',
+  'ref_src', 'ref_url',
+];
+
+// Parameters that are tracking only on these sites (and their subdomains);
+// elsewhere ref or si can select a branch, page or anything else
+const HOST_TRACKING_PARAMS: Record<string, string[]> = {
+  'youtube.com': ['si'],
+  'open.spotify.com': ['si'],
+  'producthunt.com': ['ref'],
+  'amazon.com': ['ref'],
+  'twitter.com': ['s', 't'],
+  'x.com': ['s', 't'],
+};
+
+const YOUTUBE_HOSTS = ['youtube.com', 'm.youtube.com', 'music.youtube.com', 'youtube-nocookie.com'];
+const YOUTUBE_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+const GOOGLE_DOCS_TYPES = ['document', 'spreadsheets', 'presentation', 'forms'];
+
+// Hash-router fragments (#/page, #!/page) address different pages, so they're kept
+const ROUTE_FRAGMENT_PATTERN = /^#!|^#\//;
+
+// Canonical form of a URL: https, no www., default port, tracking params or
+// trailing slash, remaining params sorted, fragments dropped unless they are
+// routes, and known share-link variants (youtu.be, Google Drive) rewritten to
+// one shape. Returns the trimmed input unchanged if it isn't an http(s) URL.
+export function canonicalizeUrl(input: string): string {
+  const raw = String(input || '').trim();
+
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch (error) {
+    return raw;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return raw;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '').replace(/\.$/, '');
+
+  const special = canonicalYouTube(host, url) || canonicalGoogleDrive(host, url);
+  if (special) return special;
+
+  const port = url.port && url.port !== '80' && url.port !== '443' ? `:${url.port}` : '';
+
+  let path = url.pathname.replace(/\/{2,}/g, '/');
+  if (path.length > 1) path = path.replace(/\/+$/, '');
+  if (path === '/') path = '';
+
+  const params: [string, string][] = [];
+  url.searchParams.forEach((value, key) => {
+    if (!isTrackingParam(host, key)) params.push([key, value]);
+  });
+  params.sort((a, b) => (a[0] === b[0] ? compare(a[1], b[1]) : compare(a[0], b[0])));
+
+  const query = params
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+
+  const fragment = ROUTE_FRAGMENT_PATTERN.test(url.hash) ? url.hash : '';
+
+  return `https://${host}${port}${path}${query ? `?${query}` : ''}${fragment}`;
+}
+
+// youtu.be/ID, /shorts/ID, /embed/ID, /live/ID and /watch?v=ID all become
+// https://youtube.com/watch?v=ID
+function canonicalYouTube(host: string, url: URL): string | null {
+  let id: string | null = null;
+
+  if (host === 'youtu.be') {
+    id = url.pathname.split('/')[1] || null;
+  } else if (YOUTUBE_HOSTS.indexOf(host) !== -1) {
+    const match = url.pathname.match(/^\/(?:shorts|embed|live|v)\/([^/]+)/);
+    id = match ? match[1] : url.pathname === '/watch' ? url.searchParams.get('v') : null;
+  }
+
+  return id && YOUTUBE_ID_PATTERN.test(id) ? `https://youtube.com/watch?v=${id}` : null;
+}
+
+// Drive share links (file/d/ID/view, open?id=ID, uc?id=ID&export=download)
+// become https://drive.google.com/file/d/ID, and Docs/Sheets/Slides links
+// lose their /edit, /view or /pub suffix
+function canonicalGoogleDrive(host: string, url: URL): string | null {
+  if (host === 'drive.google.com') {
+    const match = url.pathname.match(/^\/file\/d\/([^/]+)/);
+    const id = match ? match[1] : /^\/(?:open|uc)$/.test(url.pathname) ? url.searchParams.get('id') : null;
+    return id ? `https://drive.google.com/file/d/${id}` : null;
+  }
+
+  if (host === 'docs.google.com') {
+    const match = url.pathname.match(/^\/([a-z]+)\/d\/([^/]+)/);
+    if (match && GOOGLE_DOCS_TYPES.indexOf(match[1]) !== -1) {
+      return `https://docs.google.com/${match[1]}/d/${match[2]}`;
+    }
+  }
+
+  return null;
+}
+
+function isTrackingParam(host: string, key: string): boolean {
+  const name = key.toLowerCase();
+  if (name.indexOf('utm_') === 0 || TRACKING_PARAMS.indexOf(name) !== -1) return true;
+
+  return Object.keys(HOST_TRACKING_PARAMS).some(site =>
+    (host === site || host.slice(-site.length - 1) === `.${site}`) &&
+    HOST_TRACKING_PARAMS[site].indexOf(name) !== -1
+  );
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,220 @@
+import { createServerClient } from './supabase';
+
+// Maximal marginal relevance re-ranking for discovery results. Each pick
+// trades the candidate's original rank against how much it resembles what has
+// already been picked, or was recently served to the same stumble session:
+//
+//   score = lambda * relevance - (1 - lambda) * max similarity to picked items
+//
+// lambda = 1 keeps the algorithm's order; lower values spread results across
+// categories, authors, sites and tags. Tuned per algorithm in system_config
+// discovery_diversity.
+
+export interface DiversitySummary {
+  lambda: number;
+  session_window: number; // Recently served resources the picks were compared against
+  reordered: number; // Results that moved from their original position
+  categories: number;
+  authors: number;
+  hostnames: number;
+  average_similarity: number; // Mean pairwise similarity of the results after re-ranking
+  average_similarity_before: number; // ...and of the same number of results in the original order
+}
+
+type DiversityFields = {
+  id: string;
+  category?: string | null;
+  author?: string | null;
+  url?: string | null;
+  tags?: string[] | null;
+};
+
+interface DiversityConfig {
+  window: number;
+  lambda: Record<string, number>;
+}
+
+const DEFAULT_DIVERSITY_CONFIG: DiversityConfig = {
+  window: 10,
+  lambda: {
+    default: 0.7,
+  },
+};
+
+// How much each kind of repeat counts towards similarity (sums to 1)
+const SIMILARITY_WEIGHTS = {
+  category: 0.3,
+  author: 0.25,
+  hostname: 0.25,
+  tags: 0.2,
+};
+
+// Re-rank candidates (best first) and keep the top limit, comparing against
+// the tail of the session's served ids as well as earlier picks
+export async function diversify<T extends DiversityFields>(
+  supabase: ReturnType<typeof createServerClient>,
+  candidates: T[],
+  options: { algorithm: string; limit: number; servedIds: string[] }
+): Promise<{ resources: T[]; summary: DiversitySummary }> {
+  const config = await getDiversityConfig(supabase);
+  const lambda = config.lambda[options.algorithm] ?? config.lambda.default ?? DEFAULT_DIVERSITY_CONFIG.lambda.default;
+
+  const windowIds = config.window > 0 ? options.servedIds.slice(-config.window) : [];
+  const sessionWindow = await getSessionWindow(supabase, windowIds);
+  const resources = rerank(candidates, sessionWindow, lambda, options.limit);
+
+  const original = candidates.slice(0, resources.length);
+  const reordered = resources.filter((resource, index) => original[index]?.id !== resource.id).length;
+
+  return {
+    resources,
+    summary: {
+      lambda,
+      session_window: sessionWindow.length,
+      reordered,
+      categories: countDistinct(resources.map(resource => resource.category)),
+      authors: countDistinct(resources.map(resource => normalizeAuthor(resource.author))),
+      hostnames: countDistinct(resources.map(resource => hostname(resource.url))),
+      average_similarity: averageSimilarity(resources),
+      average_similarity_before: averageSimilarity(original),
+    },
+  };
+}
+
+// Greedy MMR; relevance comes from the candidate's position so every
+// algorithm's list can be re-ranked, scored or not
+function rerank<T extends DiversityFields>(
+  candidates: T[],
+  context: DiversityFields[],
+  lambda: number,
+  limit: number
+): T[] {
+  if (lambda >= 1 || candidates.length <= 1) return candidates.slice(0, limit);
+
+  const remaining = candidates.map((resource, index) => ({
+    resource,
+    relevance: 1 - index / candidates.length,
+    maxSimilarity: context.reduce((max, other) => Math.max(max, similarity(resource, other)), 0),
+  }));
+  const picked: T[] = [];
+
+  while (picked.length < limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, index) => {
+      const score = lambda * candidate.relevance - (1 - lambda) * candidate.maxSimilarity;
+      if (score > bestScore) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    });
+
+    const [best] = remaining.splice(bestIndex, 1);
+    picked.push(best.resource);
+
+    remaining.forEach(candidate => {
+      candidate.maxSimilarity = Math.max(candidate.maxSimilarity, similarity(candidate.resource, best.resource));
+    });
+  }
+
+  return picked;
+}
+
+// 0 (nothing in common) to 1 (same category, author and site, identical tags)
+function similarity(a: DiversityFields, b: DiversityFields): number {
+  let score = 0;
+
+  if (a.category && a.category === b.category) score += SIMILARITY_WEIGHTS.category;
+
+  const aAuthor = normalizeAuthor(a.author);
+  if (aAuthor && aAuthor === normalizeAuthor(b.author)) score += SIMILARITY_WEIGHTS.author;
+
+  const aHost = hostname(a.url);
+  if (aHost && aHost === hostname(b.url)) score += SIMILARITY_WEIGHTS.hostname;
+
+  const aTags = a.tags || [];
+  const bTags = b.tags || [];
+  if (aTags.length > 0 && bTags.length > 0) {
+    const shared = aTags.filter(tag => bTags.indexOf(tag) !== -1).length;
+    score += SIMILARITY_WEIGHTS.tags * shared / (aTags.length + bTags.length - shared);
+  }
+
+  return score;
+}
+
+function averageSimilarity(resources: DiversityFields[]): number {
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < resources.length; i++) {
+    for (let j = i + 1; j < resources.length; j++) {
+      total += similarity(resources[i], resources[j]);
+      pairs += 1;
+    }
+  }
+  return pairs > 0 ? Math.round(total / pairs * 1000) / 1000 : 0;
+}
+
+function countDistinct(values: (string | null | undefined)[]): number {
+  const seen: Record<string, boolean> = {};
+  values.forEach(value => {
+    if (value) seen[value] = true;
+  });
+  return Object.keys(seen).length;
+}
+
+function normalizeAuthor(author: string | null | undefined): string | null {
+  return author ? author.trim().toLowerCase() : null;
+}
+
+// Hostname without www., like the url_domain SQL function
+function hostname(url: string | null | undefined): string | null {
+  const match = /^[A-Za-z][A-Za-z0-9+.-]*:\/\/([^/:?#]+)/.exec(url || '');
+  return match ? match[1].toLowerCase().replace(/^www\./, '') : null;
+}
+
+// The session's most recently served resources
+async function getSessionWindow(
+  supabase: ReturnType<typeof createServerClient>,
+  ids: string[]
+): Promise<DiversityFields[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('resources')
+    .select('id, category, author, url, tags')
+    .in('id', ids);
+
+  if (error) {
+    console.error('Error loading session window:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+// discovery_diversity from system_config, falling back to the defaults
+async function getDiversityConfig(supabase: ReturnType<typeof createServerClient>): Promise<DiversityConfig> {
+  const { data: config } = await supabase
+    .from('system_config')
+    .select('value')
+    .eq('key', 'discovery_diversity')
+    .maybeSingle();
+
+  const configured = (config?.value && typeof config.value === 'object' ? config.value : {}) as Record<string, any>;
+  const window = Number(configured.window);
+  const lambda = { ...DEFAULT_DIVERSITY_CONFIG.lambda };
+
+  if (configured.lambda && typeof configured.lambda === 'object') {
+    Object.keys(configured.lambda).forEach(algorithm => {
+      const value = Number(configured.lambda[algorithm]);
+      if (configured.lambda[algorithm] !== null && Number.isFinite(value) && value >= 0 && value <= 1) {
+        lambda[algorithm] = value;
+      }
+    });
+  }
+
+  return {
+    window: Number.isInteger(window) && window >= 0 ? window : DEFAULT_DIVERSITY_CONFIG.window,
+    lambda,
+  };
+}
@@ -0,0 +1,94 @@
+import { createServerClient } from '@/lib/supabase';
+import { DuplicateCandidate } from '@/types/database';
+
+// Near-duplicate detection for submissions: the same work posted from a
+// different mirror or with a slightly different title. Matches are flagged for
+// moderators rather than rejected, since editions and translations are fine.
+
+const TITLE_SIMILARITY_THRESHOLD = 0.8;
+const MAX_CANDIDATES = 50;
+
+// Noise that mirrors add to titles: formats, "free download", edition markers
+const TITLE_NOISE = [
+  'pdf', 'epub', 'mobi', 'djvu', 'ebook', 'free', 'download',
+  'edition', 'ed', 'the', 'a', 'an',
+];
+
+// Find an existing non-rejected resource that looks like the same work
+export async function findNearDuplicate(
+  supabase: ReturnType<typeof createServerClient>,
+  submission: { title: string; author?: string | null }
+): Promise<DuplicateCandidate | null> {
+  const tokens = titleTokens(submission.title);
+  if (tokens.length === 0) return null;
+
+  // Narrow the search with the title's most distinctive (longest) word
+  const keyword = tokens.reduce((longest, token) => (token.length > longest.length ? token : longest));
+  if (keyword.length < 4) return null;
+
+  const { data: candidates } = await supabase
+    .from('resources')
+    .select('id, title, author, url, status')
+    .neq('status', 'rejected')
+    .ilike('title', `%${keyword}%`)
+    .limit(MAX_CANDIDATES);
+
+  return (candidates || []).find((candidate: DuplicateCandidate) => isNearDuplicate(submission, candidate)) || null;
+}
+
+export function isNearDuplicate(
+  a: { title: string; author?: string | null },
+  b: { title: string; author?: string | null }
+): boolean {
+  const aTokens = titleTokens(a.title);
+  const bTokens = titleTokens(b.title);
+  const similarity = Math.max(
+    jaccard(aTokens, bTokens),
+    jaccard(titleTokens(mainTitle(a.title)), titleTokens(mainTitle(b.title)))
+  );
+
+  if (similarity < TITLE_SIMILARITY_THRESHOLD) return false;
+
+  // With both authors known they must share a surname; without them, only an exact title match counts
+  const aAuthor = nameTokens(a.author);
+  const bAuthor = nameTokens(b.author);
+  if (aAuthor.length > 0 && bAuthor.length > 0) {
+    return aAuthor.some(name => name.length > 1 && bAuthor.indexOf(name) !== -1);
+  }
+
+  return aTokens.join(' ') === bTokens.join(' ');
+}
+
+// Title without its subtitle ("Deep Work: Rules for..." -> "Deep Work")
+function mainTitle(title: string): string {
+  return title.split(/\s[-–—|]\s|:/)[0];
+}
+
+function titleTokens(title: string): string[] {
+  return normalize(title
+    .replace(/\.(pdf|epub|mobi|djvu|txt)\b/gi, ' ')
+    .replace(/[([][^)\]]*[)\]]/g, ' ')) // (PDF), [2nd ed.], (1998)
+    .filter(token => TITLE_NOISE.indexOf(token) === -1 && !/^\d+(st|nd|rd|th)$/.test(token));
+}
+
+function nameTokens(author: string | null | undefined): string[] {
+  return author ? normalize(author) : [];
+}
+
+function normalize(value: string): string[] {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const shared = a.filter((token, index) => a.indexOf(token) === index && b.indexOf(token) !== -1).length;
+  const union = a.concat(b).filter((token, index, all) => all.indexOf(token) === index).length;
+  return shared / union;
+}
@@ -0,0 +1,199 @@
+import { SiweMessage } from 'siwe';
+import { isAddressEqual, verifyMessage, type Address, type Hex } from 'viem';
+
+// Server-side Sign In With Farcaster verification. The signed message is a
+// SIWE message whose resources include farcaster://fid/<fid>; the signer must
+// be the FID's custody address or one of its verified addresses.
+
+const MAX_MESSAGE_AGE_MS = 10 * 60 * 1000; // 10 minutes
+const CLOCK_SKEW_MS = 60 * 1000;
+const DEFAULT_HUB_URL = 'https://hub.pinata.cloud';
+
+export interface FarcasterAddresses {
+  custody: string | null;
+  verifications: string[]; // Verified Ethereum addresses
+}
+
+// Looks up the addresses an FID controls
+export interface FarcasterAddressResolver {
+  getAddresses: (fid: number) => Promise<FarcasterAddresses>;
+}
+
+export interface VerifyFarcasterSignInParams {
+  message: string;
+  signature: string;
+  fid: number;
+  domain: string; // Expected domain, e.g. the request host
+  resolver?: FarcasterAddressResolver;
+  consumeNonce: (nonce: string) => Promise<boolean>;
+}
+
+// The parts of a Hub verification message we read; both body names have been used
+interface HubVerificationBody {
+  address?: string;
+  protocol?: string;
+}
+
+interface HubVerificationMessage {
+  data?: {
+    verificationAddAddressBody?: HubVerificationBody;
+    verificationAddEthAddressBody?: HubVerificationBody;
+  };
+}
+
+export type FarcasterSignInResult =
+  | { success: true; address: string; addresses: FarcasterAddresses }
+  | { success: false; error: string };
+
+// Resolver backed by a Farcaster Hub's HTTP API
+export const createHubResolver = (hubUrl: string = DEFAULT_HUB_URL): FarcasterAddressResolver => ({
+  async getAddresses(fid) {
+    const [custodyResponse, verificationsResponse] = await Promise.all([
+      fetch(`${hubUrl}/v1/onChainIdRegistryEventByFid?fid=${fid}`, {
+        signal: AbortSignal.timeout(5000),
+        cache: 'no-store',
+      }),
+      fetch(`${hubUrl}/v1/verificationsByFid?fid=${fid}`, {
+        signal: AbortSignal.timeout(5000),
+        cache: 'no-store',
+      }),
+    ]);
+
+    if (!custodyResponse.ok) {
+      throw new Error(`Hub returned ${custodyResponse.status} for FID ${fid}`);
+    }
+
+    const custodyEvent = await custodyResponse.json();
+    const verificationsData: { messages?: HubVerificationMessage[] } = verificationsResponse.ok
+      ? await verificationsResponse.json()
+      : { messages: [] };
+
+    const verifications: string[] = (verificationsData.messages || [])
+      .map(message => {
+        const body = message?.data?.verificationAddAddressBody || message?.data?.verificationAddEthAddressBody;
+        if (body?.protocol && body.protocol !== 'PROTOCOL_ETHEREUM') return null;
+        return body?.address || null;
+      })
+      .filter((address): address is string => !!address);
+
+    return {
+      custody: custodyEvent?.idRegisterEventBody?.to || null,
+      verifications,
+    };
+  },
+});
+
+// Fixed FID -> addresses map, for local development and tests
+export const createStaticResolver = (
+  entries: Record<number, FarcasterAddresses>
+): FarcasterAddressResolver => ({
+  async getAddresses(fid) {
+    return entries[fid] || { custody: null, verifications: [] };
+  },
+});
+
+// Resolver chosen by environment: FARCASTER_STUB_ADDRESSES (JSON map of
+// fid -> custody address) outside production, otherwise FARCASTER_HUB_URL
+export const getFarcasterResolver = (): FarcasterAddressResolver => {
+  const stub = process.env.FARCASTER_STUB_ADDRESSES;
+  if (stub && process.env.NODE_ENV !== 'production') {
+    const entries: Record<number, FarcasterAddresses> = {};
+    Object.entries(JSON.parse(stub) as Record<string, string>).forEach(([fid, custody]) => {
+      entries[Number(fid)] = { custody, verifications: [] };
+    });
+    return createStaticResolver(entries);
+  }
+
+  return createHubResolver(process.env.FARCASTER_HUB_URL || DEFAULT_HUB_URL);
+};
+
+// Verify a Sign In With Farcaster message and consume its nonce
+export async function verifyFarcasterSignIn({
+  message,
+  signature,
+  fid,
+  domain,
+  resolver = getFarcasterResolver(),
+  consumeNonce,
+}: VerifyFarcasterSignInParams): Promise<FarcasterSignInResult> {
+  let siweMessage: SiweMessage;
+  try {
+    siweMessage = new SiweMessage(message);
+  } catch {
+    return { success: false, error: 'Malformed sign-in message' };
+  }
+
+  // Domain and URI must point at us
+  if (siweMessage.domain !== domain) {
+    return { success: false, error: 'Domain mismatch' };
+  }
+
+  try {
+    if (new URL(siweMessage.uri).host !== domain) {
+      return { success: false, error: 'URI mismatch' };
+    }
+  } catch {
+    return { success: false, error: 'Invalid URI' };
+  }
+
+  // Message must be recent and not expired
+  const now = Date.now();
+  const issuedAt = siweMessage.issuedAt ? new Date(siweMessage.issuedAt).getTime() : NaN;
+  if (isNaN(issuedAt) || issuedAt < now - MAX_MESSAGE_AGE_MS || issuedAt > now + CLOCK_SKEW_MS) {
+    return { success: false, error: 'Message expired' };
+  }
+
+  if (siweMessage.expirationTime && new Date(siweMessage.expirationTime).getTime() < now) {
+    return { success: false, error: 'Message expired' };
+  }
+
+  if (siweMessage.notBefore && new Date(siweMessage.notBefore).getTime() > now + CLOCK_SKEW_MS) {
+    return { success: false, error: 'Message not yet valid' };
+  }
+
+  // Message must be bound to the claimed FID
+  if (!siweMessage.resources?.includes(`farcaster://fid/${fid}`)) {
+    return { success: false, error: 'FID mismatch' };
+  }
+
+  // Recover the signer
+  let isValidSignature = false;
+  try {
+    isValidSignature = await verifyMessage({
+      address: siweMessage.address as Address,
+      message,
+      signature: signature as Hex,
+    });
+  } catch {
+    isValidSignature = false;
+  }
+
+  if (!isValidSignature) {
+    return { success: false, error: 'Invalid signature' };
+  }
+
+  // Signer must control the FID
+  let addresses: FarcasterAddresses;
+  try {
+    addresses = await resolver.getAddresses(fid);
+  } catch (error) {
+    console.error('Error resolving Farcaster addresses:', error);
+    return { success: false, error: 'Could not verify Farcaster account' };
+  }
+
+  const signerAddress = siweMessage.address as Address;
+  const controlsFid = [addresses.custody, ...addresses.verifications]
+    .filter((address): address is string => !!address)
+    .some(address => isAddressEqual(address as Address, signerAddress));
+
+  if (!controlsFid) {
+    return { success: false, error: 'Signer does not control this Farcaster account' };
+  }
+
+  // Nonce is consumed last so a bad signature can't burn someone else's nonce
+  if (!(await consumeNonce(siweMessage.nonce))) {
+    return { success: false, error: 'Invalid or expired nonce' };
+  }
+
+  return { success: true, address: signerAddress.toLowerCase(), addresses };
+}
@@ -0,0 +1,29 @@
+import { createServerClient } from './supabase';
+
+// Mark which resources the current user has favorited (false for anonymous users)
+export async function withFavoriteStatus<T extends { id: string }>(
+  supabase: ReturnType<typeof createServerClient>,
+  userId: string | undefined,
+  resources: T[]
+): Promise<(T & { is_favorited: boolean })[]> {
+  if (!userId || resources.length === 0) {
+    return resources.map(resource => ({ ...resource, is_favorited: false }));
+  }
+
+  const { data: favorites, error } = await supabase
+    .from('favorites')
+    .select('resource_id')
+    .eq('user_id', userId)
+    .in('resource_id', resources.map(resource => resource.id));
+
+  if (error) {
+    console.error('Error fetching favorite status:', error);
+  }
+
+  const favoritedIds = new Set((favorites || []).map((favorite: { resource_id: string }) => favorite.resource_id));
+
+  return resources.map(resource => ({
+    ...resource,
+    is_favorited: favoritedIds.has(resource.id),
+  }));
+}
@@ -0,0 +1,109 @@
+// Farcaster Mini App SDK helpers. The SDK is loaded from a CDN script in the
+// root layout and exposed as window.frame.sdk when running inside a Farcaster
+// client.
+
+export interface FrameUser {
+  fid: number;
+  username: string;
+  displayName: string;
+  pfpUrl: string;
+  bio?: string;
+  verifications?: string[];
+}
+
+export interface FrameContext {
+  user?: FrameUser;
+  client?: {
+    clientFid: number;
+    added: boolean;
+    safeAreaInsets?: { top: number; bottom: number; left: number; right: number };
+  };
+}
+
+export interface FrameSdk {
+  actions?: {
+    ready: (options?: { disableNativeGestures?: boolean }) => Promise<void> | void;
+    signIn: (params: { nonce: string }) => Promise<{ message: string; signature: string }>;
+    openUrl: (url: string) => Promise<void> | void;
+    composeCast: (params: { text?: string; embeds?: string[] }) => Promise<unknown>;
+    close: () => Promise<void> | void;
+  };
+  context?: Promise<FrameContext>;
+}
+
+declare global {
+  interface Window {
+    frame?: {
+      sdk?: FrameSdk;
+    };
+  }
+}
+
+export function getFrameSdk(): FrameSdk | undefined {
+  if (typeof window === 'undefined') return undefined;
+  return window.frame?.sdk;
+}
+
+// The SDK script loads async, so give it a moment before assuming we're not in a Mini App
+export async function waitForFrameSdk(timeoutMs = 3000): Promise<FrameSdk | undefined> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const sdk = getFrameSdk();
+    if (sdk) return sdk;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+
+  return getFrameSdk();
+}
+
+// Context only resolves inside a Farcaster client; outside one it may never settle
+export async function getFrameContext(sdk: FrameSdk, timeoutMs = 2000): Promise<FrameContext | undefined> {
+  if (!sdk.context) return undefined;
+
+  return Promise.race([
+    sdk.context,
+    new Promise<undefined>(resolve => setTimeout(() => resolve(undefined), timeoutMs)),
+  ]);
+}
+
+// Run Sign In With Farcaster in the client and build the payload for POST /api/auth/farcaster
+export async function getFarcasterAuthData(sdk: FrameSdk) {
+  if (!sdk.actions?.signIn) {
+    throw new Error('This Farcaster client does not support sign in');
+  }
+
+  // Get a single-use nonce from our backend
+  const nonceResponse = await fetch('/api/auth/farcaster');
+  if (!nonceResponse.ok) {
+    throw new Error('Failed to generate authentication nonce');
+  }
+  const { nonce } = await nonceResponse.json();
+
+  // Request a Sign In With Farcaster message and signature from the client
+  const result = await sdk.actions.signIn({ nonce });
+
+  if (!result || !result.signature) {
+    throw new Error('Signature request failed or was cancelled');
+  }
+
+  // Get user profile from Farcaster
+  const context = await getFrameContext(sdk);
+  const userProfile = context?.user;
+
+  if (!userProfile) {
+    throw new Error('Could not get user profile from Farcaster');
+  }
+
+  return {
+    fid: userProfile.fid,
+    username: userProfile.username,
+    displayName: userProfile.displayName,
+    pfpUrl: userProfile.pfpUrl,
+    bio: userProfile.bio || '',
+    verifications: userProfile.verifications || [],
+    signature: result.signature,
+    message: result.message,
+    nonce,
+  };
+}
@@ -0,0 +1,298 @@
+import { ResourceCategory } from '@/types/database';
+
+// Page metadata extraction for submissions: OpenGraph, Twitter cards, JSON-LD
+// and plain meta tags, plus a reading-time estimate from the page's word count.
+
+export interface PageMetadata {
+  url: string;
+  canonical_url: string | null;
+  title: string | null;
+  description: string | null;
+  author: string | null;
+  site_name: string | null;
+  image: string | null;
+  published_at: string | null;
+  tags: string[];
+  category: ResourceCategory | null; // Only set when the page says what it is
+  word_count: number | null;
+  estimated_time_minutes: number | null;
+}
+
+const READING_WORDS_PER_MINUTE = 230;
+const MINUTES_PER_BOOK_PAGE = 2;
+const MAX_TAGS = 5;
+const MAX_TAG_LENGTH = 30;
+
+const ARTICLE_TYPES = ['Article', 'NewsArticle', 'BlogPosting', 'TechArticle', 'Report', 'WebPage'];
+const JSON_LD_TYPES = [...ARTICLE_TYPES, 'ScholarlyArticle', 'Book', 'VideoObject'];
+
+// Extract metadata from an HTML document fetched from pageUrl
+export function extractMetadata(html: string, pageUrl: string): PageMetadata {
+  const meta = parseMetaTags(html);
+  const jsonLd = findJsonLdNode(html);
+  const ogType = meta['og:type'] || '';
+
+  const title = firstString(
+    meta['og:title'],
+    meta['twitter:title'],
+    jsonLd?.headline,
+    jsonLd?.name,
+    matchText(html, /<title[^>]*>([\s\S]*?)<\/title>/i)
+  );
+
+  const description = firstString(
+    meta['og:description'],
+    meta['twitter:description'],
+    jsonLd?.description,
+    meta['description']
+  );
+
+  const author = firstString(
+    authorName(jsonLd?.author),
+    meta['author'],
+    meta['article:author'] && !isUrl(meta['article:author']) ? meta['article:author'] : undefined,
+    meta['book:author'] && !isUrl(meta['book:author']) ? meta['book:author'] : undefined,
+    meta['twitter:creator']
+  );
+
+  const canonical = matchAttribute(html, /<link\b[^>]*rel=["']?canonical["']?[^>]*>/i, 'href') || meta['og:url'];
+  const image = firstString(meta['og:image'], meta['twitter:image'], imageUrl(jsonLd?.image));
+
+  const category = inferCategory(jsonLd?.['@type'], ogType);
+
+  const wordCount = toNumber(jsonLd?.wordCount) ?? countWords(html);
+  const estimatedTime = estimateMinutes({
+    category,
+    wordCount,
+    durationSeconds: parseDuration(jsonLd?.duration) ?? toNumber(meta['og:video:duration'] || meta['video:duration']),
+    pages: toNumber(jsonLd?.numberOfPages),
+  });
+
+  return {
+    url: pageUrl,
+    canonical_url: resolveUrl(canonical, pageUrl),
+    // JSON-LD values can carry HTML entities too
+    title: title ? clean(decodeEntities(title)) : null,
+    description: description ? clean(decodeEntities(description)) : null,
+    author: author ? clean(decodeEntities(author)) : null,
+    site_name: firstString(meta['og:site_name'], meta['application-name']) || null,
+    image: resolveUrl(image, pageUrl),
+    published_at: firstString(jsonLd?.datePublished, meta['article:published_time']) || null,
+    tags: extractTags(jsonLd?.keywords, meta['keywords'], collectAll(html, 'article:tag')),
+    category,
+    word_count: wordCount,
+    estimated_time_minutes: estimatedTime,
+  };
+}
+
+// Map of meta name/property (lowercased) to content; the first occurrence wins
+function parseMetaTags(html: string): Record<string, string> {
+  const meta: Record<string, string> = {};
+  const tags = html.match(/<meta\b[^>]*>/gi) || [];
+
+  tags.forEach(tag => {
+    const attrs = parseAttributes(tag);
+    const key = (attrs.property || attrs.name || attrs.itemprop || '').toLowerCase();
+    if (key && attrs.content !== undefined && meta[key] === undefined) {
+      meta[key] = decodeEntities(attrs.content);
+    }
+  });
+
+  return meta;
+}
+
+// All values of a repeatable meta property, e.g. article:tag
+function collectAll(html: string, property: string): string[] {
+  return (html.match(/<meta\b[^>]*>/gi) || [])
+    .map(parseAttributes)
+    .filter(attrs => (attrs.property || attrs.name || '').toLowerCase() === property && attrs.content)
+    .map(attrs => decodeEntities(attrs.content));
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([a-zA-Z_:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(tag)) !== null) {
+    attrs[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+
+  return attrs;
+}
+
+// First JSON-LD node describing the content itself (Article, Book, VideoObject...)
+function findJsonLdNode(html: string): Record<string, any> | null {
+  const pattern = /<script\b[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  const nodes: Record<string, any>[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html)) !== null) {
+    try {
+      flattenJsonLd(JSON.parse(match[1].trim()), nodes);
+    } catch {
+      // Ignore malformed blocks
+    }
+  }
+
+  return nodes.find(node => typesOf(node['@type']).some(type => JSON_LD_TYPES.includes(type))) || null;
+}
+
+function flattenJsonLd(value: any, nodes: Record<string, any>[]) {
+  if (Array.isArray(value)) {
+    value.forEach(item => flattenJsonLd(item, nodes));
+  } else if (value && typeof value === 'object') {
+    nodes.push(value);
+    if (value['@graph']) flattenJsonLd(value['@graph'], nodes);
+  }
+}
+
+function typesOf(type: unknown): string[] {
+  if (Array.isArray(type)) return type.filter((t): t is string => typeof t === 'string');
+  return typeof type === 'string' ? [type] : [];
+}
+
+function inferCategory(jsonLdType: unknown, ogType: string): ResourceCategory | null {
+  const types = typesOf(jsonLdType);
+
+  if (types.includes('VideoObject') || ogType.startsWith('video')) return 'videos';
+  if (types.includes('Book') || ogType.startsWith('book')) return 'books';
+  if (types.includes('ScholarlyArticle')) return 'research';
+  if (types.some(type => ARTICLE_TYPES.includes(type) && type !== 'WebPage') || ogType === 'article') return 'articles';
+
+  return null;
+}
+
+function authorName(author: any): string | undefined {
+  if (!author) return undefined;
+  if (typeof author === 'string') return author;
+  if (Array.isArray(author)) {
+    const names = author.map(authorName).filter(Boolean);
+    return names.length > 0 ? names.join(', ') : undefined;
+  }
+  return typeof author.name === 'string' ? author.name : undefined;
+}
+
+function imageUrl(image: any): string | undefined {
+  if (!image) return undefined;
+  if (typeof image === 'string') return image;
+  if (Array.isArray(image)) return imageUrl(image[0]);
+  return typeof image.url === 'string' ? image.url : undefined;
+}
+
+function extractTags(...sources: unknown[]): string[] {
+  const tags: string[] = [];
+
+  sources.forEach(source => {
+    const values = Array.isArray(source)
+      ? source
+      : typeof source === 'string' ? source.split(',') : [];
+
+    values.forEach(value => {
+      if (typeof value !== 'string') return;
+      const tag = clean(value).toLowerCase();
+      if (tag && tag.length <= MAX_TAG_LENGTH && tags.indexOf(tag) === -1) {
+        tags.push(tag);
+      }
+    });
+  });
+
+  return tags.slice(0, MAX_TAGS);
+}
+
+// Visible words in the document body
+function countWords(html: string): number | null {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  const text = decodeEntities(
+    body
+      .replace(/<(script|style|noscript|svg|template|nav|footer|header)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+  );
+
+  const words = text.split(/\s+/).filter(word => /[0-9A-Za-z\u00C0-\uFFFF]/.test(word)).length;
+  return words > 0 ? words : null;
+}
+
+function estimateMinutes({
+  category,
+  wordCount,
+  durationSeconds,
+  pages,
+}: {
+  category: ResourceCategory | null;
+  wordCount: number | null;
+  durationSeconds: number | null;
+  pages: number | null;
+}): number | null {
+  if (durationSeconds) return Math.max(1, Math.round(durationSeconds / 60));
+  if (category === 'books' && pages) return pages * MINUTES_PER_BOOK_PAGE;
+  if (category !== 'videos' && wordCount) return Math.max(1, Math.ceil(wordCount / READING_WORDS_PER_MINUTE));
+  return null;
+}
+
+// ISO 8601 duration (PT1H2M3S) to seconds
+function parseDuration(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  const match = value.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!match) return null;
+
+  const [, days, hours, minutes, seconds] = match;
+  const total = Number(days || 0) * 86400 + Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0);
+  return total > 0 ? total : null;
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof number === 'number' && isFinite(number) && number > 0 ? number : null;
+}
+
+function matchText(html: string, pattern: RegExp): string | undefined {
+  const text = html.match(pattern)?.[1];
+  return text ? decodeEntities(text) : undefined;
+}
+
+function matchAttribute(html: string, pattern: RegExp, attribute: string): string | undefined {
+  const tag = html.match(pattern)?.[0];
+  const value = tag ? parseAttributes(tag)[attribute] : undefined;
+  return value ? decodeEntities(value) : undefined;
+}
+
+function firstString(...values: unknown[]): string | undefined {
+  for (const value of values) {
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+function resolveUrl(value: string | undefined, base: string): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value, base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function isUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+function clean(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“',
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from './supabase';
+
+// Server-issued, single-use nonces for sign-in messages (SIWE and Farcaster).
+// Stored in auth_nonces so they survive across serverless instances.
+
+export type NoncePurpose = 'farcaster' | 'siwe';
+
+const NONCE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+const nonceCookieName = (purpose: NoncePurpose) => `${purpose}_nonce`;
+
+// Generate cryptographically secure nonce (hex, valid as a SIWE nonce)
+function generateNonce(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Issue a new nonce and store it until it expires or is consumed
+export async function issueNonce(purpose: NoncePurpose): Promise<{ nonce: string; expiresAt: string }> {
+  const supabase = createServiceClient();
+  const nonce = generateNonce();
+  const expiresAt = new Date(Date.now() + NONCE_TTL_MS).toISOString();
+
+  const { error } = await supabase
+    .from('auth_nonces')
+    .insert({ nonce, purpose, expires_at: expiresAt });
+
+  if (error) {
+    throw new Error(`Failed to store nonce: ${error.message}`);
+  }
+
+  // Opportunistically clear out expired nonces
+  await supabase
+    .from('auth_nonces')
+    .delete()
+    .lt('expires_at', new Date().toISOString());
+
+  return { nonce, expiresAt };
+}
+
+// Mark a nonce as used. Returns false if it is unknown, expired, already used
+// or was issued for a different purpose. The conditional update makes
+// consumption atomic, so concurrent requests can't both succeed.
+export async function consumeNonce(nonce: string, purpose: NoncePurpose): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('auth_nonces')
+    .update({ consumed_at: new Date().toISOString() })
+    .eq('nonce', nonce)
+    .eq('purpose', purpose)
+    .is('consumed_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('nonce');
+
+  if (error) {
+    console.error('Error consuming nonce:', error);
+    return false;
+  }
+
+  return !!data && data.length === 1;
+}
+
+// Bind a nonce to the browser that requested it, so a signed message can only
+// be redeemed by the same client
+export function setNonceCookie(response: NextResponse, purpose: NoncePurpose, nonce: string, expiresAt: string) {
+  response.cookies.set(nonceCookieName(purpose), nonce, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/auth',
+    expires: new Date(expiresAt),
+  });
+}
+
+export function getNonceCookie(request: NextRequest, purpose: NoncePurpose): string | undefined {
+  return request.cookies.get(nonceCookieName(purpose))?.value;
+}
+
+export function clearNonceCookie(response: NextResponse, purpose: NoncePurpose) {
+  response.cookies.set(nonceCookieName(purpose), '', { path: '/api/auth', maxAge: 0 });
+}
+
+// Domain sign-in messages must be issued for
+export function getAuthDomain(request: NextRequest): string {
+  return process.env.AUTH_DOMAIN || request.headers.get('host') || request.nextUrl.host;
+}
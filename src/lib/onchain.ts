@@ -0,0 +1,192 @@
+import {
+  createPublicClient,
+  decodeEventLog,
+  formatUnits,
+  http,
+  isAddressEqual,
+  isHash,
+  parseAbi,
+  parseUnits,
+  type Address,
+  type Hash,
+  type TransactionReceipt,
+} from 'viem';
+import { base, baseSepolia, foundry } from 'viem/chains';
+
+// Server-side verification of $HIGHER submission payments on Base.
+// The RPC client is injectable so verification can run against a local
+// Anvil/Hardhat node or a stubbed client.
+
+const ERC20_TRANSFER_ABI = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
+const DEFAULT_HIGHER_TOKEN_ADDRESS = '0x0578d8a44db98b23bf096a382e016e29a5ce0ffe';
+const DEFAULT_TOKEN_DECIMALS = 18;
+const DEFAULT_MIN_CONFIRMATIONS = 3;
+
+// Only the calls verification needs, so tests can pass a plain object
+export interface SubmissionRpcClient {
+  getTransactionReceipt: (args: { hash: Hash }) => Promise<TransactionReceipt>;
+  getBlockNumber: () => Promise<bigint>;
+}
+
+export interface SubmissionPaymentConfig {
+  tokenAddress: Address;
+  recipientAddress: Address;
+  tokenDecimals: number;
+  minConfirmations: number;
+}
+
+export interface VerifySubmissionPaymentParams {
+  txHash: string;
+  from: string; // Submitter's linked wallet
+  minAmount: number | string; // Whole tokens, e.g. system_config submission_cost
+  client?: SubmissionRpcClient;
+  config?: Partial<SubmissionPaymentConfig>;
+  isUsed?: (txHash: Hash) => Promise<boolean>; // True if the hash already paid for a submission
+}
+
+export type SubmissionPaymentFailure =
+  | 'invalid_hash'
+  | 'already_used'
+  | 'not_configured'
+  | 'not_found'
+  | 'reverted'
+  | 'no_matching_transfer'
+  | 'insufficient_amount'
+  | 'insufficient_confirmations'
+  | 'rpc_error';
+
+export type SubmissionPaymentResult =
+  | {
+      valid: true;
+      amount: bigint; // Base units
+      tokens: string; // The same amount in whole tokens
+      blockNumber: bigint;
+      confirmations: bigint;
+    }
+  | { valid: false; reason: SubmissionPaymentFailure; message: string };
+
+// Chain used for the RPC client, from NEXT_PUBLIC_CHAIN_ID (8453 Base, 84532 Base Sepolia, 31337 Anvil)
+const getChain = () => {
+  switch (Number(process.env.NEXT_PUBLIC_CHAIN_ID)) {
+    case baseSepolia.id:
+      return baseSepolia;
+    case foundry.id:
+      return foundry;
+    default:
+      return base;
+  }
+};
+
+// Create a public client for the configured Base RPC endpoint
+export const createBaseRpcClient = (rpcUrl = process.env.BASE_RPC_URL): SubmissionRpcClient => {
+  const chain = getChain();
+  return createPublicClient({
+    chain,
+    transport: http(rpcUrl || chain.rpcUrls.default.http[0]),
+  });
+};
+
+// Payment settings from the environment
+export const getSubmissionPaymentConfig = (): Partial<SubmissionPaymentConfig> => {
+  const recipient = process.env.SUBMISSION_RECIPIENT_ADDRESS || process.env.NEXT_PUBLIC_SUBMISSION_CONTRACT_ADDRESS;
+  const confirmations = Number(process.env.SUBMISSION_MIN_CONFIRMATIONS);
+  const decimals = Number(process.env.HIGHER_TOKEN_DECIMALS);
+
+  return {
+    tokenAddress: (process.env.NEXT_PUBLIC_HIGHER_TOKEN_ADDRESS || DEFAULT_HIGHER_TOKEN_ADDRESS) as Address,
+    recipientAddress: recipient ? recipient as Address : undefined,
+    tokenDecimals: Number.isInteger(decimals) && decimals >= 0 ? decimals : DEFAULT_TOKEN_DECIMALS,
+    minConfirmations: Number.isInteger(confirmations) && confirmations >= 0 ? confirmations : DEFAULT_MIN_CONFIRMATIONS,
+  };
+};
+
+// Verify that a transaction is a confirmed, successful $HIGHER transfer from
+// the submitter to the submission recipient for at least minAmount tokens
+export async function verifySubmissionPayment({
+  txHash,
+  from,
+  minAmount,
+  client = createBaseRpcClient(),
+  config: configOverrides = {},
+  isUsed,
+}: VerifySubmissionPaymentParams): Promise<SubmissionPaymentResult> {
+  if (!isHash(txHash)) {
+    return { valid: false, reason: 'invalid_hash', message: 'Invalid transaction hash' };
+  }
+
+  if (isUsed && await isUsed(txHash)) {
+    return { valid: false, reason: 'already_used', message: 'Transaction has already been used for a submission' };
+  }
+
+  const config = { ...getSubmissionPaymentConfig(), ...configOverrides };
+  if (!config.tokenAddress || !config.recipientAddress) {
+    return { valid: false, reason: 'not_configured', message: 'Submission payments are not configured' };
+  }
+
+  const decimals = config.tokenDecimals ?? DEFAULT_TOKEN_DECIMALS;
+  const required = parseUnits(String(minAmount), decimals);
+
+  let receipt: TransactionReceipt;
+  let latestBlock: bigint;
+  try {
+    receipt = await client.getTransactionReceipt({ hash: txHash });
+    latestBlock = await client.getBlockNumber();
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TransactionReceiptNotFoundError') {
+      return { valid: false, reason: 'not_found', message: 'Transaction not found or still pending' };
+    }
+    console.error('Error fetching transaction receipt:', error);
+    return { valid: false, reason: 'rpc_error', message: 'Could not reach the blockchain' };
+  }
+
+  if (receipt.status !== 'success') {
+    return { valid: false, reason: 'reverted', message: 'Transaction failed on-chain' };
+  }
+
+  // Sum matching Transfer events - a contract may split a payment across logs
+  let amount = BigInt(0);
+  receipt.logs.forEach(log => {
+    if (!isAddressEqual(log.address, config.tokenAddress!)) return;
+
+    try {
+      const event = decodeEventLog({ abi: ERC20_TRANSFER_ABI, data: log.data, topics: log.topics });
+      if (
+        isAddressEqual(event.args.from, from as Address) &&
+        isAddressEqual(event.args.to, config.recipientAddress!)
+      ) {
+        amount += event.args.value;
+      }
+    } catch {
+      // Not a Transfer event
+    }
+  });
+
+  if (amount === BigInt(0)) {
+    return { valid: false, reason: 'no_matching_transfer', message: 'No $HIGHER transfer from your wallet to the submission address' };
+  }
+
+  if (amount < required) {
+    return { valid: false, reason: 'insufficient_amount', message: `Payment of at least ${minAmount} $HIGHER required` };
+  }
+
+  const confirmations = latestBlock - receipt.blockNumber + BigInt(1);
+  const minConfirmations = config.minConfirmations ?? DEFAULT_MIN_CONFIRMATIONS;
+  if (confirmations < BigInt(minConfirmations)) {
+    return {
+      valid: false,
+      reason: 'insufficient_confirmations',
+      message: `Transaction needs ${minConfirmations} confirmations (has ${confirmations})`,
+    };
+  }
+
+  return {
+    valid: true,
+    amount,
+    tokens: formatUnits(amount, decimals),
+    blockNumber: receipt.blockNumber,
+    confirmations,
+  };
+}
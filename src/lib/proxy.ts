@@ -0,0 +1,60 @@
+// Shared between the /api/proxy route and the content viewer (client-safe)
+
+// postMessage type sent by proxy error pages to the embedding window
+export const PROXY_ERROR_MESSAGE = 'stumble-proxy-error';
+
+export type ProxyErrorCode =
+  | 'invalid_url'
+  | 'blocked_host'
+  | 'private_network'
+  | 'timeout'
+  | 'too_large'
+  | 'too_many_redirects'
+  | 'fetch_failed'
+  | 'upstream_error'
+  | 'unsupported_content';
+
+export interface ProxyErrorMessage {
+  type: typeof PROXY_ERROR_MESSAGE;
+  code: ProxyErrorCode;
+  message: string;
+  url: string;
+}
+
+// Build the proxy URL used to frame external content
+export const getProxyUrl = (url: string, userAgent?: string): string => {
+  const params = new URLSearchParams({ u: url });
+  if (userAgent) params.set('ua', userAgent);
+  return `/api/proxy?${params}`;
+};
+
+// URL to frame a resource with: the native player for YouTube and Vimeo, our proxy for everything else
+export const getEmbedUrl = (url: string, userAgent?: string): string => {
+  if (url.includes('youtube.com') || url.includes('youtu.be')) {
+    let videoId = '';
+
+    if (url.includes('youtube.com/watch')) {
+      videoId = new URL(url).searchParams.get('v') || '';
+    } else if (url.includes('youtu.be/')) {
+      videoId = url.split('/').pop()?.split('?')[0] || '';
+    }
+
+    if (videoId) {
+      return `https://www.youtube.com/embed/${videoId.substring(0, 11)}`;
+    }
+  }
+
+  if (url.includes('vimeo.com')) {
+    const videoId = url.split('/').pop();
+    if (videoId) {
+      return `https://player.vimeo.com/video/${videoId}`;
+    }
+  }
+
+  return getProxyUrl(url, userAgent);
+};
+
+export const isProxyErrorMessage = (data: unknown): data is ProxyErrorMessage =>
+  typeof data === 'object' &&
+  data !== null &&
+  (data as { type?: unknown }).type === PROXY_ERROR_MESSAGE;
@@ -0,0 +1,397 @@
+import { lookup } from 'dns/promises';
+import { request as httpRequest, IncomingMessage } from 'http';
+import { request as httpsRequest } from 'https';
+import { isIP, LookupFunction } from 'net';
+import { Readable } from 'stream';
+import { createBrotliDecompress, createGunzip, createInflate } from 'zlib';
+
+// Server-only fetch helpers for requesting user-supplied URLs (proxy, metadata
+// extraction). Every hop is checked against the host lists and resolved to make
+// sure it doesn't point at private or internal network addresses, and the
+// connection is made to the address that was checked so a second DNS answer
+// (DNS rebinding) can't redirect it.
+
+export type SafeFetchErrorCode =
+  | 'invalid_url'
+  | 'blocked_host'
+  | 'private_network'
+  | 'timeout'
+  | 'too_large'
+  | 'too_many_redirects'
+  | 'fetch_failed';
+
+export class SafeFetchError extends Error {
+  code: SafeFetchErrorCode;
+
+  constructor(code: SafeFetchErrorCode, message: string) {
+    super(message);
+    this.name = 'SafeFetchError';
+    this.code = code;
+  }
+}
+
+export interface SafeFetchOptions {
+  timeoutMs?: number;
+  maxBytes?: number;
+  maxRedirects?: number;
+  headers?: Record<string, string>;
+  allowedHosts?: string[]; // Empty means any public host
+  blockedHosts?: string[];
+}
+
+export interface SafeFetchResult {
+  url: string; // Final URL after redirects
+  status: number;
+  headers: Headers;
+  contentType: string;
+  body: ArrayBuffer;
+}
+
+export const BOT_USER_AGENT = 'Mozilla/5.0 (compatible; StumbleHigherBot/1.0; +https://www.stumblehigher.press)';
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024; // 5 MB
+const DEFAULT_MAX_REDIRECTS = 5;
+const ALLOWED_PORTS = ['', '80', '443'];
+const INTERNAL_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.home.arpa'];
+
+// Parse a comma-separated host list from an environment variable
+export function parseHostList(value?: string): string[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Match a hostname against a list of hosts; entries also match their subdomains
+export function hostMatches(hostname: string, hosts: string[]): boolean {
+  const host = hostname.toLowerCase();
+  return hosts.some(entry => {
+    const pattern = entry.replace(/^\*?\./, '');
+    return host === pattern || host.endsWith(`.${pattern}`);
+  });
+}
+
+function isPrivateIPv4(ip: string): boolean {
+  const [a, b] = ip.split('.').map(Number);
+
+  return (
+    a === 0 ||                             // "this" network
+    a === 10 ||                            // private
+    a === 127 ||                           // loopback
+    (a === 100 && b >= 64 && b <= 127) ||  // carrier-grade NAT
+    (a === 169 && b === 254) ||            // link-local / cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||   // private
+    (a === 192 && b === 0) ||              // IETF protocol assignments
+    (a === 192 && b === 168) ||            // private
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224                               // multicast and reserved
+  );
+}
+
+// Expand an IPv6 address (compressed, with an optional dotted IPv4 tail or zone id) into its 16 bytes
+function parseIPv6(ip: string): number[] | null {
+  let address = ip.toLowerCase().replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+
+  // Rewrite a trailing dotted IPv4 part (::ffff:1.2.3.4) as two hex groups
+  const dotted = address.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const octets = dotted.slice(2).map(Number);
+    if (octets.some(octet => octet > 255)) return null;
+    address = `${dotted[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = head.concat(new Array(missing).fill('0'), tail);
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+
+  const bytes: number[] = [];
+  groups.forEach(group => {
+    const value = parseInt(group, 16);
+    bytes.push(value >> 8, value & 0xff);
+  });
+  return bytes;
+}
+
+function isPrivateIPv6(ip: string): boolean {
+  const bytes = parseIPv6(ip);
+  if (!bytes) return true; // Unparseable - treat as unsafe
+
+  const zeros = (from: number, to: number) => bytes.slice(from, to).every(byte => byte === 0);
+  const embeddedIPv4 = (offset: number) => isPrivateIPv4(bytes.slice(offset, offset + 4).join('.'));
+
+  // Addresses that carry an IPv4 address are only as public as that address
+  if (zeros(0, 10) && bytes[10] === 0xff && bytes[11] === 0xff) return embeddedIPv4(12); // mapped (::ffff:a.b.c.d)
+  if (zeros(0, 12)) return embeddedIPv4(12);                                              // compatible (::a.b.c.d), also :: and ::1
+  if (bytes[0] === 0x00 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b) {
+    return zeros(4, 12) ? embeddedIPv4(12) : true;                                        // NAT64 (64:ff9b::/96); local-use 64:ff9b:1::/48
+  }
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) return embeddedIPv4(2);                    // 6to4 (2002::/16)
+
+  return (
+    (bytes[0] === 0x20 && bytes[1] === 0x01 && zeros(2, 4)) || // Teredo (2001::/32) tunnels to arbitrary IPv4
+    (bytes[0] & 0xfe) === 0xfc ||                                // unique local (fc00::/7)
+    (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) ||         // link-local (fe80::/10)
+    (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0xc0) ||         // site-local (fec0::/10, deprecated)
+    bytes[0] === 0xff                                            // multicast
+  );
+}
+
+// Check whether an IP address belongs to a private, loopback or reserved range
+export function isPrivateAddress(ip: string): boolean {
+  const version = isIP(ip.replace(/^\[|\]$/g, ''));
+  if (version === 4) return isPrivateIPv4(ip);
+  if (version === 6) return isPrivateIPv6(ip);
+  return true; // Not an IP address at all - treat as unsafe
+}
+
+interface ResolvedAddress {
+  address: string;
+  family: number;
+}
+
+// Validate that a URL is safe to request from the server
+export async function assertPublicUrl(
+  input: string,
+  options: Pick<SafeFetchOptions, 'allowedHosts' | 'blockedHosts'> = {}
+): Promise<URL> {
+  return (await resolvePublicUrl(input, options)).url;
+}
+
+// Validate a URL and return the public address it resolved to, for the connection to use
+async function resolvePublicUrl(
+  input: string,
+  options: Pick<SafeFetchOptions, 'allowedHosts' | 'blockedHosts'>
+): Promise<{ url: URL; target: ResolvedAddress }> {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new SafeFetchError('invalid_url', 'Invalid URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new SafeFetchError('invalid_url', 'Only http and https URLs are supported');
+  }
+
+  if (url.username || url.password) {
+    throw new SafeFetchError('invalid_url', 'URLs with credentials are not allowed');
+  }
+
+  if (!ALLOWED_PORTS.includes(url.port)) {
+    throw new SafeFetchError('blocked_host', `Port ${url.port} is not allowed`);
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+
+  if (options.blockedHosts?.length && hostMatches(hostname, options.blockedHosts)) {
+    throw new SafeFetchError('blocked_host', `${hostname} is blocked`);
+  }
+
+  if (options.allowedHosts?.length && !hostMatches(hostname, options.allowedHosts)) {
+    throw new SafeFetchError('blocked_host', `${hostname} is not on the allowlist`);
+  }
+
+  const version = isIP(hostname);
+  if (version) {
+    if (isPrivateAddress(hostname)) {
+      throw new SafeFetchError('private_network', 'Private network addresses are not allowed');
+    }
+    return { url, target: { address: hostname, family: version } };
+  }
+
+  if (hostname === 'localhost' || INTERNAL_HOST_SUFFIXES.some(suffix => hostname.endsWith(suffix))) {
+    throw new SafeFetchError('private_network', 'Internal hostnames are not allowed');
+  }
+
+  let addresses: ResolvedAddress[];
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new SafeFetchError('fetch_failed', `Could not resolve ${hostname}`);
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new SafeFetchError('private_network', `${hostname} resolves to a private network address`);
+  }
+
+  return { url, target: addresses[0] };
+}
+
+// A DNS lookup that always answers with the address already validated
+function pinnedLookup(target: ResolvedAddress): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [target]);
+    } else {
+      callback(null, target.address, target.family);
+    }
+  };
+}
+
+// GET a validated URL, connecting only to its validated address. TLS still
+// verifies the certificate against the URL's hostname.
+function requestPinned(
+  url: URL,
+  target: ResolvedAddress,
+  headers: Record<string, string>,
+  signal: AbortSignal
+): Promise<IncomingMessage> {
+  const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: 'GET',
+      headers: { 'Accept-Encoding': 'gzip, deflate, br', ...headers },
+      lookup: pinnedLookup(target),
+      signal,
+    }, resolve);
+
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+// Response headers in the Fetch API shape; encoding headers are dropped since bodies are decoded
+function toFetchHeaders(response: IncomingMessage): Headers {
+  const headers = new Headers();
+  Object.keys(response.headers).forEach(name => {
+    if (name === 'content-encoding' || name === 'content-length') return;
+    const value = response.headers[name];
+    (Array.isArray(value) ? value : [value]).forEach(item => {
+      if (item !== undefined) headers.append(name, item);
+    });
+  });
+  return headers;
+}
+
+// The response body stream, decompressed according to its content encoding
+function decodedStream(response: IncomingMessage): Readable {
+  const encoding = (response.headers['content-encoding'] || '').toLowerCase().trim();
+
+  let decoder: Readable & NodeJS.WritableStream;
+  if (encoding === 'gzip' || encoding === 'x-gzip') decoder = createGunzip();
+  else if (encoding === 'deflate') decoder = createInflate();
+  else if (encoding === 'br') decoder = createBrotliDecompress();
+  else return response;
+
+  response.on('error', error => decoder.destroy(error));
+  return response.pipe(decoder);
+}
+
+// Read a response body, aborting once it grows past maxBytes (after decompression)
+function readBody(response: IncomingMessage, maxBytes: number): Promise<ArrayBuffer> {
+  const declaredLength = Number(response.headers['content-length']);
+  if (declaredLength && declaredLength > maxBytes) {
+    response.destroy();
+    return Promise.reject(new SafeFetchError('too_large', `Response exceeds ${maxBytes} bytes`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const stream = decodedStream(response);
+    const chunks: Buffer[] = [];
+    let received = 0;
+
+    stream.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > maxBytes) {
+        response.destroy();
+        stream.destroy();
+        reject(new SafeFetchError('too_large', `Response exceeds ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    stream.on('error', reject);
+
+    stream.on('end', () => {
+      const body = new ArrayBuffer(received);
+      const view = new Uint8Array(body);
+      let offset = 0;
+      chunks.forEach(chunk => {
+        view.set(chunk, offset);
+        offset += chunk.length;
+      });
+      resolve(body);
+    });
+  });
+}
+
+// Fetch a user-supplied URL with SSRF protections, a time limit and a size limit.
+// Redirects are followed manually so every hop is validated.
+export async function safeFetch(input: string, options: SafeFetchOptions = {}): Promise<SafeFetchResult> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxBytes = DEFAULT_MAX_BYTES,
+    maxRedirects = DEFAULT_MAX_REDIRECTS,
+    headers = {},
+  } = options;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    let currentUrl = input;
+
+    for (let redirects = 0; redirects <= maxRedirects; redirects++) {
+      const { url, target } = await resolvePublicUrl(currentUrl, options);
+
+      // Redirects aren't followed by the request itself, so each hop comes back here
+      const response = await requestPinned(url, target, headers, controller.signal);
+      const status = response.statusCode || 0;
+
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.resume(); // Discard the redirect body
+        currentUrl = new URL(location, url).toString();
+        continue;
+      }
+
+      const body = await readBody(response, maxBytes);
+      const responseHeaders = toFetchHeaders(response);
+
+      return {
+        url: url.toString(),
+        status,
+        headers: responseHeaders,
+        contentType: responseHeaders.get('content-type') || 'application/octet-stream',
+        body,
+      };
+    }
+
+    throw new SafeFetchError('too_many_redirects', `More than ${maxRedirects} redirects`);
+  } catch (error) {
+    if (error instanceof SafeFetchError) throw error;
+
+    if (controller.signal.aborted) {
+      throw new SafeFetchError('timeout', `Request timed out after ${timeoutMs}ms`);
+    }
+
+    throw new SafeFetchError(
+      'fetch_failed',
+      error instanceof Error ? error.message : 'Request failed'
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Decode a fetched body as text using the charset from its content type
+export function decodeBody(result: SafeFetchResult): string {
+  const charset = result.contentType.match(/charset=([^;]+)/i)?.[1]?.trim().replace(/["']/g, '');
+
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(result.body);
+  } catch {
+    return new TextDecoder('utf-8').decode(result.body);
+  }
+}
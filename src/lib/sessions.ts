@@ -0,0 +1,78 @@
+import { cookies } from 'next/headers';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { createServiceClient } from './supabase';
+import { Database } from '@/types/database';
+
+// Supabase sessions for sign-in methods Supabase doesn't handle natively
+// (wallet and Farcaster). Each profile in `users` is backed by an auth user
+// with the same id and a synthetic email; a session is minted by generating a
+// magic link server-side and exchanging its token, which also sets the auth
+// cookies for the route handler's response.
+
+export interface SessionTokens {
+  access_token: string;
+  refresh_token: string;
+  expires_at?: number;
+}
+
+// Make sure an auth user exists for a profile. Pass the profile id for
+// existing users; new users get a fresh id to create their profile with.
+export async function ensureAuthUser({
+  userId,
+  email,
+  metadata,
+}: {
+  userId?: string;
+  email: string;
+  metadata: Record<string, unknown>;
+}): Promise<{ id: string; email: string }> {
+  const supabase = createServiceClient();
+
+  if (userId) {
+    const { data: existing } = await supabase.auth.admin.getUserById(userId);
+    if (existing?.user?.email) {
+      return { id: existing.user.id, email: existing.user.email };
+    }
+  }
+
+  const { data, error } = await supabase.auth.admin.createUser({
+    id: userId,
+    email,
+    email_confirm: true,
+    user_metadata: metadata,
+  });
+
+  if (error || !data.user) {
+    throw new Error(`Failed to create auth user: ${error?.message}`);
+  }
+
+  return { id: data.user.id, email };
+}
+
+// Start a session for an auth user and set the auth cookies
+export async function createSession(email: string): Promise<SessionTokens> {
+  const { data: linkData, error: linkError } = await createServiceClient().auth.admin.generateLink({
+    type: 'magiclink',
+    email,
+  });
+
+  if (linkError || !linkData.properties?.hashed_token) {
+    throw new Error(`Failed to generate sign-in link: ${linkError?.message}`);
+  }
+
+  const supabase = createRouteHandlerClient<Database>({ cookies });
+  const { data, error } = await supabase.auth.verifyOtp({
+    token_hash: linkData.properties.hashed_token,
+    type: 'magiclink',
+  });
+
+  if (error || !data.session) {
+    throw new Error(`Failed to create session: ${error?.message}`);
+  }
+
+  return {
+    access_token: data.session.access_token,
+    refresh_token: data.session.refresh_token,
+    expires_at: data.session.expires_at,
+  };
+}
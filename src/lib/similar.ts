@@ -0,0 +1,95 @@
+import { createServerClient } from './supabase';
+import { Resource, SimilarResource } from '@/types/database';
+
+// "People who liked this also liked": neighbours from resource_similarities
+// (refreshed periodically from co-occurring upvotes and favorites), topped up
+// with content matches so new resources with no co-likes still get suggestions.
+
+// Resources similar to this one, collaborative matches first
+export async function getSimilarResources(
+  supabase: ReturnType<typeof createServerClient>,
+  resource: Pick<Resource, 'id' | 'tags' | 'category'>,
+  limit: number
+): Promise<SimilarResource[]> {
+  const similar: SimilarResource[] = [];
+
+  const { data: neighbours, error } = await supabase
+    .from('resource_similarities')
+    .select('similar_resource_id, score')
+    .eq('resource_id', resource.id)
+    .order('score', { ascending: false })
+    .limit(limit * 2); // Some neighbours may no longer be approved
+
+  if (error) {
+    console.error('Error fetching resource similarities:', error);
+  }
+
+  const scores: Record<string, number> = {};
+  (neighbours || []).forEach((neighbour: { similar_resource_id: string; score: number }) => {
+    scores[neighbour.similar_resource_id] = Number(neighbour.score);
+  });
+
+  const neighbourIds = Object.keys(scores);
+  if (neighbourIds.length > 0) {
+    const { data } = await supabase
+      .from('resources')
+      .select('*')
+      .in('id', neighbourIds)
+      .eq('status', 'approved');
+
+    ((data || []) as Resource[])
+      .sort((a, b) => scores[b.id] - scores[a.id])
+      .slice(0, limit)
+      .forEach(item => {
+        similar.push({ ...item, similarity: { source: 'collaborative', score: scores[item.id] } });
+      });
+  }
+
+  if (similar.length < limit) {
+    const related = await getContentMatches(supabase, resource, similar.map(item => item.id), limit - similar.length);
+    related.forEach(item => {
+      similar.push({ ...item, similarity: { source: 'content', score: null } });
+    });
+  }
+
+  return similar;
+}
+
+// Approved resources sharing tags, topped up with the same category
+async function getContentMatches(
+  supabase: ReturnType<typeof createServerClient>,
+  resource: Pick<Resource, 'id' | 'tags' | 'category'>,
+  excludeIds: string[],
+  limit: number
+): Promise<Resource[]> {
+  const related: Resource[] = [];
+  const excluded = () => `(${[resource.id, ...excludeIds, ...related.map(r => r.id)].join(',')})`;
+
+  if (resource.tags && resource.tags.length > 0) {
+    const { data } = await supabase
+      .from('resources')
+      .select('*')
+      .eq('status', 'approved')
+      .not('id', 'in', excluded())
+      .overlaps('tags', resource.tags)
+      .order('quality_score', { ascending: false })
+      .limit(limit);
+
+    related.push(...(data || []));
+  }
+
+  if (related.length < limit) {
+    const { data } = await supabase
+      .from('resources')
+      .select('*')
+      .eq('status', 'approved')
+      .eq('category', resource.category)
+      .not('id', 'in', excluded())
+      .order('quality_score', { ascending: false })
+      .limit(limit - related.length);
+
+    related.push(...(data || []));
+  }
+
+  return related;
+}
@@ -0,0 +1,8 @@
+// Public site details shared by page metadata and share links
+
+export const SITE_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://www.stumblehigher.press';
+
+export const SITE_NAME = 'Stumble Higher';
+
+export const SHARE_IMAGE_URL =
+  'https://images.squarespace-cdn.com/content/v1/67ad421520b6ba3d357c8fd1/a681b2d2-59b0-4953-a7f3-bdbebc6b7ba6/stumble-higher-miniapp-image.png';
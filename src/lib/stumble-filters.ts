@@ -0,0 +1,87 @@
+import { DifficultyLevel, ResourceCategory, StumbleFilters, UserPreferences, UserPreferencesUpdate } from '@/types/database';
+
+// Shared by the stumble filter drawer and /api/discover
+
+export const RESOURCE_CATEGORIES: ResourceCategory[] = ['books', 'articles', 'videos', 'tools', 'research', 'philosophy'];
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = ['beginner', 'intermediate', 'advanced'];
+
+// "Hide long content" drops anything estimated to take longer than this
+export const LONG_CONTENT_MINUTES = 45;
+
+export const DEFAULT_STUMBLE_FILTERS: StumbleFilters = {
+  categories: [],
+  difficulty: null,
+  max_time: null,
+  hide_videos: false,
+  hide_long_content: false,
+};
+
+// Coerce stored filters (localStorage, user_preferences) into a valid shape
+export function normalizeStumbleFilters(value: unknown): StumbleFilters {
+  if (!value || typeof value !== 'object') return DEFAULT_STUMBLE_FILTERS;
+
+  const raw = value as Record<string, unknown>;
+  const categories = Array.isArray(raw.categories)
+    ? RESOURCE_CATEGORIES.filter(category => (raw.categories as unknown[]).indexOf(category) !== -1)
+    : [];
+  const maxTime = Number(raw.max_time);
+
+  return {
+    categories,
+    difficulty: DIFFICULTY_LEVELS.indexOf(raw.difficulty as DifficultyLevel) !== -1
+      ? raw.difficulty as DifficultyLevel
+      : null,
+    max_time: Number.isInteger(maxTime) && maxTime > 0 ? maxTime : null,
+    hide_videos: raw.hide_videos === true,
+    hide_long_content: raw.hide_long_content === true,
+  };
+}
+
+// Drawer filters held in the user's preference columns
+export function filtersFromPreferences(preferences: Partial<UserPreferences>): StumbleFilters {
+  return normalizeStumbleFilters({
+    categories: preferences.preferred_categories,
+    difficulty: preferences.preferred_difficulty,
+    max_time: preferences.max_time_minutes,
+    hide_videos: preferences.hide_videos,
+    hide_long_content: preferences.hide_long_content,
+  });
+}
+
+// Preference columns to save drawer filters into. Picking a category in the
+// drawer takes it off the excluded list, which can't overlap the preferred one.
+export function preferencesFromFilters(filters: StumbleFilters, excludedCategories: string[]): UserPreferencesUpdate {
+  return {
+    preferred_categories: filters.categories,
+    excluded_categories: excludedCategories.filter(category => filters.categories.indexOf(category as ResourceCategory) === -1),
+    preferred_difficulty: filters.difficulty,
+    max_time_minutes: filters.max_time,
+    hide_videos: filters.hide_videos,
+    hide_long_content: filters.hide_long_content,
+  };
+}
+
+// Number of filters that narrow results, for the controls badge
+export function countActiveFilters(filters: StumbleFilters): number {
+  return [
+    filters.categories.length > 0,
+    filters.difficulty !== null,
+    filters.max_time !== null,
+    filters.hide_videos,
+    filters.hide_long_content,
+  ].filter(Boolean).length;
+}
+
+// Query parameters understood by GET /api/discover. The toggles are always sent
+// so switching one off in the drawer overrides a stored preference.
+export function stumbleFilterParams(filters: StumbleFilters): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  if (filters.categories.length > 0) params.category = filters.categories.join(',');
+  if (filters.difficulty) params.difficulty = filters.difficulty;
+  if (filters.max_time) params.max_time = String(filters.max_time);
+  params.hide_videos = String(filters.hide_videos);
+  params.hide_long_content = String(filters.hide_long_content);
+
+  return params;
+}
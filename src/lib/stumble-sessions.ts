@@ -0,0 +1,57 @@
+import { createServiceClient } from './supabase';
+
+// Server-side record of what each stumble session has been shown, so clients
+// send a session id instead of their whole history with every request.
+// Stored in stumble_sessions so it survives across serverless instances, and
+// discovery queries exclude it there (unserved_resources()).
+
+export const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const SESSION_TTL_HOURS = 24;
+const MAX_SERVED_PER_SESSION = 500; // Bounds the row; older resources may come round again
+
+// Resources already served to this session (empty for unknown or expired sessions)
+export async function getServedIds(sessionId: string): Promise<string[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('stumble_sessions')
+    .select('served_ids')
+    .eq('session_id', sessionId)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading stumble session:', error);
+    return [];
+  }
+
+  return (data?.served_ids as string[] | undefined) || [];
+}
+
+// Remember resources shown to a session (recorded with the view, not when prefetched)
+export async function recordServed(sessionId: string, userId: string | undefined, resourceIds: string[]) {
+  if (resourceIds.length === 0) return;
+
+  const supabase = createServiceClient();
+
+  const { error } = await supabase.rpc('record_stumble_served', {
+    target_session_id: sessionId,
+    target_user_id: userId ?? null,
+    resource_ids: resourceIds,
+    ttl_hours: SESSION_TTL_HOURS,
+    max_served: MAX_SERVED_PER_SESSION,
+  });
+
+  if (error) {
+    console.error('Error recording stumble session:', error);
+  }
+
+  // Opportunistically clear out expired sessions (now and then is plenty)
+  if (Math.random() < 0.05) {
+    await supabase
+      .from('stumble_sessions')
+      .delete()
+      .lt('expires_at', new Date().toISOString());
+  }
+}
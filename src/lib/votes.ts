@@ -0,0 +1,66 @@
+import { createServerClient } from './supabase';
+
+export interface RecentVoter {
+  vote_type: 'up' | 'down';
+  weight: number;
+  created_at: string;
+  user: {
+    username: string;
+    display_name: string | null;
+    avatar_url: string | null;
+    reputation_score: number;
+  } | null;
+}
+
+export interface VoteSummary {
+  upvotes: number;
+  downvotes: number;
+  weighted_score: number;
+  voter_count: number;
+  should_auto_approve?: boolean;
+  should_auto_hide?: boolean;
+  recent_voters?: RecentVoter[];
+}
+
+// Weighted vote totals and the latest voters for a resource
+export async function getVoteSummary(
+  supabase: ReturnType<typeof createServerClient>,
+  resourceId: string
+): Promise<VoteSummary> {
+  const { data: qualityData } = await supabase
+    .rpc('calculate_quality_score', { resource_id: resourceId });
+
+  if (!qualityData || qualityData.length === 0) {
+    return {
+      upvotes: 0,
+      downvotes: 0,
+      weighted_score: 0,
+      voter_count: 0,
+    };
+  }
+
+  const scoreResult = qualityData[0];
+
+  // Get recent voters for display
+  const { data: recentVoters } = await supabase
+    .from('votes')
+    .select(`
+      vote_type,
+      weight,
+      created_at,
+      user:users(username, display_name, avatar_url, reputation_score)
+    `)
+    .eq('resource_id', resourceId)
+    .order('created_at', { ascending: false })
+    .limit(10);
+
+  return {
+    upvotes: scoreResult.upvotes,
+    downvotes: scoreResult.downvotes,
+    weighted_score: scoreResult.weighted_score,
+    voter_count: scoreResult.voter_count,
+    should_auto_approve: scoreResult.should_auto_approve,
+    should_auto_hide: scoreResult.should_auto_hide,
+    recent_voters: (recentVoters || []) as unknown as RecentVoter[],
+  };
+}
@@ -2,8 +2,8 @@
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { Session } from '@supabase/supabase-js';
-import { User, AuthState } from '@/types/database';
-import { authService } from '@/lib/auth';
+import { User } from '@/types/database';
+import { authService, AuthState } from '@/lib/auth';
 
 interface AuthContextType extends AuthState {
   signIn: (provider: 'farcaster' | 'wallet' | 'email', data?: any) => Promise<{ error: Error | null; user?: User }>;
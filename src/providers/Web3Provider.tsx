@@ -1,16 +1,41 @@
 'use client';
 
-import React, { createContext, useContext, useEffect, useState } from 'react';
-import { WagmiConfig, createConfig, configureChains } from 'wagmi';
-import { base, mainnet } from 'wagmi/chains';
+import React, { createContext, useCallback, useContext, useState } from 'react';
+import {
+  WagmiConfig,
+  createConfig,
+  configureChains,
+  erc20ABI,
+  useAccount,
+  useDisconnect,
+  useNetwork,
+  usePublicClient,
+  useSwitchNetwork,
+} from 'wagmi';
+import { getWalletClient } from '@wagmi/core';
+import { base, baseSepolia, foundry, mainnet } from 'wagmi/chains';
 import { publicProvider } from 'wagmi/providers/public';
 import { alchemyProvider } from 'wagmi/providers/alchemy';
-import { RainbowKitProvider, getDefaultWallets, connectorsForWallets } from '@rainbow-me/rainbowkit';
+import { RainbowKitProvider, getDefaultWallets, connectorsForWallets, useConnectModal } from '@rainbow-me/rainbowkit';
+import { formatUnits, parseAbi, parseUnits, type Address, type Hash } from 'viem';
 import '@rainbow-me/rainbowkit/styles.css';
 
+// Chain submissions are paid on (8453 Base, 84532 Base Sepolia, 31337 local Anvil)
+const targetChain = [base, baseSepolia, foundry].find(
+  chain => chain.id === Number(process.env.NEXT_PUBLIC_CHAIN_ID)
+) || base;
+
+// Confirmations to wait for before handing the hash to the API
+const SUBMISSION_CONFIRMATIONS = Number(process.env.NEXT_PUBLIC_SUBMISSION_CONFIRMATIONS) || 3;
+
+// Submission contract pulls the approved $HIGHER from the payer
+const submissionContractABI = parseAbi([
+  'function payForSubmission(uint256 amount)',
+]);
+
 // Configure chains and providers
 const { chains, publicClient, webSocketPublicClient } = configureChains(
-  [base, mainnet],
+  [targetChain, mainnet],
   [
     alchemyProvider({ apiKey: process.env.NEXT_PUBLIC_ALCHEMY_API_KEY || '' }),
     publicProvider(),
@@ -43,7 +68,10 @@ interface Web3ContextType {
   checkBalance: (address: string) => Promise<{ balance: string; error?: string }>;
 
   // Transaction helpers
-  waitForTransaction: (hash: string) => Promise<{ success: boolean; error?: string }>;
+  waitForTransaction: (
+    hash: string,
+    confirmations?: number
+  ) => Promise<{ success: boolean; confirmations?: number; error?: string }>;
 
   // Contract addresses
   contracts: {
@@ -53,77 +81,171 @@ interface Web3ContextType {
 
   // Network info
   supportedChains: typeof chains;
+  targetChain: typeof targetChain;
   isCorrectNetwork: boolean;
 }
 
 const Web3Context = createContext<Web3ContextType | undefined>(undefined);
 
-export function Web3Provider({ children }: { children: React.ReactNode }) {
-  const [isCorrectNetwork, setIsCorrectNetwork] = useState(true);
+const contracts = {
+  higherToken: process.env.NEXT_PUBLIC_HIGHER_TOKEN_ADDRESS || '0x0578d8a44db98b23bf096a382e016e29a5ce0ffe',
+  submissionContract: process.env.NEXT_PUBLIC_SUBMISSION_CONTRACT_ADDRESS || '',
+};
 
-  const contracts = {
-    higherToken: process.env.NEXT_PUBLIC_HIGHER_TOKEN_ADDRESS || '0x0578d8a44db98b23bf096a382e016e29a5ce0ffe',
-    submissionContract: process.env.NEXT_PUBLIC_SUBMISSION_CONTRACT_ADDRESS || '',
-  };
+// Needs to render inside WagmiConfig to use the account and client hooks
+function Web3ContextProvider({ children }: { children: React.ReactNode }) {
+  const { address, isConnected } = useAccount();
+  const { chain } = useNetwork();
+  const { switchNetworkAsync } = useSwitchNetwork();
+  const client = usePublicClient({ chainId: targetChain.id });
+
+  // Treat a disconnected wallet as fine - there is nothing to switch yet
+  const isCorrectNetwork = !isConnected || chain?.id === targetChain.id;
+
+  const getTokenDecimals = useCallback(() => client.readContract({
+    address: contracts.higherToken as Address,
+    abi: erc20ABI,
+    functionName: 'decimals',
+  }), [client]);
 
   // Submit payment for content submission
-  const submitPayment = async (amount: number = 1000): Promise<{ txHash?: string; error?: string }> => {
+  const submitPayment = useCallback(async (amount: number = 1000): Promise<{ txHash?: string; error?: string }> => {
     try {
-      // This would interact with the submission contract
-      // For now, return a mock transaction hash
+      if (!address) {
+        throw new Error('Connect your wallet to pay');
+      }
+
+      if (!contracts.submissionContract) {
+        throw new Error('Submission contract is not configured');
+      }
+
+      if (!isCorrectNetwork) {
+        if (!switchNetworkAsync) {
+          throw new Error(`Switch your wallet to ${targetChain.name}`);
+        }
+        await switchNetworkAsync(targetChain.id);
+      }
+
+      // Fetched after any switch; a client captured at render would still be on the old chain
+      const walletClient = await getWalletClient({ chainId: targetChain.id });
+      if (!walletClient) {
+        throw new Error('Wallet is not ready, please try again');
+      }
+
+      const token = contracts.higherToken as Address;
+      const spender = contracts.submissionContract as Address;
+      const value = parseUnits(String(amount), await getTokenDecimals());
 
-      // In production:
       // 1. Check user has enough HIGHER tokens
+      const balance = await client.readContract({
+        address: token,
+        abi: erc20ABI,
+        functionName: 'balanceOf',
+        args: [address],
+      });
+
+      if (balance < value) {
+        throw new Error('Insufficient $HIGHER balance');
+      }
+
       // 2. Approve spending if needed
+      const allowance = await client.readContract({
+        address: token,
+        abi: erc20ABI,
+        functionName: 'allowance',
+        args: [address, spender],
+      });
+
+      if (allowance < value) {
+        const { request } = await client.simulateContract({
+          account: address,
+          address: token,
+          abi: erc20ABI,
+          functionName: 'approve',
+          args: [spender, value],
+        });
+        const approveHash = await walletClient.writeContract(request);
+        const approveReceipt = await client.waitForTransactionReceipt({ hash: approveHash });
+
+        if (approveReceipt.status !== 'success') {
+          throw new Error('Token approval failed');
+        }
+      }
+
       // 3. Call contract's payForSubmission function
-      // 4. Return transaction hash
+      const { request } = await client.simulateContract({
+        account: address,
+        address: spender,
+        abi: submissionContractABI,
+        functionName: 'payForSubmission',
+        args: [value],
+      });
+      const txHash = await walletClient.writeContract(request);
 
-      return {
-        txHash: '0x' + Math.random().toString(16).substring(2, 66),
-      };
+      // 4. Return transaction hash
+      return { txHash };
     } catch (error) {
       console.error('Payment error:', error);
       return {
-        error: error instanceof Error ? error.message : 'Payment failed',
+        error: getErrorMessage(error, 'Payment failed'),
       };
     }
-  };
+  }, [address, isCorrectNetwork, switchNetworkAsync, client, getTokenDecimals]);
 
-  // Check HIGHER token balance
-  const checkBalance = async (address: string): Promise<{ balance: string; error?: string }> => {
+  // Check HIGHER token balance (in whole tokens)
+  const checkBalance = useCallback(async (owner: string): Promise<{ balance: string; error?: string }> => {
     try {
-      // This would query the HIGHER token contract
-      // For now, return a mock balance
+      const [balance, decimals] = await Promise.all([
+        client.readContract({
+          address: contracts.higherToken as Address,
+          abi: erc20ABI,
+          functionName: 'balanceOf',
+          args: [owner as Address],
+        }),
+        getTokenDecimals(),
+      ]);
 
       return {
-        balance: '5000', // Mock balance
+        balance: formatUnits(balance, decimals),
       };
     } catch (error) {
       console.error('Balance check error:', error);
       return {
         balance: '0',
-        error: error instanceof Error ? error.message : 'Balance check failed',
+        error: getErrorMessage(error, 'Balance check failed'),
       };
     }
-  };
+  }, [client, getTokenDecimals]);
 
   // Wait for transaction confirmation
-  const waitForTransaction = async (hash: string): Promise<{ success: boolean; error?: string }> => {
+  const waitForTransaction = useCallback(async (
+    hash: string,
+    confirmations: number = SUBMISSION_CONFIRMATIONS
+  ): Promise<{ success: boolean; confirmations?: number; error?: string }> => {
     try {
-      // This would wait for transaction confirmation
-      // For now, simulate a successful transaction
+      const receipt = await client.waitForTransactionReceipt({
+        hash: hash as Hash,
+        confirmations,
+      });
 
-      await new Promise(resolve => setTimeout(resolve, 2000)); // Simulate wait
+      if (receipt.status !== 'success') {
+        return { success: false, error: 'Transaction reverted' };
+      }
+
+      const latestBlock = await client.getBlockNumber();
 
-      return { success: true };
+      return {
+        success: true,
+        confirmations: Number(latestBlock - receipt.blockNumber) + 1,
+      };
     } catch (error) {
       console.error('Transaction wait error:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Transaction failed',
+        error: getErrorMessage(error, 'Transaction failed'),
       };
     }
-  };
+  }, [client]);
 
   const value: Web3ContextType = {
     submitPayment,
@@ -131,9 +253,18 @@ export function Web3Provider({ children }: { children: React.ReactNode }) {
     waitForTransaction,
     contracts,
     supportedChains: chains,
+    targetChain,
     isCorrectNetwork,
   };
 
+  return (
+    <Web3Context.Provider value={value}>
+      {children}
+    </Web3Context.Provider>
+  );
+}
+
+export function Web3Provider({ children }: { children: React.ReactNode }) {
   const rainbowKitTheme = {
     blurs: {
       modalOverlay: 'blur(4px)',
@@ -201,9 +332,9 @@ export function Web3Provider({ children }: { children: React.ReactNode }) {
         }}
         showRecentTransactions={true}
       >
-        <Web3Context.Provider value={value}>
+        <Web3ContextProvider>
           {children}
-        </Web3Context.Provider>
+        </Web3ContextProvider>
       </RainbowKitProvider>
     </WagmiConfig>
   );
@@ -219,16 +350,21 @@ export function useWeb3() {
 
 // Additional hooks for wallet functionality
 export function useWallet() {
-  // This would use wagmi hooks for wallet connection
-  // For now, return mock data
+  const { address, isConnected, isConnecting, isReconnecting } = useAccount();
+  const { chain } = useNetwork();
+  const { switchNetwork } = useSwitchNetwork();
+  const { disconnect } = useDisconnect();
+  const { openConnectModal } = useConnectModal();
+
   return {
-    address: null,
-    isConnected: false,
-    isConnecting: false,
-    connect: () => {},
-    disconnect: () => {},
-    chain: chains[0],
-    switchNetwork: () => {},
+    address: address || null,
+    isConnected,
+    isConnecting: isConnecting || isReconnecting,
+    connect: () => openConnectModal?.(),
+    disconnect: () => disconnect(),
+    chain: chain || targetChain,
+    isCorrectNetwork: !isConnected || chain?.id === targetChain.id,
+    switchNetwork: () => switchNetwork?.(targetChain.id),
   };
 }
 
@@ -237,12 +373,12 @@ export function useHigherBalance() {
   const [balance, setBalance] = useState<string>('0');
   const [loading, setLoading] = useState(false);
 
-  const fetchBalance = async (address: string) => {
+  const fetchBalance = useCallback(async (address: string) => {
     setLoading(true);
     const result = await checkBalance(address);
     setBalance(result.balance);
     setLoading(false);
-  };
+  }, [checkBalance]);
 
   return {
     balance,
@@ -294,3 +430,11 @@ export function useSubmissionPayment() {
     txHash,
   };
 }
+
+// Prefer the short message viem attaches to RPC and contract errors
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error && typeof error === 'object' && 'shortMessage' in error) {
+    return String((error as { shortMessage: unknown }).shortMessage);
+  }
+  return error instanceof Error ? error.message : fallback;
+}
@@ -81,6 +81,7 @@ export interface Database {
           title: string
           author: string | null
           url: string
+          canonical_url: string | null
           description: string | null
           category: string
           tags: string[] | null
@@ -101,7 +102,9 @@ export interface Database {
           featured_at: string | null
           admin_notes: string | null
           rejection_reason: string | null
+          possible_duplicate_of: string | null
           is_genesis: boolean
+          search_vector: string | null
           created_at: string
           updated_at: string
         }
@@ -110,6 +113,7 @@ export interface Database {
           title: string
           author?: string | null
           url: string
+          canonical_url?: string | null
           description?: string | null
           category: string
           tags?: string[] | null
@@ -130,7 +134,9 @@ export interface Database {
           featured_at?: string | null
           admin_notes?: string | null
           rejection_reason?: string | null
+          possible_duplicate_of?: string | null
           is_genesis?: boolean
+          search_vector?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -139,6 +145,7 @@ export interface Database {
           title?: string
           author?: string | null
           url?: string
+          canonical_url?: string | null
           description?: string | null
           category?: string
           tags?: string[] | null
@@ -159,7 +166,9 @@ export interface Database {
           featured_at?: string | null
           admin_notes?: string | null
           rejection_reason?: string | null
+          possible_duplicate_of?: string | null
           is_genesis?: boolean
+          search_vector?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -169,6 +178,12 @@ export interface Database {
             columns: ["submitted_by"]
             referencedRelation: "users"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resources_possible_duplicate_of_fkey"
+            columns: ["possible_duplicate_of"]
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
           }
         ]
       }
@@ -264,8 +279,8 @@ export interface Database {
           user_id: string
           preferred_categories: string[]
           excluded_categories: string[]
-          preferred_difficulty: string
-          max_time_minutes: number
+          preferred_difficulty: string | null
+          max_time_minutes: number | null
           hide_videos: boolean
           hide_long_content: boolean
           notification_settings: Json
@@ -278,8 +293,8 @@ export interface Database {
           user_id: string
           preferred_categories?: string[]
           excluded_categories?: string[]
-          preferred_difficulty?: string
-          max_time_minutes?: number
+          preferred_difficulty?: string | null
+          max_time_minutes?: number | null
           hide_videos?: boolean
           hide_long_content?: boolean
           notification_settings?: Json
@@ -292,8 +307,8 @@ export interface Database {
           user_id?: string
           preferred_categories?: string[]
           excluded_categories?: string[]
-          preferred_difficulty?: string
-          max_time_minutes?: number
+          preferred_difficulty?: string | null
+          max_time_minutes?: number | null
           hide_videos?: boolean
           hide_long_content?: boolean
           notification_settings?: Json
@@ -542,7 +557,7 @@ export interface Database {
       admin_actions: {
         Row: {
           id: string
-          admin_id: string
+          admin_id: string | null
           action: string
           target_type: string | null
           target_id: string | null
@@ -551,7 +566,7 @@ export interface Database {
         }
         Insert: {
           id?: string
-          admin_id: string
+          admin_id?: string | null
           action: string
           target_type?: string | null
           target_id?: string | null
@@ -560,7 +575,7 @@ export interface Database {
         }
         Update: {
           id?: string
-          admin_id?: string
+          admin_id?: string | null
           action?: string
           target_type?: string | null
           target_id?: string | null
@@ -576,6 +591,101 @@ export interface Database {
           }
         ]
       }
+      auth_nonces: {
+        Row: {
+          nonce: string
+          purpose: string
+          expires_at: string
+          consumed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          nonce: string
+          purpose: string
+          expires_at: string
+          consumed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          nonce?: string
+          purpose?: string
+          expires_at?: string
+          consumed_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      stumble_sessions: {
+        Row: {
+          session_id: string
+          user_id: string | null
+          served_ids: string[]
+          expires_at: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          session_id: string
+          user_id?: string | null
+          served_ids?: string[]
+          expires_at: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          session_id?: string
+          user_id?: string | null
+          served_ids?: string[]
+          expires_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stumble_sessions_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      resource_similarities: {
+        Row: {
+          resource_id: string
+          similar_resource_id: string
+          score: number
+          co_count: number
+          updated_at: string
+        }
+        Insert: {
+          resource_id: string
+          similar_resource_id: string
+          score: number
+          co_count: number
+          updated_at?: string
+        }
+        Update: {
+          resource_id?: string
+          similar_resource_id?: string
+          score?: number
+          co_count?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resource_similarities_resource_id_fkey"
+            columns: ["resource_id"]
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resource_similarities_similar_resource_id_fkey"
+            columns: ["similar_resource_id"]
+            referencedRelation: "resources"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       system_config: {
         Row: {
           id: string
@@ -625,11 +735,26 @@ export interface Database {
           should_auto_hide: boolean
         }[]
       }
+      get_discovery_arm_rewards: {
+        Args: {
+          arm_names: string[]
+          reward_weights: Json
+          window_days?: number
+          quick_skip_seconds?: number
+          long_dwell_seconds?: number
+        }
+        Returns: {
+          arm: string
+          impressions: number
+          reward_sum: number
+        }[]
+      }
       get_personalized_recommendations: {
         Args: {
           target_user_id: string
           limit_count?: number
           exclude_viewed?: boolean
+          exclude_session_id?: string | null
         }
         Returns: {
           resource_id: string
@@ -640,12 +765,68 @@ export interface Database {
         Args: {
           limit_count?: number
           exclude_ids?: string[]
+          exclude_session_id?: string | null
         }
         Returns: {
           resource_id: string
           random_score: number
         }[]
       }
+      record_stumble_served: {
+        Args: {
+          target_session_id: string
+          target_user_id: string | null
+          resource_ids: string[]
+          ttl_hours?: number
+          max_served?: number
+        }
+        Returns: void
+      }
+      refresh_resource_similarities: {
+        Args: {
+          min_co_count?: number
+          max_neighbors?: number
+        }
+        Returns: number
+      }
+      unserved_resources: {
+        Args: {
+          target_session_id: string | null
+        }
+        Returns: Database['public']['Tables']['resources']['Row'][]
+      }
+      search_resources: {
+        Args: {
+          search_query: string
+          filter_category?: string | null
+          filter_difficulty?: string | null
+          max_time?: number | null
+          filter_tags?: string[] | null
+          limit_count?: number
+          offset_count?: number
+        }
+        Returns: {
+          resource_id: string
+          search_rank: number
+          title_highlight: string
+          snippet: string | null
+          total_count: number
+        }[]
+      }
+      search_resource_facets: {
+        Args: {
+          search_query: string
+          filter_category?: string | null
+          filter_difficulty?: string | null
+          max_time?: number | null
+          filter_tags?: string[] | null
+        }
+        Returns: {
+          facet: string
+          facet_value: string
+          match_count: number
+        }[]
+      }
       update_resource_scores: {
         Args: {
           resource_id: string
@@ -718,6 +899,61 @@ export interface ResourceWithSubmitter extends Resource {
 export interface ResourceWithVotes extends ResourceWithSubmitter {
   user_vote?: 'up' | 'down' | null;
   is_favorited?: boolean;
+  discovery_source?: DiscoverySource; // Which source picked it in balanced discovery
+}
+
+// favorites row joined with its resource, as selected by /api/user/favorites
+export interface FavoriteWithResource extends Pick<Favorite, 'id' | 'created_at'> {
+  resource: ResourceWithSubmitter;
+}
+
+// Resource in the user's library, flattened from FavoriteWithResource
+export interface FavoritedResource extends ResourceWithVotes {
+  is_favorited: true;
+  favorited_at: string;
+}
+
+// Full-text search result; highlighted text wraps matches in \u0002...\u0003
+export interface SearchResult extends ResourceWithVotes {
+  search: {
+    rank: number;
+    title_highlight: string;
+    snippet: string | null;
+  };
+}
+
+export interface SearchFacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  category: SearchFacetCount[];
+  difficulty: SearchFacetCount[];
+  time: SearchFacetCount[]; // Cumulative: value is "up to N minutes"
+  tag: SearchFacetCount[];
+}
+
+// Existing resource a submission may duplicate
+export type DuplicateCandidate = Pick<Resource, 'id' | 'title' | 'author' | 'url' | 'status'>;
+
+// Stumble page filter drawer selections, stored in the user_preferences columns
+// (or localStorage when signed out) and sent to /api/discover as query parameters
+export interface StumbleFilters {
+  categories: ResourceCategory[];
+  difficulty: DifficultyLevel | null;
+  max_time: number | null;
+  hide_videos: boolean;
+  hide_long_content: boolean;
+}
+
+// Resource suggested as similar to another: from co-liking users when there's
+// enough data, otherwise from shared tags or category
+export interface SimilarResource extends Resource {
+  similarity: {
+    source: 'collaborative' | 'content';
+    score: number | null; // Cosine similarity for collaborative matches
+  };
 }
 
 export interface UserWithStats extends User {
@@ -730,9 +966,10 @@ export interface UserWithStats extends User {
 export type ResourceCategory = 'books' | 'articles' | 'videos' | 'tools' | 'research' | 'philosophy';
 export type ResourceStatus = 'pending' | 'approved' | 'rejected' | 'hidden';
 export type VoteType = 'up' | 'down';
-export type InteractionType = 'view' | 'favorite' | 'share' | 'complete' | 'click_through';
+export type InteractionType = 'view' | 'favorite' | 'share' | 'complete' | 'click_through' | 'skip';
 export type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced';
 export type DiscoveryAlgorithm = 'balanced' | 'popular' | 'recent' | 'personalized';
+export type DiscoverySource = 'personalized' | 'trending' | 'fresh' | 'exploration';
 export type ReportReason = 'spam' | 'inappropriate' | 'broken_link' | 'duplicate' | 'other';
 export type ReportStatus = 'pending' | 'reviewed' | 'resolved' | 'dismissed';
 